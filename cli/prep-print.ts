@@ -0,0 +1,172 @@
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { BleedMethod, CutLineType, FitMode, ProcessingParameters } from "@/types/print";
+import { DEFAULT_PROCESSING_PARAMETERS } from "@/services/presets/defaults";
+import { BUILT_IN_PRESETS } from "@/services/presets/catalogue";
+import { processPrintFile } from "@/services/printCore";
+
+const USAGE = `Usage: prep-print process <input.png|jpg> [options]
+
+Scales the image into the trim, generates the bleed and writes a print-ready
+PDF with TrimBox/BleedBox and a vector cut line.
+
+Options:
+  --size <W>x<H>         Trim size in mm, e.g. 85x55
+  --bleed <mm>           Bleed on every side (default 3)
+  --dpi <150|300>        Output resolution (default 300)
+  -o, --output <file>    Output PDF (default: <input>_print.pdf)
+  --preset <id>          Start from a built-in preset, e.g. business-card-eu
+  --params <file.json>   Start from ProcessingParameters JSON; options given here win
+  --fit <mode>           contain, cover, stretch or none
+  --bleed-method <name>  edge, mirror, smear or synthesis (default edge)
+  --cut <type>           rectangle, rounded, circle, ellipse or contour
+  --radius <mm>          Corner radius for --cut rounded
+  --marks                Add crop marks, registration marks and a colour bar
+  --list-presets         Print the built-in preset ids
+  --verbose              Log every processing step
+  -h, --help             Show this help
+
+Exits with 0 on success, 1 when processing fails and 2 on invalid arguments.`;
+
+const FIT_MODES: FitMode[] = ["contain", "cover", "stretch", "none"];
+const BLEED_METHODS: BleedMethod[] = ["edge", "mirror", "smear", "synthesis"];
+const CUT_LINE_TYPES: CutLineType[] = ["rectangle", "rounded", "circle", "ellipse", "contour"];
+
+class UsageError extends Error {}
+
+const parseNumber = (name: string, value: string): number => {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) {
+    throw new UsageError(`--${name} must be a number of millimetres, got "${value}"`);
+  }
+  return number;
+};
+
+const parseChoice = <T extends string>(name: string, value: string, choices: T[]): T => {
+  if (!choices.includes(value as T)) {
+    throw new UsageError(`--${name} must be one of ${choices.join(", ")}, got "${value}"`);
+  }
+  return value as T;
+};
+
+const parseSize = (value: string) => {
+  const match = value.match(/^(\d+(?:\.\d+)?)x(\d+(?:\.\d+)?)$/i);
+  if (!match || !(Number(match[1]) > 0) || !(Number(match[2]) > 0)) {
+    throw new UsageError(`--size must look like 85x55 (mm), got "${value}"`);
+  }
+  return { width: Number(match[1]), height: Number(match[2]) };
+};
+
+type Options = ReturnType<typeof parseCommandLine>["values"];
+
+const parseCommandLine = (args: string[]) =>
+  parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      size: { type: "string" },
+      bleed: { type: "string" },
+      dpi: { type: "string" },
+      output: { type: "string", short: "o" },
+      preset: { type: "string" },
+      params: { type: "string" },
+      fit: { type: "string" },
+      "bleed-method": { type: "string" },
+      cut: { type: "string" },
+      radius: { type: "string" },
+      marks: { type: "boolean" },
+      "list-presets": { type: "boolean" },
+      verbose: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+/** Defaults, then the preset, then the JSON file, then the individual options */
+const buildParameters = async (options: Options): Promise<ProcessingParameters> => {
+  let parameters: ProcessingParameters = { ...DEFAULT_PROCESSING_PARAMETERS, bleedMethod: "edge" };
+
+  if (options.preset) {
+    const preset = BUILT_IN_PRESETS.find(({ id }) => id === `builtin:${options.preset}`);
+    if (!preset) {
+      throw new UsageError(`Unknown preset "${options.preset}"; see --list-presets`);
+    }
+    parameters = { ...parameters, ...preset.parameters };
+  }
+  if (options.params) {
+    try {
+      parameters = { ...parameters, ...JSON.parse(await readFile(options.params, "utf8")) };
+    } catch (error) {
+      throw new UsageError(`Could not read ${options.params}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (options.size) parameters.finalDimensions = parseSize(options.size);
+  if (options.bleed) parameters.bleedMargin = parseNumber("bleed", options.bleed);
+  if (options.dpi) parameters.dpi = Number(parseChoice("dpi", options.dpi, ["150", "300"])) as 150 | 300;
+  if (options.fit) parameters.fitMode = parseChoice("fit", options.fit, FIT_MODES);
+  if (options["bleed-method"]) parameters.bleedMethod = parseChoice("bleed-method", options["bleed-method"], BLEED_METHODS);
+  if (options.cut) parameters.cutLineType = parseChoice("cut", options.cut, CUT_LINE_TYPES);
+  if (options.radius) parameters.cornerRadius = parseNumber("radius", options.radius);
+  if (options.marks) parameters.printerMarks = { ...parameters.printerMarks, enabled: true };
+
+  if (!options.size && !options.preset && !options.params) {
+    throw new UsageError("Give the trim size with --size, --preset or --params");
+  }
+  return parameters;
+};
+
+const processCommand = async (input: string | undefined, options: Options) => {
+  if (!input) {
+    throw new UsageError("Missing the input image");
+  }
+  const parameters = await buildParameters(options);
+  const output = options.output ?? input.replace(/\.[^./\\]+$/, "") + "_print.pdf";
+
+  const started = Date.now();
+  const pdf = await processPrintFile(new Uint8Array(await readFile(input)), parameters, path.basename(input));
+  await writeFile(output, new Uint8Array(await pdf.arrayBuffer()));
+
+  const { width, height } = parameters.finalDimensions;
+  console.info(
+    `${output}: ${width}x${height}mm + ${parameters.bleedMargin}mm bleed at ${parameters.dpi} DPI, ` +
+    `${Math.round(pdf.size / 1024)} KB in ${((Date.now() - started) / 1000).toFixed(1)}s`
+  );
+};
+
+const main = async (args: string[]): Promise<number> => {
+  try {
+    const { values: options, positionals } = parseCommandLine(args);
+    const [command, input] = positionals;
+
+    // The core logs every step for the browser console; only show that on request
+    if (!options.verbose) {
+      console.log = () => {};
+    }
+
+    if (options.help) {
+      console.info(USAGE);
+      return 0;
+    }
+    if (options["list-presets"]) {
+      BUILT_IN_PRESETS.forEach(({ id, name }) => console.info(`${id.replace(/^builtin:/, "").padEnd(24)} ${name}`));
+      return 0;
+    }
+    if (command !== "process") {
+      throw new UsageError(command ? `Unknown command "${command}"` : "Missing a command");
+    }
+
+    await processCommand(input, options);
+    return 0;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`prep-print: ${message}`);
+    if (error instanceof UsageError || (error as NodeJS.ErrnoException).code?.startsWith("ERR_PARSE_ARGS")) {
+      console.error("Run prep-print --help for usage.");
+      return 2;
+    }
+    return 1;
+  }
+};
+
+process.exitCode = await main(process.argv.slice(2));
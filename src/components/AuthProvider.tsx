@@ -0,0 +1,34 @@
+import { ReactNode, useEffect, useState } from "react";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { AuthContext } from "@/hooks/useAuth";
+
+/**
+ * Keeps the Supabase session in React state. Sign-ins, sign-outs, token
+ * refreshes and magic-link returns all arrive through onAuthStateChange.
+ */
+export const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, nextSession) => {
+      console.log(`[AuthProvider] ${event}`);
+      setSession(nextSession);
+      setIsLoading(false);
+    });
+
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setIsLoading(false);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  return (
+    <AuthContext.Provider value={{ session, user: session?.user ?? null, isLoading }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
@@ -0,0 +1,317 @@
+import { useCallback, useState } from "react";
+import { useDropzone } from "react-dropzone";
+import {
+  Upload,
+  FileText,
+  Image as ImageIcon,
+  X,
+  Play,
+  Download,
+  Archive,
+  Settings2,
+  Loader2,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ProcessingParameters } from "@/types/print";
+import { BatchItem, BatchItemStatus } from "@/services/imageProcessing";
+
+interface BatchQueuePanelProps {
+  items: BatchItem[];
+  parameters: ProcessingParameters;
+  isRunning: boolean;
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+  onAddFiles: (files: File[]) => void;
+  onRemoveItem: (id: string) => void;
+  onOverridesChange: (id: string, overrides: Partial<ProcessingParameters> | undefined) => void;
+  onStart: () => void;
+  onCancel: () => void;
+  onClear: () => void;
+  onDownloadItem: (item: BatchItem) => void;
+  onDownloadZip: () => void;
+}
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: "Queued",
+  processing: "Processing",
+  done: "Done",
+  error: "Failed",
+  cancelled: "Cancelled",
+};
+
+const STATUS_VARIANTS: Record<BatchItemStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  queued: "outline",
+  processing: "secondary",
+  done: "default",
+  error: "destructive",
+  cancelled: "outline",
+};
+
+interface OverrideEditorProps {
+  item: BatchItem;
+  parameters: ProcessingParameters;
+  disabled: boolean;
+  onOverridesChange: (id: string, overrides: Partial<ProcessingParameters> | undefined) => void;
+}
+
+/**
+ * Per-file size and bleed; empty fields fall back to the batch parameters.
+ */
+const OverrideEditor = ({ item, parameters, disabled, onOverridesChange }: OverrideEditorProps) => {
+  const overrides = item.overrides ?? {};
+
+  const update = (field: "width" | "height" | "bleed", value: string) => {
+    const next: Partial<ProcessingParameters> = { ...overrides };
+    const number = value === "" ? undefined : Number(value);
+
+    if (field === "bleed") {
+      next.bleedMargin = number;
+    } else {
+      const dimensions = { ...(overrides.finalDimensions ?? parameters.finalDimensions) };
+      dimensions[field] = number ?? parameters.finalDimensions[field];
+      next.finalDimensions = dimensions;
+    }
+
+    // Drop entries that no longer differ from the batch parameters
+    if (next.bleedMargin === undefined) delete next.bleedMargin;
+    if (
+      next.finalDimensions &&
+      next.finalDimensions.width === parameters.finalDimensions.width &&
+      next.finalDimensions.height === parameters.finalDimensions.height
+    ) {
+      delete next.finalDimensions;
+    }
+    onOverridesChange(item.id, Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  return (
+    <div className="grid grid-cols-3 gap-2 mt-3">
+      <div>
+        <Label htmlFor={`${item.id}-width`} className="text-xs text-gray-500">Width (mm)</Label>
+        <Input
+          id={`${item.id}-width`}
+          type="number"
+          placeholder={String(parameters.finalDimensions.width)}
+          value={overrides.finalDimensions?.width ?? ""}
+          onChange={(e) => update("width", e.target.value)}
+          disabled={disabled}
+          className="h-8"
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${item.id}-height`} className="text-xs text-gray-500">Height (mm)</Label>
+        <Input
+          id={`${item.id}-height`}
+          type="number"
+          placeholder={String(parameters.finalDimensions.height)}
+          value={overrides.finalDimensions?.height ?? ""}
+          onChange={(e) => update("height", e.target.value)}
+          disabled={disabled}
+          className="h-8"
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${item.id}-bleed`} className="text-xs text-gray-500">Bleed (mm)</Label>
+        <Input
+          id={`${item.id}-bleed`}
+          type="number"
+          placeholder={String(parameters.bleedMargin)}
+          value={overrides.bleedMargin ?? ""}
+          onChange={(e) => update("bleed", e.target.value)}
+          disabled={disabled}
+          className="h-8"
+        />
+      </div>
+    </div>
+  );
+};
+
+export const BatchQueuePanel = ({
+  items,
+  parameters,
+  isRunning,
+  concurrency,
+  onConcurrencyChange,
+  onAddFiles,
+  onRemoveItem,
+  onOverridesChange,
+  onStart,
+  onCancel,
+  onClear,
+  onDownloadItem,
+  onDownloadZip,
+}: BatchQueuePanelProps) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const onDrop = useCallback((acceptedFiles: File[]) => {
+    if (acceptedFiles.length > 0) {
+      onAddFiles(acceptedFiles);
+    }
+  }, [onAddFiles]);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: {
+      'application/pdf': ['.pdf'],
+      'image/*': ['.jpg', '.jpeg', '.png']
+    },
+    multiple: true,
+    disabled: isRunning
+  });
+
+  const doneCount = items.filter(item => item.status === "done").length;
+  const failedCount = items.filter(item => item.status === "error").length;
+  const pendingCount = items.length - doneCount;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="p-6">
+          <div
+            {...getRootProps()}
+            className={`border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors ${
+              isDragActive
+                ? "border-blue-500 bg-blue-50"
+                : "border-gray-300 hover:border-gray-400"
+            }`}
+          >
+            <input {...getInputProps()} />
+            <Upload className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            {isDragActive ? (
+              <p className="text-blue-600 font-medium">Drop the files here...</p>
+            ) : (
+              <div className="space-y-2">
+                <p className="text-lg font-medium text-gray-900">Add files to the batch</p>
+                <p className="text-gray-500">Drag & drop any number of files or click to browse</p>
+                <p className="text-sm text-gray-400">Supports PDF, JPEG, PNG</p>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg">Batch Queue</CardTitle>
+            <span className="text-sm text-gray-500">
+              {doneCount}/{items.length} done{failedCount > 0 ? ` • ${failedCount} failed` : ""}
+            </span>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm font-medium">Files in parallel</Label>
+            <div className="flex gap-1">
+              {CONCURRENCY_OPTIONS.map(option => (
+                <Button
+                  key={option}
+                  variant={concurrency === option ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => onConcurrencyChange(option)}
+                  disabled={isRunning}
+                >
+                  {option}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {items.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">No files in the queue yet</p>
+          ) : (
+            <ul className="divide-y border rounded-lg">
+              {items.map(item => (
+                <li key={item.id} className="p-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="flex items-center space-x-3 min-w-0">
+                      {item.file.type === "pdf" ? (
+                        <FileText className="h-4 w-4 text-blue-600 shrink-0" />
+                      ) : (
+                        <ImageIcon className="h-4 w-4 text-blue-600 shrink-0" />
+                      )}
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate">{item.file.file.name}</p>
+                        <p className="text-xs text-gray-500 truncate">
+                          {Math.round(item.file.file.size / 1024)} KB
+                          {item.file.pages && item.file.pages > 1 ? ` • ${item.file.pages} pages` : ""}
+                          {item.overrides ? " • custom settings" : ""}
+                          {item.step ? ` • ${item.step}` : ""}
+                        </p>
+                        {item.error && <p className="text-xs text-red-600">{item.error}</p>}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      {item.status === "processing" && <Loader2 className="h-4 w-4 animate-spin text-blue-600" />}
+                      <Badge variant={STATUS_VARIANTS[item.status]}>{STATUS_LABELS[item.status]}</Badge>
+                      {item.output && (
+                        <Button variant="ghost" size="sm" onClick={() => onDownloadItem(item)} title="Download PDF">
+                          <Download className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setEditingId(editingId === item.id ? null : item.id)}
+                        disabled={isRunning || item.status === "done"}
+                        title="Override parameters for this file"
+                      >
+                        <Settings2 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onRemoveItem(item.id)}
+                        disabled={isRunning}
+                        title="Remove from queue"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  {item.status === "processing" && <Progress value={item.progress} className="h-1.5 mt-2" />}
+                  {editingId === item.id && (
+                    <OverrideEditor
+                      item={item}
+                      parameters={parameters}
+                      disabled={isRunning}
+                      onOverridesChange={onOverridesChange}
+                    />
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            {isRunning ? (
+              <Button variant="outline" onClick={onCancel} className="flex-1">
+                <X className="h-4 w-4 mr-2" />
+                Cancel Batch
+              </Button>
+            ) : (
+              <Button onClick={onStart} disabled={pendingCount === 0} className="flex-1">
+                <Play className="h-4 w-4 mr-2" />
+                Process {pendingCount} File{pendingCount === 1 ? "" : "s"}
+              </Button>
+            )}
+            <Button variant="outline" onClick={onDownloadZip} disabled={doneCount === 0 || isRunning}>
+              <Archive className="h-4 w-4 mr-2" />
+              Download ZIP
+            </Button>
+            <Button variant="ghost" onClick={onClear} disabled={items.length === 0 || isRunning}>
+              Clear
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
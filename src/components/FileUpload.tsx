@@ -6,6 +6,7 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { UploadedFile, ProcessingState } from "@/types/print";
 import { toast } from "@/hooks/use-toast";
+import { getPDFInfo } from "@/services/imageProcessing";
 
 interface FileUploadProps {
   onFileUpload: (file: UploadedFile) => void;
@@ -41,12 +42,30 @@ export const FileUpload = ({ onFileUpload, uploadedFile, processingState }: File
     if (isImage) {
       const reader = new FileReader();
       reader.onload = (e) => {
-        uploadedFile.preview = e.target?.result as string;
-        onFileUpload(uploadedFile);
+        const preview = e.target?.result as string;
+        uploadedFile.preview = preview;
+        // Natural size drives actual-size placement and the placement preview
+        const img = new Image();
+        img.onload = () => {
+          uploadedFile.dimensions = { width: img.naturalWidth, height: img.naturalHeight };
+          onFileUpload(uploadedFile);
+        };
+        img.onerror = () => onFileUpload(uploadedFile);
+        img.src = preview;
       };
       reader.readAsDataURL(file);
     } else {
-      onFileUpload(uploadedFile);
+      // Count pages up front so a page range can be chosen before processing
+      getPDFInfo(file)
+        .then(({ pages, pageSize }) => {
+          uploadedFile.pages = pages;
+          uploadedFile.dimensions = pageSize;
+        })
+        .catch((error) => {
+          console.warn('Could not count PDF pages, assuming a single page:', error);
+          uploadedFile.pages = 1;
+        })
+        .finally(() => onFileUpload(uploadedFile));
     }
 
     toast({
@@ -86,6 +105,7 @@ export const FileUpload = ({ onFileUpload, uploadedFile, processingState }: File
                 <p className="font-medium text-gray-900">{uploadedFile.file.name}</p>
                 <p className="text-sm text-gray-500">
                   {uploadedFile.type.toUpperCase()} • {Math.round(uploadedFile.file.size / 1024)} KB
+                  {uploadedFile.pages && uploadedFile.pages > 1 ? ` • ${uploadedFile.pages} pages` : ""}
                 </p>
                 <p className="text-xs text-blue-600 font-medium">
                   {uploadedFile.type === "pdf" ? "Will be converted to high-quality PNG" : "Ready for direct processing"}
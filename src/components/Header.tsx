@@ -1,7 +1,12 @@
 
-import { FileImage } from "lucide-react";
+import { FileImage, History, LogIn, User } from "lucide-react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
 
 export const Header = () => {
+  const { user } = useAuth();
+
   return (
     <header className="border-b bg-white">
       <div className="px-6 py-4">
@@ -16,6 +21,29 @@ export const Header = () => {
               Daisler Print Optimizer
             </h1>
           </div>
+          <div className="flex items-center space-x-2">
+            <Link to="/history">
+              <Button variant="ghost" size="sm">
+                <History className="h-4 w-4 mr-2" />
+                History
+              </Button>
+            </Link>
+            {user ? (
+              <Link to="/profile">
+                <Button variant="ghost" size="sm">
+                  <User className="h-4 w-4 mr-2" />
+                  {user.email}
+                </Button>
+              </Link>
+            ) : (
+              <Link to="/auth">
+                <Button variant="outline" size="sm">
+                  <LogIn className="h-4 w-4 mr-2" />
+                  Sign In
+                </Button>
+              </Link>
+            )}
+          </div>
         </div>
       </div>
     </header>
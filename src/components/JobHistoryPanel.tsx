@@ -0,0 +1,131 @@
+import { Download, FileText, Loader2, RefreshCw, RotateCcw, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { ProcessedFileRecord } from "@/services/jobHistory";
+
+interface JobHistoryPanelProps {
+  jobs: ProcessedFileRecord[];
+  isLoading: boolean;
+  busyIds: string[];
+  onRefresh: () => void;
+  onDownload: (job: ProcessedFileRecord) => void;
+  onRerun: (job: ProcessedFileRecord) => void;
+  onDelete: (job: ProcessedFileRecord) => void;
+}
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  completed: "default",
+  processing: "secondary",
+  failed: "destructive",
+};
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" }) : "";
+
+export const JobHistoryPanel = ({
+  jobs,
+  isLoading,
+  busyIds,
+  onRefresh,
+  onDownload,
+  onRerun,
+  onDelete,
+}: JobHistoryPanelProps) => (
+  <Card>
+    <CardHeader>
+      <div className="flex items-center justify-between">
+        <CardTitle className="text-lg">Job History</CardTitle>
+        <Button variant="ghost" size="sm" onClick={onRefresh} disabled={isLoading} title="Refresh">
+          <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+        </Button>
+      </div>
+    </CardHeader>
+    <CardContent>
+      {jobs.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">
+          {isLoading ? "Loading jobs..." : "Files you process in the workflow appear here"}
+        </p>
+      ) : (
+        <ul className="divide-y border rounded-lg">
+          {jobs.map(job => {
+            const busy = busyIds.includes(job.id);
+            const canRerun = !!job.source_path && !!job.parameters;
+            return (
+              <li key={job.id} className="p-3">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex items-center space-x-3 min-w-0">
+                    <FileText className="h-4 w-4 text-blue-600 shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">{job.original_filename}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {formatDate(job.created_at)} • {job.width_mm}×{job.height_mm}mm • {job.bleed_mm}mm bleed •{" "}
+                        {job.dpi} DPI
+                        {job.page_count && job.page_count > 1 ? ` • ${job.page_count} pages` : ""}
+                      </p>
+                      {job.error_message && <p className="text-xs text-red-600">{job.error_message}</p>}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    {busy && <Loader2 className="h-4 w-4 animate-spin text-blue-600" />}
+                    <Badge variant={STATUS_VARIANTS[job.processing_status] ?? "outline"}>
+                      {job.processing_status}
+                    </Badge>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onDownload(job)}
+                      disabled={busy || job.processing_status !== "completed"}
+                      title="Download PDF"
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onRerun(job)}
+                      disabled={busy || !canRerun}
+                      title={canRerun ? "Re-run with the same parameters" : "Saved without its original file"}
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="sm" disabled={busy} title="Delete job">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete this job?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            {job.original_filename} and its print-ready PDF will be removed permanently.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => onDelete(job)}>Delete</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </CardContent>
+  </Card>
+);
@@ -3,6 +3,7 @@ import { Download, Eye, FileText, CheckCircle, Loader2, Image, AlertCircle } fro
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { ProcessingState, ProcessingParameters } from "@/types/print";
+import { CutPath, DEFAULT_ICC_PROFILE_ID, cutPathFromParameters, cutPathToSVG, getCutContourColor, getICCProfileInfo } from "@/services/imageProcessing";
 import { useToast } from "@/components/ui/use-toast";
 
 interface OutputPanelProps {
@@ -12,6 +13,9 @@ interface OutputPanelProps {
   processedImageUrl?: string | null;
   processingStep?: string | null;
   processingError?: string | null;
+  pageCount?: number;
+  /** Cut path traced during processing; the parameters' cut line otherwise */
+  cutPath?: CutPath | null;
 }
 
 export const OutputPanel = ({
@@ -20,7 +24,9 @@ export const OutputPanel = ({
   parameters,
   processedImageUrl,
   processingStep,
-  processingError
+  processingError,
+  pageCount = 1,
+  cutPath
 }: OutputPanelProps) => {
   const { toast } = useToast();
   const isCompleted = processingState === "completed" && outputUrl;
@@ -135,26 +141,52 @@ export const OutputPanel = ({
               <div className="border rounded-lg p-2 bg-gray-50">
                 <div className="flex items-center space-x-2 mb-2">
                   <Image className="h-4 w-4 text-gray-600" />
-                  <span className="text-sm font-medium">Processed Preview</span>
+                  <span className="text-sm font-medium">Processed Preview{pageCount > 1 ? " (first page)" : ""}</span>
+                </div>
+                <div className="relative w-fit mx-auto">
+                  <img 
+                    src={processedImageUrl} 
+                    alt="Processed image with bleed"
+                    className="block w-auto h-auto max-w-full rounded border max-h-64"
+                  />
+                  {/* The cut line is only in the PDF as a vector, so the preview draws it on top */}
+                  <svg
+                    className="absolute inset-0 w-full h-full pointer-events-none"
+                    viewBox={`0 0 ${parameters.finalDimensions.width + parameters.bleedMargin * 2} ${parameters.finalDimensions.height + parameters.bleedMargin * 2}`}
+                    preserveAspectRatio="none"
+                  >
+                    <path
+                      d={cutPathToSVG(cutPath ?? cutPathFromParameters(parameters), parameters.bleedMargin)}
+                      fill="none"
+                      stroke="#FF00FF"
+                      strokeWidth={1}
+                      vectorEffect="non-scaling-stroke"
+                    />
+                  </svg>
                 </div>
-                <img 
-                  src={processedImageUrl} 
-                  alt="Processed image with bleed and cut lines"
-                  className="w-full h-auto rounded border max-h-64 object-contain"
-                />
                 <p className="text-xs text-gray-500 mt-1 text-center">
-                  Shows bleed extension and {parameters.cutLineType} cut lines
+                  Shows bleed extension and the {parameters.cutLineType} cut path
                 </p>
               </div>
             )}
 
             <div className="border rounded-lg p-4 bg-gray-50">
               <div className="text-sm space-y-1">
-                <p><span className="font-medium">Format:</span> PDF</p>
+                <p><span className="font-medium">Format:</span> PDF{pageCount > 1 ? ` (${pageCount} pages)` : ""}</p>
                 <p><span className="font-medium">Dimensions:</span> {parameters.finalDimensions.width}×{parameters.finalDimensions.height}mm</p>
                 <p><span className="font-medium">DPI:</span> {parameters.dpi}</p>
                 <p><span className="font-medium">Bleed:</span> {parameters.bleedMargin}mm</p>
-                <p><span className="font-medium">Cut Lines:</span> {parameters.cutLineType}</p>
+                <p><span className="font-medium">Page Boxes:</span> TrimBox, BleedBox{parameters.safeMargin ? `, ArtBox (${parameters.safeMargin}mm safe margin)` : ""}</p>
+                <p><span className="font-medium">Colour:</span> {parameters.colorSpace === "cmyk"
+                  ? `CMYK (${getICCProfileInfo(parameters.iccProfile ?? DEFAULT_ICC_PROFILE_ID)?.name ?? parameters.iccProfile}${parameters.embedIccProfile === false ? ", DeviceCMYK" : ", profile embedded"})`
+                  : "RGB"}</p>
+                {parameters.pdfStandard && parameters.pdfStandard !== "none" && (
+                  <p><span className="font-medium">Standard:</span> {parameters.pdfStandard}</p>
+                )}
+                <p><span className="font-medium">Cut Lines:</span> {parameters.cutLineType}, vector in spot colour "{getCutContourColor(parameters).name}"</p>
+                {parameters.printerMarks?.enabled && (
+                  <p><span className="font-medium">Printer's Marks:</span> {parameters.printerMarks.slugSize}mm slug</p>
+                )}
               </div>
             </div>
 
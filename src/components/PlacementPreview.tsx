@@ -0,0 +1,172 @@
+import { useRef, useState } from "react";
+import { Move, RotateCcw } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { ProcessingParameters, UploadedFile, ValidationIssue } from "@/types/print";
+import { DEFAULT_SAFE_ZONE_MM, cutPathFromParameters, cutPathToSVG, fitContent } from "@/services/imageProcessing";
+
+interface PlacementPreviewProps {
+  file: UploadedFile;
+  parameters: ProcessingParameters;
+  onParameterChange: (params: Partial<ProcessingParameters>) => void;
+  disabled?: boolean;
+  /** Validation issues; those with a region are outlined on the trim */
+  issues?: ValidationIssue[];
+}
+
+interface DragStart {
+  pointerId: number;
+  clientX: number;
+  clientY: number;
+  offset: { x: number; y: number };
+}
+
+/**
+ * Shows where the artwork lands on the trim with the current fit settings.
+ * Dragging the artwork sets the manual offset and the slider its scale, both
+ * in the same millimetre terms the processors use. The safe zone is shaded
+ * and regions flagged by validation are outlined in red.
+ */
+export const PlacementPreview = ({ file, parameters, onParameterChange, disabled, issues = [] }: PlacementPreviewProps) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragStart, setDragStart] = useState<DragStart | null>(null);
+
+  if (!file.dimensions) return null;
+
+  const { width: trimWidth, height: trimHeight } = parameters.finalDimensions;
+  const bleed = parameters.bleedMargin;
+  const offset = parameters.contentOffset ?? { x: 0, y: 0 };
+  const scale = parameters.contentScale ?? 1;
+  // PDF sizes are in points, image sizes in pixels printed at the output DPI
+  const naturalScale = file.type === "pdf" ? 25.4 / 72 : 25.4 / parameters.dpi;
+  const content = fitContent(file.dimensions, parameters.finalDimensions, parameters, 1, naturalScale);
+
+  const cutLine = cutPathToSVG(cutPathFromParameters(parameters));
+  const safeMargin = parameters.safeMargin || DEFAULT_SAFE_ZONE_MM;
+  const lineWidth = Math.max(trimWidth, trimHeight) / 300;
+  const flagged = issues.flatMap((issue) => (issue.region ? [issue.region] : []));
+
+  const viewBox = `${-bleed} ${-bleed} ${trimWidth + bleed * 2} ${trimHeight + bleed * 2}`;
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragStart({ pointerId: e.pointerId, clientX: e.clientX, clientY: e.clientY, offset });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!dragStart || dragStart.pointerId !== e.pointerId || !svgRef.current) return;
+    const mmPerPixel = (trimWidth + bleed * 2) / svgRef.current.getBoundingClientRect().width;
+    onParameterChange({
+      contentOffset: {
+        x: Math.round((dragStart.offset.x + (e.clientX - dragStart.clientX) * mmPerPixel) * 10) / 10,
+        y: Math.round((dragStart.offset.y + (e.clientY - dragStart.clientY) * mmPerPixel) * 10) / 10,
+      },
+    });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragStart?.pointerId !== e.pointerId) return;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    setDragStart(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-base">
+          <Move className="h-4 w-4" />
+          <span>Placement</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <svg
+          ref={svgRef}
+          viewBox={viewBox}
+          className={`w-full max-h-80 bg-gray-100 rounded-lg border touch-none ${disabled ? "" : dragStart ? "cursor-grabbing" : "cursor-grab"}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          <defs>
+            <clipPath id="placement-bleed">
+              <rect x={-bleed} y={-bleed} width={trimWidth + bleed * 2} height={trimHeight + bleed * 2} />
+            </clipPath>
+            <clipPath id="placement-cut">
+              <path d={cutLine} />
+            </clipPath>
+          </defs>
+          <rect x={-bleed} y={-bleed} width={trimWidth + bleed * 2} height={trimHeight + bleed * 2} fill="#ffffff" />
+          <g clipPath="url(#placement-bleed)">
+            {file.preview ? (
+              <image
+                href={file.preview}
+                x={content.x}
+                y={content.y}
+                width={content.width}
+                height={content.height}
+                preserveAspectRatio="none"
+                opacity={0.9}
+              />
+            ) : (
+              <rect x={content.x} y={content.y} width={content.width} height={content.height} fill="#cbd5e1" />
+            )}
+          </g>
+          {/* Half of a stroke twice the margin wide falls inside the cut line */}
+          <path
+            d={cutLine}
+            clipPath="url(#placement-cut)"
+            fill="none"
+            stroke="#f59e0b"
+            strokeOpacity={0.25}
+            strokeWidth={safeMargin * 2}
+          />
+          <path d={cutLine} fill="none" stroke="#2563eb" strokeWidth={lineWidth} />
+          {flagged.map((region, index) => (
+            <rect
+              key={index}
+              x={region.x}
+              y={region.y}
+              width={region.width}
+              height={region.height}
+              fill="#ef4444"
+              fillOpacity={0.2}
+              stroke="#dc2626"
+              strokeWidth={lineWidth}
+            />
+          ))}
+        </svg>
+        <p className="text-xs text-gray-500">
+          Blue line: cut, shaded: {safeMargin}mm safe zone
+          {flagged.length > 0 ? `, red: ${flagged.length} flagged region(s)` : ""}.
+          Drag to move the artwork; offset {offset.x.toFixed(1)} × {offset.y.toFixed(1)} mm.
+        </p>
+
+        <div className="space-y-2">
+          <Label className="text-xs text-gray-500">Scale {Math.round(scale * 100)}%</Label>
+          <Slider
+            min={10}
+            max={400}
+            step={1}
+            value={[Math.round(scale * 100)]}
+            onValueChange={([value]) => onParameterChange({ contentScale: value / 100 })}
+            disabled={disabled}
+          />
+        </div>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onParameterChange({ contentOffset: { x: 0, y: 0 }, contentScale: 1 })}
+          disabled={disabled}
+        >
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Reset Placement
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,183 @@
+import { useRef, useState } from "react";
+import { Download, Plus, Search, Share2, Upload, X } from "lucide-react";
+import { PresetCategory, PresetTemplate, ProcessingParameters } from "@/types/print";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PRESET_CATEGORIES, presetParameters, searchPresets } from "@/services/presets";
+import { usePresets } from "@/hooks/usePresets";
+
+interface PresetLibraryProps {
+  parameters: ProcessingParameters;
+  onParameterChange: (params: Partial<ProcessingParameters>) => void;
+  disabled?: boolean;
+}
+
+const CATEGORY_LABELS = Object.fromEntries(PRESET_CATEGORIES.map(({ value, label }) => [value, label]));
+
+/**
+ * Built-in and saved presets with search by name and category. The current
+ * settings can be saved as a preset, and presets shared as JSON files.
+ */
+export const PresetLibrary = ({ parameters, onParameterChange, disabled }: PresetLibraryProps) => {
+  const { presets, userPresets, isSignedIn, savePreset, importPresets, exportPresets, removePreset } = usePresets();
+  const [query, setQuery] = useState("");
+  const [category, setCategory] = useState<PresetCategory | "all">("all");
+  const [isSaving, setIsSaving] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [newCategory, setNewCategory] = useState<PresetCategory>("custom");
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const results = searchPresets(presets, query, category);
+
+  const applyPreset = (preset: PresetTemplate) => {
+    onParameterChange(presetParameters(preset.parameters));
+  };
+
+  const handleSave = async () => {
+    if (!newName.trim()) return;
+    await savePreset({ name: newName.trim(), category: newCategory, parameters });
+    setNewName("");
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">Presets</Label>
+        <div className="flex">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            onClick={() => setIsSaving(!isSaving)}
+            disabled={disabled}
+            title="Save current settings as a preset"
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            onClick={() => importRef.current?.click()}
+            title="Import presets from a JSON file"
+          >
+            <Upload className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            onClick={() => exportPresets()}
+            disabled={userPresets.length === 0}
+            title="Export your presets as JSON"
+          >
+            <Download className="h-4 w-4" />
+          </Button>
+          <input
+            ref={importRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importPresets(file);
+              e.target.value = "";
+            }}
+          />
+        </div>
+      </div>
+
+      {isSaving && (
+        <div className="space-y-2 p-2 border rounded-md bg-gray-50">
+          <Input
+            placeholder="Preset name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSave()}
+            className="h-8 text-xs"
+          />
+          <Select value={newCategory} onValueChange={(value) => setNewCategory(value as PresetCategory)}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PRESET_CATEGORIES.map(({ value, label }) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" className="w-full h-7 text-xs" onClick={handleSave} disabled={!newName.trim()}>
+            Save Preset
+          </Button>
+          {!isSignedIn && (
+            <p className="text-xs text-gray-500">Not signed in: the preset is kept until you leave the page.</p>
+          )}
+        </div>
+      )}
+
+      <div className="relative">
+        <Search className="h-3.5 w-3.5 text-gray-400 absolute left-2 top-1/2 -translate-y-1/2" />
+        <Input
+          placeholder="Search presets"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="h-8 text-xs pl-7"
+        />
+      </div>
+      <Select value={category} onValueChange={(value) => setCategory(value as PresetCategory | "all")}>
+        <SelectTrigger className="h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All categories</SelectItem>
+          {PRESET_CATEGORIES.map(({ value, label }) => (
+            <SelectItem key={value} value={value}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div className="max-h-64 overflow-y-auto space-y-1">
+        {results.length === 0 && <p className="text-xs text-gray-500 py-2">No presets match</p>}
+        {results.map((preset) => (
+          <div key={preset.id} className="flex items-center">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="flex-1 justify-start text-xs h-auto py-1.5 min-w-0"
+              onClick={() => applyPreset(preset)}
+              disabled={disabled}
+              title={preset.description ?? CATEGORY_LABELS[preset.category]}
+            >
+              <span className="truncate">{preset.name}</span>
+            </Button>
+            {!preset.builtIn && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0 shrink-0"
+                  onClick={() => exportPresets([preset])}
+                  title="Share this preset as JSON"
+                >
+                  <Share2 className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0 shrink-0"
+                  onClick={() => removePreset(preset)}
+                  title="Delete preset"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
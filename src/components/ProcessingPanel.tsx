@@ -8,6 +8,10 @@ import { UploadedFile, ProcessingParameters, ProcessingState } from "@/types/pri
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PageProgress, parsePageRange } from "@/services/imageProcessing";
+import { DEFAULT_PREFLIGHT_PROFILE_ID, getPreflightProfile, listPreflightProfiles } from "@/services/preflight";
 import { useState, useEffect } from "react";
 
 interface ProcessingPanelProps {
@@ -22,6 +26,12 @@ interface ProcessingPanelProps {
   useAIOutpaint?: boolean;
   onUseAIOutpaintChange?: (enabled: boolean) => void;
   processingProgress?: number;
+  onParameterChange?: (params: Partial<ProcessingParameters>) => void;
+  pageRange?: string;
+  onPageRangeChange?: (range: string) => void;
+  pageProgress?: PageProgress | null;
+  preflightProfile?: string;
+  onPreflightProfileChange?: (profile: string) => void;
 }
 
 export const ProcessingPanel = ({
@@ -36,6 +46,12 @@ export const ProcessingPanel = ({
   useAIOutpaint = false,
   onUseAIOutpaintChange,
   processingProgress = 0,
+  onParameterChange,
+  pageRange = "",
+  onPageRangeChange,
+  pageProgress,
+  preflightProfile = DEFAULT_PREFLIGHT_PROFILE_ID,
+  onPreflightProfileChange,
 }: ProcessingPanelProps) => {
   const canValidate = processingState === "uploaded";
   const canProcess = processingState === "validated";
@@ -48,6 +64,15 @@ export const ProcessingPanel = ({
     setLocalBleedPrompt(bleedPrompt || "");
   }, [bleedPrompt]);
 
+  const pageCount = file.type === "pdf" ? file.pages ?? 1 : 1;
+  let pageRangeError: string | null = null;
+  let selectedPageCount = pageCount;
+  try {
+    selectedPageCount = parsePageRange(pageRange, pageCount).length;
+  } catch (error) {
+    pageRangeError = error instanceof Error ? error.message : String(error);
+  }
+
   const handlePromptBlur = () => {
     if (onBleedPromptChange) {
       onBleedPromptChange(localBleedPrompt);
@@ -77,6 +102,51 @@ export const ProcessingPanel = ({
           </div>
         </div>
         
+        {pageCount > 1 && (
+          <div className="space-y-1">
+            <Label htmlFor="page-range" className="text-sm font-medium">
+              Pages <span className="text-gray-400">({pageCount} in document)</span>
+            </Label>
+            <Input
+              id="page-range"
+              placeholder={`All pages, or e.g. 1-3, 5 (max ${pageCount})`}
+              value={pageRange}
+              onChange={(e) => onPageRangeChange?.(e.target.value)}
+              disabled={isProcessing || !onPageRangeChange}
+              className="h-8 text-xs"
+            />
+            {pageRangeError ? (
+              <p className="text-xs text-red-600">{pageRangeError}</p>
+            ) : (
+              <p className="text-xs text-gray-500">
+                {selectedPageCount} of {pageCount} pages will be processed into a single PDF
+              </p>
+            )}
+          </div>
+        )}
+
+        {file.type === "pdf" && (
+          <div className="space-y-1">
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="preserve-vectors"
+                checked={!!parameters.preserveVectors}
+                onCheckedChange={(checked) => onParameterChange?.({ preserveVectors: checked })}
+                disabled={isProcessing || !onParameterChange}
+              />
+              <Label htmlFor="preserve-vectors" className="text-sm font-medium">
+                Preserve vector content
+              </Label>
+            </div>
+            <p className="text-xs text-gray-500">
+              {parameters.preserveVectors
+                ? "The original PDF page is kept as vectors; only the bleed strip is generated as raster"
+                : "The PDF page is rasterised before bleed and cut lines are added"
+              }
+            </p>
+          </div>
+        )}
+
         <div className="space-y-3">
           <div className="flex items-center space-x-2">
             <Switch
@@ -121,7 +191,14 @@ export const ProcessingPanel = ({
         {isProcessing && processingState === "processing" && (
           <div className="space-y-2">
             <div className="flex items-center justify-between text-sm">
-              <span>Workflow Progress</span>
+              <span>
+                Workflow Progress
+                {pageProgress && pageProgress.total > 1 && (
+                  <span className="text-xs text-gray-500 ml-2">
+                    Page {pageProgress.current} of {pageProgress.total} (p. {pageProgress.pageNumber})
+                  </span>
+                )}
+              </span>
               <span className="text-xs text-gray-500">{processingProgress.toFixed(0)}%</span>
             </div>
             <Progress value={processingProgress} className="w-full" />
@@ -129,6 +206,25 @@ export const ProcessingPanel = ({
         )}
         
         <div className="space-y-2">
+          <div className="space-y-1">
+            <Label htmlFor="preflight-profile" className="text-sm font-medium">Preflight Profile</Label>
+            <Select
+              value={preflightProfile}
+              onValueChange={(value) => onPreflightProfileChange?.(value)}
+              disabled={isProcessing || !onPreflightProfileChange}
+            >
+              <SelectTrigger id="preflight-profile" className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {listPreflightProfiles().map((profile) => (
+                  <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">{getPreflightProfile(preflightProfile)?.description}</p>
+          </div>
+
           <Button
             onClick={onValidate}
             disabled={!canValidate || isProcessing}
@@ -156,7 +252,7 @@ export const ProcessingPanel = ({
           <div className="flex gap-2">
             <Button
               onClick={onProcess}
-              disabled={!canProcess || isProcessing}
+              disabled={!canProcess || isProcessing || !!pageRangeError}
               className="flex-1"
               variant="default"
             >
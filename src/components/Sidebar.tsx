@@ -1,11 +1,78 @@
 
-import { ProcessingParameters, ProcessingState } from "@/types/print";
+import { useState } from "react";
+import { BleedMethod, CutLineType, FitAnchor, FitMode, PDFStandard, PrinterMarks, ProcessingParameters, ProcessingState } from "@/types/print";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { AIKeySetup } from "@/components/AIKeySetup";
+import { PresetLibrary } from "@/components/PresetLibrary";
+import { toast } from "@/hooks/use-toast";
+import {
+  CUT_CONTOUR_NAMES,
+  DEFAULT_CONTOUR_OFFSET,
+  DEFAULT_CUT_CONTOUR_NAME,
+  DEFAULT_FIT_ANCHOR,
+  DEFAULT_FIT_MODE,
+  DEFAULT_ICC_PROFILE_ID,
+  DEFAULT_PRINTER_MARKS,
+  listICCProfiles,
+  parseSVGDieLine,
+  registerCustomICCProfile
+} from "@/services/imageProcessing";
+
+const PDF_STANDARDS: { value: PDFStandard; label: string }[] = [
+  { value: "none", label: "None" },
+  { value: "PDF/X-1a:2003", label: "X-1a" },
+  { value: "PDF/X-4", label: "X-4" },
+];
+
+const BLEED_METHODS: { value: BleedMethod; label: string }[] = [
+  { value: "auto", label: "Auto (AI if configured)" },
+  { value: "edge", label: "Edge colour" },
+  { value: "mirror", label: "Mirror" },
+  { value: "smear", label: "Smear with blur" },
+  { value: "synthesis", label: "Texture synthesis" },
+];
+
+const FIT_MODES: { value: FitMode; label: string }[] = [
+  { value: "contain", label: "Contain (fit inside)" },
+  { value: "cover", label: "Cover (fill and crop)" },
+  { value: "stretch", label: "Stretch" },
+  { value: "none", label: "Actual size" },
+];
+
+// Row by row, as laid out in the anchor grid
+const FIT_ANCHORS: FitAnchor[] = [
+  "top-left", "top", "top-right",
+  "left", "center", "right",
+  "bottom-left", "bottom", "bottom-right",
+];
+
+const CUT_LINE_TYPES: { value: CutLineType; label: string }[] = [
+  { value: "rectangle", label: "Rectangle" },
+  { value: "rounded", label: "Rounded" },
+  { value: "circle", label: "Circle" },
+  { value: "ellipse", label: "Ellipse" },
+  { value: "custom", label: "Custom SVG" },
+  { value: "contour", label: "Contour" },
+];
+
+const CONTOUR_SOURCES: { value: NonNullable<ProcessingParameters["contourSource"]>; label: string }[] = [
+  { value: "auto", label: "Auto" },
+  { value: "alpha", label: "Alpha" },
+  { value: "background", label: "Background" },
+];
+
+const PRINTER_MARK_OPTIONS: { key: "cropMarks" | "registrationMarks" | "colorBar" | "slugLine"; label: string }[] = [
+  { key: "cropMarks", label: "Crop marks" },
+  { key: "registrationMarks", label: "Registration marks" },
+  { key: "colorBar", label: "Colour bar" },
+  { key: "slugLine", label: "Slug line (file, date)" },
+];
 
 interface SidebarProps {
   parameters: ProcessingParameters;
@@ -15,6 +82,40 @@ interface SidebarProps {
 
 export const Sidebar = ({ parameters, onParameterChange, processingState }: SidebarProps) => {
   const isDisabled = processingState === "processing" || processingState === "validating";
+  const [iccProfiles, setIccProfiles] = useState(listICCProfiles);
+  const printerMarks = parameters.printerMarks ?? DEFAULT_PRINTER_MARKS;
+
+  const updatePrinterMarks = (changes: Partial<PrinterMarks>) => {
+    onParameterChange({ printerMarks: { ...printerMarks, ...changes } });
+  };
+
+  const handleProfileUpload = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const profile = await registerCustomICCProfile(file);
+      setIccProfiles(listICCProfiles());
+      onParameterChange({ iccProfile: profile.id });
+    } catch (error) {
+      toast({
+        title: "Invalid ICC profile",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDieLineUpload = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onParameterChange({ customDieLine: await parseSVGDieLine(file) });
+    } catch (error) {
+      toast({
+        title: "Invalid die-line",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      });
+    }
+  };
 
   return (
     <aside className="w-80 bg-white border-r border-gray-200 p-6 overflow-y-auto">
@@ -75,6 +176,87 @@ export const Sidebar = ({ parameters, onParameterChange, processingState }: Side
               disabled={isDisabled}
               className="h-8"
             />
+            <Label htmlFor="bleedMethod" className="text-xs text-gray-500">Bleed Method</Label>
+            <Select
+              value={parameters.bleedMethod ?? "auto"}
+              onValueChange={(value) => onParameterChange({ bleedMethod: value as BleedMethod })}
+              disabled={isDisabled}
+            >
+              <SelectTrigger id="bleedMethod" className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BLEED_METHODS.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Safe Margin */}
+          <div className="space-y-2">
+            <Label htmlFor="safeMargin" className="text-sm font-medium">Safe Margin (mm)</Label>
+            <Input
+              id="safeMargin"
+              type="number"
+              min="0"
+              step="0.5"
+              value={parameters.safeMargin ?? 0}
+              onChange={(e) => onParameterChange({ safeMargin: Math.max(0, Number(e.target.value)) })}
+              disabled={isDisabled}
+              className="h-8"
+            />
+            <p className="text-xs text-gray-500">Exported as the PDF ArtBox. Use 0 to omit it.</p>
+          </div>
+
+          <Separator />
+
+          {/* Content Fit */}
+          <div className="space-y-2">
+            <Label htmlFor="fitMode" className="text-sm font-medium">Content Fit</Label>
+            <Select
+              value={parameters.fitMode ?? DEFAULT_FIT_MODE}
+              onValueChange={(value) => onParameterChange({ fitMode: value as FitMode })}
+              disabled={isDisabled}
+            >
+              <SelectTrigger id="fitMode" className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FIT_MODES.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {parameters.fitMode !== "stretch" && (
+              <div className="space-y-1">
+                <Label className="text-xs text-gray-500">Anchor</Label>
+                <div className="grid grid-cols-3 gap-1 w-24">
+                  {FIT_ANCHORS.map((anchor) => (
+                    <Button
+                      key={anchor}
+                      variant={(parameters.fitAnchor ?? DEFAULT_FIT_ANCHOR) === anchor ? "default" : "outline"}
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      title={anchor}
+                      onClick={() => onParameterChange({ fitAnchor: anchor })}
+                      disabled={isDisabled}
+                    >
+                      <span className="h-1.5 w-1.5 rounded-full bg-current" />
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div className="flex items-center justify-between">
+              <Label htmlFor="upscaleSource" className="text-xs text-gray-500">Upscale low-resolution images</Label>
+              <Switch
+                id="upscaleSource"
+                checked={parameters.upscaleSource ?? false}
+                onCheckedChange={(checked) => onParameterChange({ upscaleSource: checked })}
+                disabled={isDisabled}
+              />
+            </div>
           </div>
 
           <Separator />
@@ -104,76 +286,239 @@ export const Sidebar = ({ parameters, onParameterChange, processingState }: Side
 
           <Separator />
 
-          {/* Cut Line Type */}
+          {/* Output Colour */}
           <div className="space-y-2">
-            <Label className="text-sm font-medium">Cut Line Type</Label>
+            <Label className="text-sm font-medium">Output Colour</Label>
             <div className="grid grid-cols-2 gap-2">
               <Button
-                variant={parameters.cutLineType === "rectangle" ? "default" : "outline"}
+                variant={parameters.colorSpace !== "cmyk" ? "default" : "outline"}
                 size="sm"
-                onClick={() => onParameterChange({ cutLineType: "rectangle" })}
+                onClick={() => onParameterChange({ colorSpace: "rgb", pdfStandard: "none" })}
                 disabled={isDisabled}
               >
-                Rectangle
+                RGB
               </Button>
               <Button
-                variant={parameters.cutLineType === "circle" ? "default" : "outline"}
+                variant={parameters.colorSpace === "cmyk" ? "default" : "outline"}
                 size="sm"
-                onClick={() => onParameterChange({ cutLineType: "circle" })}
+                onClick={() => onParameterChange({ colorSpace: "cmyk" })}
                 disabled={isDisabled}
               >
-                Circle
+                CMYK
               </Button>
             </div>
+            {parameters.colorSpace === "cmyk" && (
+              <div className="space-y-2">
+                <Label htmlFor="iccProfile" className="text-xs text-gray-500">ICC Profile</Label>
+                <Select
+                  value={parameters.iccProfile ?? DEFAULT_ICC_PROFILE_ID}
+                  onValueChange={(value) => onParameterChange({ iccProfile: value })}
+                  disabled={isDisabled}
+                >
+                  <SelectTrigger id="iccProfile" className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {iccProfiles.map((profile) => (
+                      <SelectItem key={profile.id} value={profile.id} className="text-xs">
+                        {profile.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="file"
+                  accept=".icc,.icm"
+                  onChange={(e) => handleProfileUpload(e.target.files?.[0])}
+                  disabled={isDisabled}
+                  className="h-8 text-xs"
+                />
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="embedIcc" className="text-xs text-gray-500">Embed profile (ICCBased)</Label>
+                  <Switch
+                    id="embedIcc"
+                    checked={parameters.embedIccProfile !== false}
+                    onCheckedChange={(checked) => onParameterChange({ embedIccProfile: checked })}
+                    disabled={isDisabled}
+                  />
+                </div>
+                <p className="text-xs text-gray-500">Without embedding, images are written as DeviceCMYK.</p>
+              </div>
+            )}
           </div>
 
           <Separator />
 
-          {/* Presets */}
+          {/* PDF Standard */}
           <div className="space-y-2">
-            <Label className="text-sm font-medium">Quick Presets</Label>
-            <div className="space-y-1">
-              <Button
-                variant="ghost"
-                size="sm"
-                className="w-full justify-start text-xs"
-                onClick={() => onParameterChange({
-                  finalDimensions: { width: 85, height: 55 },
-                  bleedMargin: 2,
-                  dpi: 300
-                })}
-                disabled={isDisabled}
-              >
-                Business Card (85×55mm)
-              </Button>
-              <Button
-                variant="ghost"
-                size="sm"
-                className="w-full justify-start text-xs"
-                onClick={() => onParameterChange({
-                  finalDimensions: { width: 210, height: 297 },
-                  bleedMargin: 3,
-                  dpi: 300
-                })}
+            <Label className="text-sm font-medium">PDF Standard</Label>
+            <div className="grid grid-cols-3 gap-2">
+              {PDF_STANDARDS.map(({ value, label }) => (
+                <Button
+                  key={value}
+                  variant={(parameters.pdfStandard ?? "none") === value ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => onParameterChange(
+                    // PDF/X output is always CMYK against the selected profile
+                    value === "none" ? { pdfStandard: value } : { pdfStandard: value, colorSpace: "cmyk" }
+                  )}
+                  disabled={isDisabled}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+            {parameters.pdfStandard && parameters.pdfStandard !== "none" && (
+              <p className="text-xs text-gray-500">
+                The file is checked before download; export fails with a list of violations if it cannot conform.
+              </p>
+            )}
+          </div>
+
+          <Separator />
+
+          {/* Printer's Marks */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="printerMarks" className="text-sm font-medium">Printer's Marks</Label>
+              <Switch
+                id="printerMarks"
+                checked={printerMarks.enabled}
+                onCheckedChange={(checked) => updatePrinterMarks({ enabled: checked })}
                 disabled={isDisabled}
-              >
-                A4 Flyer (210×297mm)
-              </Button>
-              <Button
-                variant="ghost"
-                size="sm"
-                className="w-full justify-start text-xs"
-                onClick={() => onParameterChange({
-                  finalDimensions: { width: 420, height: 594 },
-                  bleedMargin: 5,
-                  dpi: 150
-                })}
+              />
+            </div>
+            {printerMarks.enabled && (
+              <div className="space-y-2">
+                {PRINTER_MARK_OPTIONS.map(({ key, label }) => (
+                  <div key={key} className="flex items-center justify-between">
+                    <Label htmlFor={`mark-${key}`} className="text-xs text-gray-500">{label}</Label>
+                    <Switch
+                      id={`mark-${key}`}
+                      checked={printerMarks[key]}
+                      onCheckedChange={(checked) => updatePrinterMarks({ [key]: checked })}
+                      disabled={isDisabled}
+                    />
+                  </div>
+                ))}
+                <div>
+                  <Label htmlFor="slugSize" className="text-xs text-gray-500">Slug Area (mm)</Label>
+                  <Input
+                    id="slugSize"
+                    type="number"
+                    value={printerMarks.slugSize}
+                    onChange={(e) => updatePrinterMarks({ slugSize: Math.max(5, Number(e.target.value)) })}
+                    min="5"
+                    max="30"
+                    step="1"
+                    disabled={isDisabled}
+                  />
+                </div>
+                <p className="text-xs text-gray-500">The page grows by the slug on every side; marks go on their own layer.</p>
+              </div>
+            )}
+          </div>
+
+          <Separator />
+
+          {/* Cut Line Type */}
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Cut Line Type</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {CUT_LINE_TYPES.map(({ value, label }) => (
+                <Button
+                  key={value}
+                  variant={parameters.cutLineType === value ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => onParameterChange({ cutLineType: value })}
+                  disabled={isDisabled}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+            {parameters.cutLineType === "rounded" && (
+              <div>
+                <Label htmlFor="cornerRadius" className="text-xs text-gray-500">Corner Radius (mm)</Label>
+                <Input
+                  id="cornerRadius"
+                  type="number"
+                  value={parameters.cornerRadius ?? 0}
+                  onChange={(e) => onParameterChange({ cornerRadius: Math.max(0, Number(e.target.value)) })}
+                  min="0"
+                  step="0.5"
+                  disabled={isDisabled}
+                />
+              </div>
+            )}
+            {parameters.cutLineType === "custom" && (
+              <div className="space-y-1">
+                <Label htmlFor="dieLine" className="text-xs text-gray-500">Die-line (SVG)</Label>
+                <Input
+                  id="dieLine"
+                  type="file"
+                  accept=".svg,image/svg+xml"
+                  onChange={(e) => handleDieLineUpload(e.target.files?.[0])}
+                  disabled={isDisabled}
+                  className="h-8 text-xs"
+                />
+                <p className="text-xs text-gray-500">
+                  {parameters.customDieLine
+                    ? `${parameters.customDieLine.name}, scaled to ${parameters.finalDimensions.width}×${parameters.finalDimensions.height}mm`
+                    : "Upload an SVG outline; it is scaled to the final dimensions."}
+                </p>
+              </div>
+            )}
+            {parameters.cutLineType === "contour" && (
+              <div className="space-y-2">
+                <div className="grid grid-cols-3 gap-1">
+                  {CONTOUR_SOURCES.map(({ value, label }) => (
+                    <Button
+                      key={value}
+                      variant={(parameters.contourSource ?? "auto") === value ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => onParameterChange({ contourSource: value })}
+                      disabled={isDisabled}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+                <div>
+                  <Label htmlFor="contourOffset" className="text-xs text-gray-500">Offset from Artwork (mm)</Label>
+                  <Input
+                    id="contourOffset"
+                    type="number"
+                    value={parameters.contourOffset ?? DEFAULT_CONTOUR_OFFSET}
+                    onChange={(e) => onParameterChange({ contourOffset: Math.max(0, Number(e.target.value)) })}
+                    min="0"
+                    step="0.5"
+                    disabled={isDisabled}
+                  />
+                </div>
+                <p className="text-xs text-gray-500">Traced from PNG transparency or a plain background; bleed follows the contour.</p>
+              </div>
+            )}
+            <div>
+              <Label htmlFor="cutContourName" className="text-xs text-gray-500">Cut Spot Colour</Label>
+              <Input
+                id="cutContourName"
+                list="cutContourNames"
+                value={parameters.cutContourName ?? DEFAULT_CUT_CONTOUR_NAME}
+                onChange={(e) => onParameterChange({ cutContourName: e.target.value })}
                 disabled={isDisabled}
-              >
-                A2 Poster (420×594mm)
-              </Button>
+              />
+              <datalist id="cutContourNames">
+                {CUT_CONTOUR_NAMES.map((name) => <option key={name} value={name} />)}
+              </datalist>
             </div>
+            <p className="text-xs text-gray-500">Exported as a vector path on its own layer; the artwork stays clean.</p>
           </div>
+
+          <Separator />
+
+          {/* Presets */}
+          <PresetLibrary parameters={parameters} onParameterChange={onParameterChange} disabled={isDisabled} />
         </CardContent>
       </Card>
 
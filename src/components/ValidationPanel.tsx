@@ -1,17 +1,46 @@
 
-import { CheckCircle, AlertTriangle, XCircle } from "lucide-react";
+import { CheckCircle, AlertTriangle, XCircle, Info, Wand2, Undo2 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ValidationResult } from "@/types/print";
+import { ValidationFix, ValidationIssue, ValidationResult } from "@/types/print";
+import { getPreflightProfile } from "@/services/preflight";
 
 interface ValidationPanelProps {
   validationResult: ValidationResult;
   onApprove: () => void;
+  /** Applies an issue's fix to the parameters and re-validates */
+  onApplyFix?: (fix: ValidationFix) => void;
+  onUndo?: () => void;
+  /** Label of the most recent fix, when there is one to undo */
+  undoLabel?: string;
+  disabled?: boolean;
 }
 
-export const ValidationPanel = ({ validationResult, onApprove }: ValidationPanelProps) => {
+export const ValidationPanel = ({
+  validationResult,
+  onApprove,
+  onApplyFix,
+  onUndo,
+  undoLabel,
+  disabled,
+}: ValidationPanelProps) => {
   const hasIssues = validationResult.warnings.length > 0 || validationResult.errors.length > 0;
+  const profile = validationResult.profile ? getPreflightProfile(validationResult.profile) : undefined;
+
+  const renderFix = ({ fix }: ValidationIssue) =>
+    fix && onApplyFix && (
+      <Button
+        variant="outline"
+        size="sm"
+        className="mt-2 h-7 text-xs"
+        onClick={() => onApplyFix(fix)}
+        disabled={disabled}
+      >
+        <Wand2 className="h-3 w-3 mr-1" />
+        {fix.label}
+      </Button>
+    );
 
   return (
     <Card>
@@ -23,9 +52,24 @@ export const ValidationPanel = ({ validationResult, onApprove }: ValidationPanel
             <XCircle className="h-5 w-5 text-red-600" />
           )}
           <span>Validation Results</span>
+          {profile && (
+            <Badge variant="outline" className="text-xs font-normal">
+              {profile.name}
+            </Badge>
+          )}
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
+        {undoLabel && onUndo && (
+          <div className="flex items-center justify-between p-2 bg-gray-50 rounded border">
+            <p className="text-xs text-gray-600">Applied: {undoLabel}</p>
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={onUndo} disabled={disabled}>
+              <Undo2 className="h-3 w-3 mr-1" />
+              Undo
+            </Button>
+          </div>
+        )}
+
         {!hasIssues ? (
           <div className="text-center py-4">
             <CheckCircle className="h-12 w-12 text-green-600 mx-auto mb-2" />
@@ -48,6 +92,10 @@ export const ValidationPanel = ({ validationResult, onApprove }: ValidationPanel
                         {error.category}
                       </Badge>
                     </div>
+                    {error.suggestion && (
+                      <p className="text-xs text-red-600 mt-1">{error.suggestion}</p>
+                    )}
+                    {renderFix(error)}
                   </div>
                 ))}
               </div>
@@ -67,6 +115,10 @@ export const ValidationPanel = ({ validationResult, onApprove }: ValidationPanel
                         {warning.category}
                       </Badge>
                     </div>
+                    {warning.suggestion && (
+                      <p className="text-xs text-yellow-600 mt-1">{warning.suggestion}</p>
+                    )}
+                    {renderFix(warning)}
                   </div>
                 ))}
               </div>
@@ -74,6 +126,29 @@ export const ValidationPanel = ({ validationResult, onApprove }: ValidationPanel
           </div>
         )}
 
+        {validationResult.info.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2">
+              <Info className="h-4 w-4 text-blue-600" />
+              <span className="font-medium text-blue-700">Notes</span>
+            </div>
+            {validationResult.info.map((note, index) => (
+              <div key={index} className="ml-6 p-2 bg-blue-50 rounded border-l-4 border-blue-300">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-blue-700">{note.message}</p>
+                  <Badge variant="outline" className="text-xs">
+                    {note.category}
+                  </Badge>
+                </div>
+                {note.suggestion && (
+                  <p className="text-xs text-blue-600 mt-1">{note.suggestion}</p>
+                )}
+                {renderFix(note)}
+              </div>
+            ))}
+          </div>
+        )}
+
         {validationResult.isValid && (
           <Button onClick={onApprove} className="w-full">
             <CheckCircle className="h-4 w-4 mr-2" />
@@ -0,0 +1,19 @@
+import { createContext, useContext } from "react";
+import type { Session, User } from "@supabase/supabase-js";
+
+export interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  /** True until the stored session has been read */
+  isLoading: boolean;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
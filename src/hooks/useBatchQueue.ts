@@ -0,0 +1,150 @@
+import { useState, useRef } from "react";
+import { ProcessingParameters, UploadedFile } from "@/types/print";
+import {
+  BatchItem,
+  BatchProcessor,
+  DEFAULT_BATCH_CONCURRENCY,
+  batchOutputFileName,
+  createZipArchive,
+  getPDFPageCount,
+} from "@/services/imageProcessing";
+import { useToast } from "@/components/ui/use-toast";
+
+let nextItemId = 0;
+
+const toUploadedFile = async (file: File): Promise<UploadedFile> => {
+  if (file.type !== "application/pdf") {
+    return { file, type: "image" };
+  }
+
+  try {
+    return { file, type: "pdf", pages: await getPDFPageCount(file) };
+  } catch (error) {
+    console.warn(`[useBatchQueue] Could not count pages of ${file.name}, assuming a single page:`, error);
+    return { file, type: "pdf", pages: 1 };
+  }
+};
+
+export function useBatchQueue() {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [concurrency, setConcurrency] = useState<number>(DEFAULT_BATCH_CONCURRENCY);
+  const { toast } = useToast();
+  const batchProcessorRef = useRef<BatchProcessor | null>(null);
+
+  const updateItem = (id: string, update: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...update } : item)));
+  };
+
+  const addFiles = async (files: File[]) => {
+    const supported = files.filter(file => file.type === "application/pdf" || file.type.startsWith("image/"));
+    if (supported.length < files.length) {
+      toast({
+        title: "Some files were skipped",
+        description: `${files.length - supported.length} file(s) are not PDF or image files.`,
+        variant: "destructive",
+      });
+    }
+
+    const uploadedFiles = await Promise.all(supported.map(toUploadedFile));
+    setItems(prev => [
+      ...prev,
+      ...uploadedFiles.map((file): BatchItem => ({
+        id: `batch-${++nextItemId}`,
+        file,
+        status: "queued",
+        progress: 0,
+      })),
+    ]);
+  };
+
+  const removeItem = (id: string) => {
+    setItems(prev => prev.filter(item => item.id !== id));
+  };
+
+  const clearQueue = () => {
+    setItems([]);
+  };
+
+  const setItemOverrides = (id: string, overrides: Partial<ProcessingParameters> | undefined) => {
+    updateItem(id, { overrides });
+  };
+
+  const runQueue = async (parameters: ProcessingParameters) => {
+    // Finished files are kept; everything else (re)joins the queue
+    const pending = items.filter(item => item.status !== "done");
+    if (pending.length === 0) return;
+
+    pending.forEach(item => updateItem(item.id, { status: "queued", progress: 0, error: undefined }));
+
+    const processor = new BatchProcessor(updateItem);
+    batchProcessorRef.current = processor;
+    setIsRunning(true);
+
+    try {
+      await processor.run(pending, parameters, concurrency);
+    } finally {
+      batchProcessorRef.current = null;
+      setIsRunning(false);
+    }
+
+    toast({
+      title: "Batch finished",
+      description: `${pending.length} file(s) went through the queue.`,
+    });
+  };
+
+  const cancelQueue = () => {
+    console.log('[useBatchQueue] Cancel requested');
+    batchProcessorRef.current?.cancel("User cancelled");
+  };
+
+  const downloadItem = (item: BatchItem) => {
+    if (!item.output) return;
+    const url = URL.createObjectURL(item.output);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = batchOutputFileName(item.file.file.name);
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const downloadZip = async () => {
+    const finished = items.filter(item => item.output);
+    if (finished.length === 0) return;
+
+    try {
+      const archive = await createZipArchive(
+        finished.map(item => ({ name: batchOutputFileName(item.file.file.name), data: item.output! }))
+      );
+      const url = URL.createObjectURL(archive);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `print-files-${new Date().toISOString().slice(0, 10)}.zip`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (error) {
+      console.error('[useBatchQueue] ZIP creation failed:', error);
+      toast({
+        title: "ZIP Download Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return {
+    items,
+    isRunning,
+    concurrency,
+    setConcurrency,
+    addFiles,
+    removeItem,
+    clearQueue,
+    setItemOverrides,
+    runQueue,
+    cancelQueue,
+    downloadItem,
+    downloadZip,
+  };
+}
@@ -1,5 +1,9 @@
 
-import { UploadedFile } from "@/types/print";
+import { useEffect, useRef } from "react";
+import { useSearchParams } from "react-router-dom";
+import { UploadedFile, ValidationFix } from "@/types/print";
+import { getJob, loadJob } from "@/services/jobHistory";
+import { toast } from "@/components/ui/use-toast";
 import { useFileUpload } from "./useFileUpload";
 import { useValidation } from "./useValidation";
 import { useProcessing } from "./useProcessing";
@@ -19,12 +23,20 @@ export function useDashboardLogic() {
     setBleedPrompt,
     useAIOutpaint,
     setUseAIOutpaint,
+    pageRange,
+    setPageRange,
     handleParameterChange,
+    applyFix,
+    undoFix,
+    clearFixHistory,
+    undoLabel,
   } = useParameters();
 
   const {
     validationResult,
     setValidationResult,
+    preflightProfile,
+    setPreflightProfile,
     handleValidation,
   } = useValidation();
 
@@ -41,10 +53,17 @@ export function useDashboardLogic() {
     setProcessingProgress,
     outputUrl,
     setOutputUrl,
+    pageProgress,
+    processedPageCount,
+    processedCutPath,
     handleProcessing,
     handleCancelProcessing,
   } = useProcessing();
 
+  const [searchParams, setSearchParams] = useSearchParams();
+  const rerunJobId = searchParams.get("job");
+  const rerunStartedRef = useRef<string | null>(null);
+
   // Enhanced file upload handler that resets state
   const enhancedHandleFileUpload = (file: UploadedFile) => {
     handleFileUpload(file);
@@ -55,6 +74,8 @@ export function useDashboardLogic() {
     setProcessingError(null);
     setProcessingProgress(0);
     setBleedPrompt("");
+    setPageRange("");
+    clearFixHistory();
   };
 
   // Enhanced validation handler that passes required dependencies
@@ -62,10 +83,53 @@ export function useDashboardLogic() {
     await handleValidation(uploadedFile, parameters, setProcessingState, setProcessingError);
   };
 
+  // Applies a validation fix and re-validates with the updated parameters
+  const handleApplyFix = async (fix: ValidationFix) => {
+    const next = applyFix(fix);
+    await handleValidation(uploadedFile, next, setProcessingState, setProcessingError);
+  };
+
+  const handleUndoFix = async () => {
+    const previous = undoFix();
+    if (!previous) return;
+    await handleValidation(uploadedFile, previous, setProcessingState, setProcessingError);
+  };
+
   // Enhanced processing handler that passes required dependencies
   const enhancedHandleProcessing = async () => {
-    await handleProcessing(uploadedFile, parameters, bleedPrompt, useAIOutpaint);
+    await handleProcessing(uploadedFile, parameters, bleedPrompt, useAIOutpaint, pageRange);
+  };
+
+  // Re-run of a job from the history: loads its original and settings and processes it again
+  const rerunJob = async (jobId: string) => {
+    try {
+      const job = await loadJob(await getJob(jobId));
+      enhancedHandleFileUpload(job.source);
+      setParameters(job.parameters);
+      setBleedPrompt(job.bleedPrompt);
+      setUseAIOutpaint(job.useAIOutpaint);
+      setPageRange(job.pageRange);
+      await handleProcessing(job.source, job.parameters, job.bleedPrompt, job.useAIOutpaint, job.pageRange);
+    } catch (error) {
+      console.error('[useDashboardLogic] Could not re-run job:', error);
+      toast({
+        title: "Re-run Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
   };
+  // The handlers are recreated every render; the effect reads the latest through this ref
+  const rerunJobRef = useRef(rerunJob);
+  rerunJobRef.current = rerunJob;
+
+  // /workflow?job=<id> starts a re-run once per requested job
+  useEffect(() => {
+    if (!rerunJobId || rerunStartedRef.current === rerunJobId) return;
+    rerunStartedRef.current = rerunJobId;
+    setSearchParams({}, { replace: true });
+    rerunJobRef.current(rerunJobId);
+  }, [rerunJobId, setSearchParams]);
 
   return {
     uploadedFile,
@@ -76,6 +140,8 @@ export function useDashboardLogic() {
     setParameters,
     validationResult,
     setValidationResult,
+    preflightProfile,
+    setPreflightProfile,
     outputUrl,
     setOutputUrl,
     processedImageUrl,
@@ -90,9 +156,17 @@ export function useDashboardLogic() {
     setBleedPrompt,
     useAIOutpaint,
     setUseAIOutpaint,
+    pageRange,
+    setPageRange,
+    pageProgress,
+    processedPageCount,
+    processedCutPath,
     handleFileUpload: enhancedHandleFileUpload,
     handleParameterChange,
     handleValidation: enhancedHandleValidation,
+    handleApplyFix,
+    handleUndoFix,
+    undoLabel,
     handleProcessing: enhancedHandleProcessing,
     handleCancelProcessing,
   };
@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useState } from "react";
+import { ProcessedFileRecord, deleteJob, getJobDownloadUrl, listJobs } from "@/services/jobHistory";
+import { useToast } from "@/components/ui/use-toast";
+
+export function useJobHistory() {
+  const [jobs, setJobs] = useState<ProcessedFileRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Jobs with a download or delete in flight
+  const [busyIds, setBusyIds] = useState<string[]>([]);
+  const { toast } = useToast();
+
+  const setBusy = (id: string, busy: boolean) => {
+    setBusyIds(prev => (busy ? [...prev, id] : prev.filter(busyId => busyId !== id)));
+  };
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setJobs(await listJobs());
+    } catch (error) {
+      console.error('[useJobHistory] Could not load jobs:', error);
+      toast({
+        title: "History Unavailable",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  // Loaded on mount; refresh() is called again after changes
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const downloadJob = async (job: ProcessedFileRecord) => {
+    setBusy(job.id, true);
+    try {
+      window.location.assign(await getJobDownloadUrl(job));
+    } catch (error) {
+      toast({
+        title: "Download Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(job.id, false);
+    }
+  };
+
+  const removeJob = async (job: ProcessedFileRecord) => {
+    setBusy(job.id, true);
+    try {
+      await deleteJob(job);
+      setJobs(prev => prev.filter(({ id }) => id !== job.id));
+      toast({
+        title: "Job Deleted",
+        description: `${job.original_filename} and its output have been removed.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Delete Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(job.id, false);
+    }
+  };
+
+  return {
+    jobs,
+    isLoading,
+    busyIds,
+    refresh,
+    downloadJob,
+    removeJob,
+  };
+}
@@ -1,21 +1,50 @@
 
 import { useState } from "react";
-import { ProcessingParameters } from "@/types/print";
+import { ProcessingParameters, ValidationFix } from "@/types/print";
+import { DEFAULT_PROCESSING_PARAMETERS } from "@/services/presets";
+
+interface AppliedFix {
+  label: string;
+  /** Values the fix replaced, restored on undo */
+  previous: Partial<ProcessingParameters>;
+}
 
 export function useParameters() {
-  const [parameters, setParameters] = useState<ProcessingParameters>({
-    finalDimensions: { width: 210, height: 297 }, // A4 default
-    bleedMargin: 3,
-    dpi: 300,
-    cutLineType: "rectangle"
-  });
+  const [parameters, setParameters] = useState<ProcessingParameters>(DEFAULT_PROCESSING_PARAMETERS);
   const [bleedPrompt, setBleedPrompt] = useState<string>("");
   const [useAIOutpaint, setUseAIOutpaint] = useState<boolean>(false);
+  // Pages of a multi-page PDF to process, e.g. "1-3, 5"; empty means all pages
+  const [pageRange, setPageRange] = useState<string>("");
+  // Fixes applied from validation, most recent last
+  const [fixHistory, setFixHistory] = useState<AppliedFix[]>([]);
 
   const handleParameterChange = (newParams: Partial<ProcessingParameters>) => {
     setParameters(prev => ({ ...prev, ...newParams }));
   };
 
+  // Returns the updated parameters so the caller can re-validate with them
+  const applyFix = (fix: ValidationFix): ProcessingParameters => {
+    const previous: Partial<ProcessingParameters> = Object.fromEntries(
+      Object.keys(fix.parameters).map(key => [key, parameters[key as keyof ProcessingParameters]])
+    );
+    const next = { ...parameters, ...fix.parameters };
+    setParameters(next);
+    setFixHistory(prev => [...prev, { label: fix.label, previous }]);
+    return next;
+  };
+
+  // Reverts the most recent fix; null when there is nothing to undo
+  const undoFix = (): ProcessingParameters | null => {
+    const last = fixHistory[fixHistory.length - 1];
+    if (!last) return null;
+    const next = { ...parameters, ...last.previous };
+    setParameters(next);
+    setFixHistory(prev => prev.slice(0, -1));
+    return next;
+  };
+
+  const clearFixHistory = () => setFixHistory([]);
+
   return {
     parameters,
     setParameters,
@@ -23,6 +52,12 @@ export function useParameters() {
     setBleedPrompt,
     useAIOutpaint,
     setUseAIOutpaint,
+    pageRange,
+    setPageRange,
     handleParameterChange,
+    applyFix,
+    undoFix,
+    clearFixHistory,
+    undoLabel: fixHistory[fixHistory.length - 1]?.label,
   };
 }
@@ -0,0 +1,120 @@
+import { useEffect, useState } from "react";
+import { PresetTemplate } from "@/types/print";
+import {
+  BUILT_IN_PRESETS,
+  PresetDraft,
+  deleteUserPreset,
+  exportPresetFile,
+  listUserPresets,
+  parsePresetFile,
+  saveUserPresets,
+} from "@/services/presets";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "./useAuth";
+
+let nextLocalId = 0;
+
+export function usePresets() {
+  const { user } = useAuth();
+  // Saved presets when signed in; otherwise the ones created or imported this session
+  const [userPresets, setUserPresets] = useState<PresetTemplate[]>([]);
+  const { toast } = useToast();
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) {
+      setUserPresets([]);
+      return;
+    }
+    listUserPresets()
+      .then(setUserPresets)
+      .catch((error) => {
+        console.error('[usePresets] Could not load presets:', error);
+        toast({
+          title: "Presets Unavailable",
+          description: error instanceof Error ? error.message : String(error),
+          variant: "destructive",
+        });
+      });
+  }, [userId, toast]);
+
+  const addPresets = async (drafts: PresetDraft[]): Promise<PresetTemplate[]> => {
+    const added = userId
+      ? await saveUserPresets(userId, drafts)
+      : drafts.map((draft) => ({ ...draft, id: `local:${nextLocalId++}` }));
+    setUserPresets(prev => [...prev, ...added].sort((a, b) => a.name.localeCompare(b.name)));
+    return added;
+  };
+
+  const savePreset = async (draft: PresetDraft) => {
+    try {
+      await addPresets([draft]);
+      toast({
+        title: "Preset Saved",
+        description: userId
+          ? `"${draft.name}" is in your preset library.`
+          : `"${draft.name}" is kept for this session. Sign in to keep it.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could Not Save Preset",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const importPresets = async (file: File) => {
+    try {
+      const added = await addPresets(await parsePresetFile(file));
+      toast({
+        title: "Presets Imported",
+        description: `Added ${added.length} preset${added.length === 1 ? "" : "s"} from ${file.name}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Downloads the given presets, or all of the user's, as a JSON file others can import
+  const exportPresets = (presets: PresetTemplate[] = userPresets) => {
+    if (presets.length === 0) return;
+    const url = URL.createObjectURL(exportPresetFile(presets));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = presets.length === 1
+      ? `${presets[0].name.replace(/[^\w-]+/g, "_")}.preset.json`
+      : `print-presets-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const removePreset = async (preset: PresetTemplate) => {
+    try {
+      if (!preset.id.startsWith("local:")) {
+        await deleteUserPreset(preset.id);
+      }
+      setUserPresets(prev => prev.filter(({ id }) => id !== preset.id));
+    } catch (error) {
+      toast({
+        title: "Could Not Delete Preset",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return {
+    presets: [...userPresets, ...BUILT_IN_PRESETS],
+    userPresets,
+    isSignedIn: !!userId,
+    savePreset,
+    importPresets,
+    exportPresets,
+    removePreset,
+  };
+}
@@ -1,9 +1,18 @@
 
 import { useState, useRef } from "react";
 import { UploadedFile, ProcessingParameters, ProcessingState } from "@/types/print";
-import { ImageProcessor, createPDFFromProcessedImage } from "@/services/imageProcessing";
+import {
+  CutPath,
+  PDFXConformanceError,
+  TiledProcessor,
+  WorkerImageProcessor,
+  createOutputPDF,
+  needsTiledProcessing,
+  parsePageRange,
+} from "@/services/imageProcessing";
+import { saveJob } from "@/services/jobHistory";
 import { useToast } from "@/components/ui/use-toast";
-import { ProcessingResult } from "@/services/image/types";
+import { ProcessingResult, PageProgress } from "@/services/image/types";
 
 export function useProcessing() {
   const [processingState, setProcessingState] = useState<ProcessingState>("idle");
@@ -12,8 +21,12 @@ export function useProcessing() {
   const [processingError, setProcessingError] = useState<string | null>(null);
   const [processingProgress, setProcessingProgress] = useState<number>(0);
   const [outputUrl, setOutputUrl] = useState<string | null>(null);
+  const [pageProgress, setPageProgress] = useState<PageProgress | null>(null);
+  const [processedPageCount, setProcessedPageCount] = useState<number>(0);
+  // Traced cut path of the first page, for the preview overlay
+  const [processedCutPath, setProcessedCutPath] = useState<CutPath | null>(null);
   const { toast } = useToast();
-  const imageProcessorRef = useRef<ImageProcessor | null>(null);
+  const imageProcessorRef = useRef<WorkerImageProcessor | TiledProcessor | null>(null);
 
   const handleCancelProcessing = () => {
     console.log('[useProcessing] Cancel requested');
@@ -24,6 +37,7 @@ export function useProcessing() {
     setProcessingState("validated");
     setProcessingStep(null);
     setProcessingProgress(0);
+    setPageProgress(null);
     toast({
       title: "Processing Cancelled",
       description: "File processing has been cancelled.",
@@ -34,7 +48,8 @@ export function useProcessing() {
     uploadedFile: UploadedFile | null,
     parameters: ProcessingParameters,
     bleedPrompt: string,
-    useAIOutpaint: boolean = false
+    useAIOutpaint: boolean = false,
+    pageRange: string = ""
   ) => {
     console.log('[useProcessing] Starting processing with parameters:', parameters);
     
@@ -49,6 +64,7 @@ export function useProcessing() {
     setProcessingStep("Initializing processor");
     setProcessingError(null);
     setProcessingProgress(0);
+    setPageProgress(null);
     console.log('=== PROCESSING START ===');
     console.log('[useProcessing] Starting processing with parameters:', extendedParameters);
 
@@ -58,44 +74,86 @@ export function useProcessing() {
       setProcessingStep("Initializing image processor");
       setProcessingProgress(5);
       
-      const processor = new ImageProcessor((step: string, progress?: number) => {
+      // Work out which pages to process before doing anything expensive
+      const pageNumbers = uploadedFile.type === "pdf"
+        ? parsePageRange(pageRange, uploadedFile.pages ?? 1)
+        : [1];
+
+      // Progress of the processor, mapped onto its share of the bar after the first 10%
+      const reportProgress = (share: number) => (step: string, progress?: number, page?: PageProgress) => {
         console.log(`[useProcessing] Progress callback: ${step}, progress: ${progress}`);
         setProcessingStep(step);
         if (progress !== undefined) {
-          setProcessingProgress(progress);
+          setProcessingProgress(10 + progress * share);
         }
-      });
-      
-      imageProcessorRef.current = processor;
-      console.log('[useProcessing] Processor initialized successfully');
+        if (page) {
+          setPageProgress(page);
+        }
+      };
+      const exportOptions = { imageEncoding: 'flate' as const, title: uploadedFile.file.name };
+      let pdfBlob: Blob;
+      let pageCount: number;
 
-      // Step 2: Process file
-      console.log('[useProcessing] Step 2: Starting file processing');
-      setProcessingStep("Processing image");
-      setProcessingProgress(10);
-      
-      const result = await Promise.race([
-        processor.processFile(uploadedFile, extendedParameters),
-        new Promise<never>((_, reject) => 
-          setTimeout(() => reject(new Error('Processing timeout after 60 seconds')), 60000)
-        )
-      ]) as ProcessingResult;
-      
-      console.log('[useProcessing] File processing completed:', result);
-      setProcessedImageUrl(result.processedImageUrl);
-      setProcessingProgress(70);
-
-      // Step 3: Create PDF for download
-      console.log('[useProcessing] Step 3: Creating PDF');
-      setProcessingStep("Creating PDF for download");
-      setProcessingProgress(80);
-      
-      const pdfBlob = await Promise.race([
-        createPDFFromProcessedImage(result.processedImageUrl, parameters),
-        new Promise<never>((_, reject) => 
-          setTimeout(() => reject(new Error('PDF creation timeout after 30 seconds')), 30000)
-        )
-      ]) as Blob;
+      if (needsTiledProcessing(parameters)) {
+        // Too large for one canvas: tiles are rendered and written to the PDF in a single pass
+        console.log('[useProcessing] Step 2: Processing in tiles');
+        const processor = new TiledProcessor(reportProgress(0.85));
+        imageProcessorRef.current = processor;
+        setProcessingStep("Processing in tiles");
+        setProcessingProgress(10);
+
+        const output = await processor.process(uploadedFile, extendedParameters, pageNumbers, exportOptions);
+        setProcessedImageUrl(output.previewUrl);
+        setProcessedPageCount(output.pageCount);
+        setProcessedCutPath(null);
+        setPageProgress(null);
+        pdfBlob = output.pdf;
+        pageCount = output.pageCount;
+      } else {
+        // Processing takes up to 70% of the bar, PDF creation the rest
+        // Runs in a Web Worker where supported, so the page stays responsive
+        const processor = new WorkerImageProcessor(reportProgress(0.6));
+        imageProcessorRef.current = processor;
+        console.log('[useProcessing] Processor initialized successfully');
+
+        // Step 2: Process file
+        console.log('[useProcessing] Step 2: Starting file processing');
+        setProcessingStep("Processing image");
+        setProcessingProgress(10);
+
+        // Allow 60 seconds per page
+        const processingTimeout = 60000 * pageNumbers.length;
+        const results = await Promise.race([
+          processor.processPages(uploadedFile, extendedParameters, pageNumbers),
+          new Promise<never>((_, reject) => 
+            setTimeout(() => reject(new Error(`Processing timeout after ${processingTimeout / 1000} seconds`)), processingTimeout)
+          )
+        ]) as ProcessingResult[];
+
+        console.log('[useProcessing] File processing completed:', results);
+        setProcessedImageUrl(results[0].processedImageUrl);
+        setProcessedPageCount(results.length);
+        setProcessedCutPath(results[0].cutPath ?? null);
+        setPageProgress(null);
+        setProcessingProgress(70);
+
+        // Step 3: Create PDF for download
+        console.log('[useProcessing] Step 3: Creating PDF');
+        setProcessingStep("Creating PDF for download");
+        setProcessingProgress(80);
+
+        const pdfPromise = createOutputPDF(uploadedFile, results, parameters, exportOptions);
+
+        // Allow 30 seconds per page
+        const exportTimeout = 30000 * results.length;
+        pdfBlob = await Promise.race([
+          pdfPromise,
+          new Promise<never>((_, reject) => 
+            setTimeout(() => reject(new Error(`PDF creation timeout after ${exportTimeout / 1000} seconds`)), exportTimeout)
+          )
+        ]) as Blob;
+        pageCount = results.length;
+      }
       
       console.log('[useProcessing] PDF created successfully, size:', pdfBlob.size);
 
@@ -110,7 +168,7 @@ export function useProcessing() {
       setProcessingStep("Finalizing");
       setProcessingProgress(100);
       
-      processor.destroy();
+      imageProcessorRef.current?.destroy();
       imageProcessorRef.current = null;
 
       setProcessingState("completed");
@@ -119,12 +177,36 @@ export function useProcessing() {
 
       toast({
         title: "Processing Complete!",
-        description: "Your file has been processed and is ready for download.",
+        description: pageCount > 1
+          ? `All ${pageCount} pages have been processed and are ready for download.`
+          : "Your file has been processed and is ready for download.",
       });
 
+      // Keep a copy in the user's history; the result is ready either way
+      try {
+        await saveJob({
+          source: uploadedFile,
+          output: pdfBlob,
+          outputFilename: `${uploadedFile.file.name.replace(/\.[^.]+$/, "")}_print.pdf`,
+          pageCount,
+          parameters,
+          bleedPrompt,
+          useAIOutpaint,
+          pageRange,
+        });
+      } catch (error) {
+        console.error('[useProcessing] Could not save job to history:', error);
+        toast({
+          title: "Not Saved to History",
+          description: error instanceof Error ? error.message : String(error),
+          variant: "destructive",
+        });
+      }
+
     } catch (error: any) {
       console.error('[useProcessing] Processing error:', error);
       setProcessingError(error?.message || String(error));
+      setPageProgress(null);
       
       if (error?.message?.includes('cancelled')) {
         console.log('[useProcessing] Processing was cancelled');
@@ -134,7 +216,10 @@ export function useProcessing() {
       let errorTitle = "Processing Failed";
       let errorDescription = error?.message || String(error);
       
-      if (error?.message?.includes('timeout')) {
+      if (error instanceof PDFXConformanceError) {
+        errorTitle = `Not ${error.standard} Conformant`;
+        errorDescription = error.violations.join("; ");
+      } else if (error?.message?.includes('timeout')) {
         errorTitle = "Processing Timeout";
         errorDescription = "Processing took too long and was cancelled. Please try again with a smaller file or different settings.";
       } else if (error?.message?.includes('PDF')) {
@@ -174,6 +259,9 @@ export function useProcessing() {
     setProcessingProgress,
     outputUrl,
     setOutputUrl,
+    pageProgress,
+    processedPageCount,
+    processedCutPath,
     handleProcessing,
     handleCancelProcessing,
   };
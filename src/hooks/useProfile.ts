@@ -0,0 +1,75 @@
+import { useEffect, useState } from "react";
+import { Profile, getProfile, updateEmail, updatePassword, updateProfile } from "@/services/auth";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "./useAuth";
+
+export function useProfile() {
+  const { user } = useAuth();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+    getProfile(userId)
+      .then(setProfile)
+      .catch((error) => {
+        console.error('[useProfile] Could not load profile:', error);
+        toast({
+          title: "Profile Unavailable",
+          description: error instanceof Error ? error.message : String(error),
+          variant: "destructive",
+        });
+      });
+  }, [userId, toast]);
+
+  // Runs one save at a time and reports the outcome; resolves to whether it succeeded
+  const save = async (action: () => Promise<void>, success: { title: string; description: string }) => {
+    setIsSaving(true);
+    try {
+      await action();
+      toast(success);
+      return true;
+    } catch (error) {
+      toast({
+        title: "Could Not Save",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const saveDisplayName = (displayName: string) =>
+    save(
+      async () => {
+        if (!userId) return;
+        setProfile(await updateProfile(userId, { display_name: displayName.trim() || null }));
+      },
+      { title: "Profile Updated", description: "Your display name has been saved." }
+    );
+
+  const changeEmail = (email: string) =>
+    save(() => updateEmail(email), {
+      title: "Confirm Your New Email",
+      description: `Follow the link sent to ${email} to finish the change.`,
+    });
+
+  const changePassword = (password: string) =>
+    save(() => updatePassword(password), {
+      title: "Password Changed",
+      description: "Use your new password the next time you sign in.",
+    });
+
+  return {
+    user,
+    profile,
+    isSaving,
+    saveDisplayName,
+    changeEmail,
+    changePassword,
+  };
+}
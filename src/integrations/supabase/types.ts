@@ -27,7 +27,11 @@ export type Database = {
           id: string
           original_filename: string
           output_filename: string
+          page_count: number | null
+          page_range: string | null
+          parameters: Json | null
           processing_status: string
+          source_path: string | null
           updated_at: string | null
           user_id: string | null
           width_mm: number
@@ -44,7 +48,11 @@ export type Database = {
           id?: string
           original_filename: string
           output_filename: string
+          page_count?: number | null
+          page_range?: string | null
+          parameters?: Json | null
           processing_status: string
+          source_path?: string | null
           updated_at?: string | null
           user_id?: string | null
           width_mm: number
@@ -61,7 +69,11 @@ export type Database = {
           id?: string
           original_filename?: string
           output_filename?: string
+          page_count?: number | null
+          page_range?: string | null
+          parameters?: Json | null
           processing_status?: string
+          source_path?: string | null
           updated_at?: string | null
           user_id?: string | null
           width_mm?: number
@@ -79,24 +91,68 @@ export type Database = {
       profiles: {
         Row: {
           created_at: string
+          display_name: string | null
           email: string | null
           id: string
           updated_at: string
         }
         Insert: {
           created_at?: string
+          display_name?: string | null
           email?: string | null
           id: string
           updated_at?: string
         }
         Update: {
           created_at?: string
+          display_name?: string | null
           email?: string | null
           id?: string
           updated_at?: string
         }
         Relationships: []
       }
+      user_presets: {
+        Row: {
+          category: string
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          parameters: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          category?: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          parameters: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          parameters?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_presets_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
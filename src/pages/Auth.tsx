@@ -0,0 +1,173 @@
+import { FormEvent, useState } from "react";
+import { Navigate, useLocation, useNavigate } from "react-router-dom";
+import { Loader2, Mail } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { MIN_PASSWORD_LENGTH, sendMagicLink, signInWithPassword, signUp } from "@/services/auth";
+
+/**
+ * Auth: email/password sign-in and sign-up, and magic-link sign-in. Returns
+ * to the page that sent the user here, or the dashboard.
+ */
+const Auth = () => {
+  const { user } = useAuth();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [magicLinkSentTo, setMagicLinkSentTo] = useState<string | null>(null);
+
+  const returnPath = (location.state as { from?: string } | null)?.from ?? "/dashboard";
+
+  if (user) {
+    return <Navigate to={returnPath} replace />;
+  }
+
+  const submit = async (action: () => Promise<void>) => {
+    setIsSubmitting(true);
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        title: "Authentication Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSignIn = (e: FormEvent) => {
+    e.preventDefault();
+    submit(async () => {
+      await signInWithPassword(email, password);
+      navigate(returnPath, { replace: true });
+    });
+  };
+
+  const handleSignUp = () => {
+    submit(async () => {
+      const signedIn = await signUp(email, password, returnPath);
+      if (signedIn) {
+        navigate(returnPath, { replace: true });
+      } else {
+        toast({
+          title: "Confirm Your Email",
+          description: `We sent a confirmation link to ${email}.`,
+        });
+      }
+    });
+  };
+
+  const handleMagicLink = (e: FormEvent) => {
+    e.preventDefault();
+    submit(async () => {
+      await sendMagicLink(email, returnPath);
+      setMagicLinkSentTo(email);
+    });
+  };
+
+  const emailField = (
+    <div className="space-y-2">
+      <Label htmlFor="email">Email</Label>
+      <Input
+        id="email"
+        type="email"
+        autoComplete="email"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        required
+      />
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-6">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <img
+            src="/lovable-uploads/bbb264b1-c234-4740-a029-203d800cf5a8.png"
+            alt="Daisler Print House Logo"
+            className="h-12 w-auto mx-auto mb-2"
+          />
+          <CardTitle>Sign in to Daisler Print Optimizer</CardTitle>
+          <CardDescription>Your processed files are kept in your history</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="password">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="password">Password</TabsTrigger>
+              <TabsTrigger value="magic-link">Magic Link</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="password">
+              <form onSubmit={handleSignIn} className="space-y-4 pt-2">
+                {emailField}
+                <div className="space-y-2">
+                  <Label htmlFor="password">Password</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    autoComplete="current-password"
+                    minLength={MIN_PASSWORD_LENGTH}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button type="submit" className="flex-1" disabled={isSubmitting}>
+                    {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Sign In
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="flex-1"
+                    onClick={handleSignUp}
+                    disabled={isSubmitting || !email || password.length < MIN_PASSWORD_LENGTH}
+                  >
+                    Create Account
+                  </Button>
+                </div>
+              </form>
+            </TabsContent>
+
+            <TabsContent value="magic-link">
+              {magicLinkSentTo ? (
+                <div className="text-center py-4 space-y-2">
+                  <Mail className="h-10 w-10 text-blue-600 mx-auto" />
+                  <p className="font-medium text-gray-900">Check your inbox</p>
+                  <p className="text-sm text-gray-500">
+                    We sent a sign-in link to {magicLinkSentTo}. Open it on this device to continue.
+                  </p>
+                  <Button variant="ghost" size="sm" onClick={() => setMagicLinkSentTo(null)}>
+                    Use another email
+                  </Button>
+                </div>
+              ) : (
+                <form onSubmit={handleMagicLink} className="space-y-4 pt-2">
+                  {emailField}
+                  <Button type="submit" className="w-full" disabled={isSubmitting}>
+                    {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Email Me a Sign-in Link
+                  </Button>
+                </form>
+              )}
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Auth;
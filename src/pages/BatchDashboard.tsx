@@ -0,0 +1,59 @@
+import { Sidebar } from "@/components/Sidebar";
+import { Header } from "@/components/Header";
+import { BatchQueuePanel } from "@/components/BatchQueuePanel";
+import { useParameters } from "@/hooks/useParameters";
+import { useBatchQueue } from "@/hooks/useBatchQueue";
+
+/**
+ * BatchDashboard: processes a whole order of files with one parameter set.
+ * Queue state lives in the useBatchQueue hook.
+ */
+const BatchDashboard = () => {
+  const { parameters, handleParameterChange } = useParameters();
+  const {
+    items,
+    isRunning,
+    concurrency,
+    setConcurrency,
+    addFiles,
+    removeItem,
+    clearQueue,
+    setItemOverrides,
+    runQueue,
+    cancelQueue,
+    downloadItem,
+    downloadZip,
+  } = useBatchQueue();
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex w-full">
+      <Sidebar
+        parameters={parameters}
+        onParameterChange={handleParameterChange}
+        processingState={isRunning ? "processing" : "idle"}
+      />
+      <main className="flex-1 flex flex-col">
+        <Header />
+        <div className="flex-1 p-6 max-w-4xl w-full mx-auto">
+          <BatchQueuePanel
+            items={items}
+            parameters={parameters}
+            isRunning={isRunning}
+            concurrency={concurrency}
+            onConcurrencyChange={setConcurrency}
+            onAddFiles={addFiles}
+            onRemoveItem={removeItem}
+            onOverridesChange={setItemOverrides}
+            onStart={() => runQueue(parameters)}
+            onCancel={cancelQueue}
+            onClear={clearQueue}
+            onDownloadItem={downloadItem}
+            onDownloadZip={downloadZip}
+          />
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default BatchDashboard;
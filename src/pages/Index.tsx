@@ -30,6 +30,16 @@ const Index = () => (
             <ArrowRight className="ml-2 h-4 w-4" />
           </Button>
         </Link>
+        <Link to="/workflow">
+          <Button size="lg" variant="outline" className="mr-4">
+            Flux avansat
+          </Button>
+        </Link>
+        <Link to="/batch">
+          <Button size="lg" variant="outline">
+            Procesare în lot
+          </Button>
+        </Link>
       </div>
 
     </div>
@@ -0,0 +1,32 @@
+import { useNavigate } from "react-router-dom";
+import { Header } from "@/components/Header";
+import { JobHistoryPanel } from "@/components/JobHistoryPanel";
+import { useJobHistory } from "@/hooks/useJobHistory";
+
+/**
+ * JobHistory: the signed-in user's processed files. Re-running a job opens
+ * the workflow, which loads the original and its parameters.
+ */
+const JobHistory = () => {
+  const navigate = useNavigate();
+  const { jobs, isLoading, busyIds, refresh, downloadJob, removeJob } = useJobHistory();
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col w-full">
+      <Header />
+      <div className="flex-1 p-6 max-w-4xl w-full mx-auto">
+        <JobHistoryPanel
+          jobs={jobs}
+          isLoading={isLoading}
+          busyIds={busyIds}
+          onRefresh={refresh}
+          onDownload={downloadJob}
+          onRerun={(job) => navigate(`/workflow?job=${job.id}`)}
+          onDelete={removeJob}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default JobHistory;
@@ -6,6 +6,7 @@ import { ProcessingPanel } from "@/components/ProcessingPanel";
 import { ValidationPanel } from "@/components/ValidationPanel";
 import { OutputPanel } from "@/components/OutputPanel";
 import { ApiKeySettings } from "@/components/ApiKeySettings";
+import { PlacementPreview } from "@/components/PlacementPreview";
 import { useDashboardLogic } from "@/hooks/useDashboardLogic";
 
 /**
@@ -18,6 +19,8 @@ const MainDashboard = () => {
     processingState,
     parameters,
     validationResult,
+    preflightProfile,
+    setPreflightProfile,
     outputUrl,
     processedImageUrl,
     processingStep,
@@ -26,9 +29,17 @@ const MainDashboard = () => {
     bleedPrompt,
     useAIOutpaint,
     setUseAIOutpaint,
+    pageRange,
+    setPageRange,
+    pageProgress,
+    processedPageCount,
+    processedCutPath,
     handleFileUpload,
     handleParameterChange,
     handleValidation,
+    handleApplyFix,
+    handleUndoFix,
+    undoLabel,
     handleProcessing,
     handleCancelProcessing,
     setBleedPrompt,
@@ -53,6 +64,16 @@ const MainDashboard = () => {
             
             <ApiKeySettings />
             
+            {uploadedFile && (
+              <PlacementPreview
+                file={uploadedFile}
+                parameters={parameters}
+                onParameterChange={handleParameterChange}
+                disabled={processingState === "processing" || processingState === "validating"}
+                issues={validationResult?.warnings}
+              />
+            )}
+
             {uploadedFile && (
               <ProcessingPanel
                 file={uploadedFile}
@@ -66,12 +87,22 @@ const MainDashboard = () => {
                 useAIOutpaint={useAIOutpaint}
                 onUseAIOutpaintChange={setUseAIOutpaint}
                 processingProgress={processingProgress}
+                onParameterChange={handleParameterChange}
+                pageRange={pageRange}
+                onPageRangeChange={setPageRange}
+                pageProgress={pageProgress}
+                preflightProfile={preflightProfile}
+                onPreflightProfileChange={setPreflightProfile}
               />
             )}
             {validationResult && (
               <ValidationPanel
                 validationResult={validationResult}
                 onApprove={handleProcessing}
+                onApplyFix={handleApplyFix}
+                onUndo={handleUndoFix}
+                undoLabel={undoLabel}
+                disabled={processingState === "validating" || processingState === "processing"}
               />
             )}
           </div>
@@ -83,6 +114,8 @@ const MainDashboard = () => {
               processedImageUrl={processedImageUrl}
               processingStep={processingStep}
               processingError={processingError}
+              pageCount={processedPageCount}
+              cutPath={processedCutPath}
             />
           </div>
         </div>
@@ -0,0 +1,161 @@
+import { FormEvent, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { LogOut } from "lucide-react";
+import { Header } from "@/components/Header";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { useProfile } from "@/hooks/useProfile";
+import { MIN_PASSWORD_LENGTH, signOut } from "@/services/auth";
+
+/**
+ * Profile: display name, email and password of the signed-in user.
+ */
+const Profile = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user, profile, isSaving, saveDisplayName, changeEmail, changePassword } = useProfile();
+  const [displayName, setDisplayName] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  useEffect(() => {
+    setDisplayName(profile?.display_name ?? "");
+  }, [profile]);
+
+  const handleDisplayName = (e: FormEvent) => {
+    e.preventDefault();
+    saveDisplayName(displayName);
+  };
+
+  const handleEmail = async (e: FormEvent) => {
+    e.preventDefault();
+    if (await changeEmail(email)) {
+      setEmail("");
+    }
+  };
+
+  const handlePassword = async (e: FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      toast({
+        title: "Passwords Do Not Match",
+        description: "Enter the same new password in both fields.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (await changePassword(password)) {
+      setPassword("");
+      setConfirmPassword("");
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+      navigate("/", { replace: true });
+    } catch (error) {
+      toast({
+        title: "Sign Out Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col w-full">
+      <Header />
+      <div className="flex-1 p-6 max-w-2xl w-full mx-auto space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Profile</CardTitle>
+            <CardDescription>Signed in as {user?.email}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleDisplayName} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="displayName">Display name</Label>
+                <Input
+                  id="displayName"
+                  value={displayName}
+                  onChange={(e) => setDisplayName(e.target.value)}
+                  disabled={!profile}
+                />
+              </div>
+              <Button type="submit" disabled={isSaving || !profile}>Save</Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Email</CardTitle>
+            <CardDescription>The change takes effect once you confirm it from the new address</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleEmail} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="newEmail">New email</Label>
+                <Input
+                  id="newEmail"
+                  type="email"
+                  autoComplete="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+              <Button type="submit" disabled={isSaving}>Change Email</Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Password</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handlePassword} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="newPassword">New password</Label>
+                <Input
+                  id="newPassword"
+                  type="password"
+                  autoComplete="new-password"
+                  minLength={MIN_PASSWORD_LENGTH}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm new password</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                />
+              </div>
+              <Button type="submit" disabled={isSaving}>Change Password</Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Button variant="outline" onClick={handleSignOut}>
+          <LogOut className="h-4 w-4 mr-2" />
+          Sign Out
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default Profile;
@@ -7,6 +7,21 @@ import { useToast } from '@/hooks/use-toast';
 import { Upload, FileImage, Download } from 'lucide-react';
 import { useDropzone } from 'react-dropzone';
 import { processImageToPDF, ProcessingParams } from '@/services/simplePdfProcessor';
+import { saveJob, toUploadedFile } from '@/services/jobHistory';
+import { DEFAULT_PROCESSING_PARAMETERS } from '@/services/presets/defaults';
+import { ProcessingParameters } from '@/types/print';
+
+// The closest main-processor settings to the simple export: 300 DPI without
+// printer's marks. Re-running the job from the history generates the bleed
+// that the simple export leaves white.
+const toProcessingParameters = (params: ProcessingParams): ProcessingParameters => ({
+  ...DEFAULT_PROCESSING_PARAMETERS,
+  finalDimensions: { width: params.width, height: params.height },
+  bleedMargin: params.bleed,
+  safeMargin: params.safeMargin,
+  dpi: 300,
+  printerMarks: { ...DEFAULT_PROCESSING_PARAMETERS.printerMarks!, enabled: false },
+});
 
 export default function SimpleDashboard() {
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
@@ -73,12 +88,13 @@ export default function SimpleDashboard() {
     try {
       // Process the image
       const processedBlob = await processImageToPDF(uploadedFile, params);
+      const outputFilename = `processed_${uploadedFile.name.replace(/\.[^/.]+$/, '')}.pdf`;
       
       // Download the PDF
       const url = URL.createObjectURL(processedBlob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `processed_${uploadedFile.name.replace(/\.[^/.]+$/, '')}.pdf`;
+      a.download = outputFilename;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -88,6 +104,28 @@ export default function SimpleDashboard() {
         title: "Export successful",
         description: "Your PDF has been generated and downloaded"
       });
+
+      // Keep a copy in the user's history; every page is exported
+      try {
+        const source = await toUploadedFile(uploadedFile);
+        await saveJob({
+          source,
+          output: processedBlob,
+          outputFilename,
+          pageCount: source.type === 'pdf' ? source.pages ?? 1 : 1,
+          parameters: toProcessingParameters(params),
+          bleedPrompt: '',
+          useAIOutpaint: false,
+          pageRange: '',
+        });
+      } catch (error) {
+        console.error('Could not save job to history:', error);
+        toast({
+          title: "Not Saved to History",
+          description: error instanceof Error ? error.message : String(error),
+          variant: "destructive"
+        });
+      }
     } catch (error) {
       console.error('Export error:', error);
       toast({
@@ -0,0 +1,90 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Profile = Tables<'profiles'>;
+
+// Shorter passwords are rejected by Supabase's default policy
+export const MIN_PASSWORD_LENGTH = 6;
+
+// Magic links and confirmation emails bring the user back to this path on the current origin
+const redirectTo = (path: string) => `${window.location.origin}${path}`;
+
+export const signInWithPassword = async (email: string, password: string): Promise<void> => {
+  const { error } = await supabase.auth.signInWithPassword({ email, password });
+  if (error) {
+    throw new Error(error.message);
+  }
+  console.log('[Auth] Signed in with password');
+};
+
+/**
+ * Creates an account. Returns true when the user is signed in straight away,
+ * false when the email has to be confirmed first.
+ */
+export const signUp = async (email: string, password: string, returnPath: string): Promise<boolean> => {
+  const { data, error } = await supabase.auth.signUp({
+    email,
+    password,
+    options: { emailRedirectTo: redirectTo(returnPath) },
+  });
+  if (error) {
+    throw new Error(error.message);
+  }
+  console.log('[Auth] Signed up', data.session ? 'and signed in' : 'pending email confirmation');
+  return !!data.session;
+};
+
+/** Emails a one-time sign-in link that returns to `returnPath` */
+export const sendMagicLink = async (email: string, returnPath: string): Promise<void> => {
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: redirectTo(returnPath) },
+  });
+  if (error) {
+    throw new Error(error.message);
+  }
+  console.log('[Auth] Magic link sent');
+};
+
+export const signOut = async (): Promise<void> => {
+  const { error } = await supabase.auth.signOut();
+  if (error) {
+    throw new Error(error.message);
+  }
+  console.log('[Auth] Signed out');
+};
+
+/** The profile row the handle_new_user trigger created for the user */
+export const getProfile = async (userId: string): Promise<Profile> => {
+  const { data, error } = await supabase.from('profiles').select('*').eq('id', userId).single();
+  if (error) {
+    throw new Error(`Could not load profile: ${error.message}`);
+  }
+  return data;
+};
+
+export const updateProfile = async (userId: string, update: Pick<Profile, 'display_name'>): Promise<Profile> => {
+  const { data, error } = await supabase.from('profiles').update(update).eq('id', userId).select().single();
+  if (error) {
+    throw new Error(`Could not update profile: ${error.message}`);
+  }
+  return data;
+};
+
+/**
+ * Starts an email change; it takes effect once the link sent to the new
+ * address is followed, and the profile follows through a trigger.
+ */
+export const updateEmail = async (email: string): Promise<void> => {
+  const { error } = await supabase.auth.updateUser({ email }, { emailRedirectTo: redirectTo('/profile') });
+  if (error) {
+    throw new Error(error.message);
+  }
+};
+
+export const updatePassword = async (password: string): Promise<void> => {
+  const { error } = await supabase.auth.updateUser({ password });
+  if (error) {
+    throw new Error(error.message);
+  }
+};
@@ -0,0 +1,126 @@
+import { ProcessingParameters } from "@/types/print";
+import { PixelBuffer } from "../image/types";
+import { CutPath, cutPathFromParameters, isRectangularCut } from "../image/CutPath";
+import { featureTransform } from "../image/DistanceTransform";
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Bézier segments are split into straight pieces about this many pixels long
+const FLATTEN_STEP = 2;
+
+/**
+ * The cut path as closed polygons in canvas pixels: `scale` pixels per mm,
+ * shifted by `offset` pixels (the bleed).
+ */
+const flattenPath = (path: CutPath, scale: number, offset: number): Point[][] => {
+  const polygons: Point[][] = [];
+  const toPixels = (x: number, y: number): Point => ({ x: x * scale + offset, y: y * scale + offset });
+  let current: Point[] = [];
+
+  for (const command of path) {
+    switch (command.op) {
+      case 'M':
+        if (current.length > 2) polygons.push(current);
+        current = [toPixels(command.x, command.y)];
+        break;
+      case 'L':
+        current.push(toPixels(command.x, command.y));
+        break;
+      case 'C': {
+        const start = current[current.length - 1];
+        if (!start) break;
+        const c1 = toPixels(command.x1, command.y1);
+        const c2 = toPixels(command.x2, command.y2);
+        const end = toPixels(command.x, command.y);
+        // The control polygon is never shorter than the curve
+        const length = Math.hypot(c1.x - start.x, c1.y - start.y) +
+          Math.hypot(c2.x - c1.x, c2.y - c1.y) +
+          Math.hypot(end.x - c2.x, end.y - c2.y);
+        const steps = Math.max(4, Math.ceil(length / FLATTEN_STEP));
+        for (let i = 1; i <= steps; i++) {
+          const t = i / steps;
+          const u = 1 - t;
+          current.push({
+            x: u * u * u * start.x + 3 * u * u * t * c1.x + 3 * u * t * t * c2.x + t * t * t * end.x,
+            y: u * u * u * start.y + 3 * u * u * t * c1.y + 3 * u * t * t * c2.y + t * t * t * end.y,
+          });
+        }
+        break;
+      }
+      case 'Z':
+        if (current.length > 2) polygons.push(current);
+        // Like canvas paths, drawing after a close continues from the subpath's start
+        current = current.length > 0 ? [current[0]] : [];
+        break;
+    }
+  }
+  if (current.length > 2) polygons.push(current);
+  return polygons;
+};
+
+/**
+ * Pixels whose centre lies inside the polygons, with the nonzero winding
+ * rule that canvas fill() uses.
+ */
+const fillPolygons = (polygons: Point[][], width: number, height: number): Uint8Array => {
+  const mask = new Uint8Array(width * height);
+  const edges = polygons
+    .flatMap((points) => points.map((from, i) => ({ from, to: points[(i + 1) % points.length] })))
+    .filter(({ from, to }) => from.y !== to.y);
+
+  const crossings: { x: number; winding: number }[] = [];
+  for (let y = 0; y < height; y++) {
+    const centerY = y + 0.5;
+    crossings.length = 0;
+    for (const { from, to } of edges) {
+      if ((from.y <= centerY) === (to.y <= centerY)) continue;
+      crossings.push({
+        x: from.x + ((centerY - from.y) * (to.x - from.x)) / (to.y - from.y),
+        winding: to.y > from.y ? 1 : -1,
+      });
+    }
+    crossings.sort((a, b) => a.x - b.x);
+
+    let winding = 0;
+    for (let i = 0; i < crossings.length - 1; i++) {
+      winding += crossings[i].winding;
+      if (winding === 0) continue;
+      const start = Math.max(0, Math.ceil(crossings[i].x - 0.5));
+      const end = Math.min(width, Math.ceil(crossings[i + 1].x - 0.5));
+      if (end > start) mask.fill(1, y * width + start, y * width + end);
+    }
+  }
+  return mask;
+};
+
+/**
+ * applyDieLineBleed() for pixel buffers: everything further than the bleed
+ * margin from the die-line becomes paper white. The distance transform of
+ * the filled shape gives the same region as the browser's fill plus
+ * round-joined stroke, without anti-aliasing.
+ */
+export const applyDieLineBleedToPixels = (
+  raster: PixelBuffer,
+  parameters: ProcessingParameters,
+  bleedPixels: number
+): void => {
+  // Contour cuts grow their bleed from the artwork while tracing
+  if (isRectangularCut(parameters) || parameters.cutLineType === 'contour') return;
+
+  const { data, width, height } = raster;
+  const pxPerMm = parameters.dpi / 25.4;
+  const shape = fillPolygons(flattenPath(cutPathFromParameters(parameters), pxPerMm, bleedPixels), width, height);
+  const { distance } = featureTransform(shape, width, height);
+
+  // Distances run between pixel centres; the half pixel covers the edge pixels of the shape
+  const reach = parameters.bleedMargin * pxPerMm + 0.5;
+  const maxDistance = reach * reach;
+  for (let i = 0; i < distance.length; i++) {
+    if (distance[i] <= maxDistance) continue;
+    data.fill(255, i * 4, i * 4 + 4);
+  }
+  console.log(`[DieLineBleed] Bleed limited to ${parameters.bleedMargin}mm around the ${parameters.cutLineType} die-line`);
+};
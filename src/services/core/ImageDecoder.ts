@@ -0,0 +1,45 @@
+import { decode, Image } from "imagescript";
+import { PixelBuffer } from "../image/types";
+
+export const SUPPORTED_IMAGE_TYPES = ['image/png', 'image/jpeg'];
+
+/** PNG or JPEG bytes to RGBA pixels, without a canvas */
+export const decodeImage = async (bytes: Uint8Array): Promise<PixelBuffer> => {
+  const image = await decode(bytes);
+  if (!(image instanceof Image)) {
+    throw new Error('Animated images are not supported');
+  }
+  return { data: image.bitmap, width: image.width, height: image.height };
+};
+
+/**
+ * Pixel size from the PNG or JPEG header, without decoding. Null when the
+ * header cannot be read.
+ */
+export const readImageSize = (bytes: Uint8Array): { width: number; height: number } | null => {
+  const uint16 = (offset: number) => (bytes[offset] << 8) | bytes[offset + 1];
+
+  // PNG: the IHDR chunk follows the 8-byte signature
+  if (bytes.length >= 24 && bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  // JPEG: walk the segments up to the start-of-frame marker
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // SOF0–SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: uint16(offset + 7), height: uint16(offset + 5) };
+    }
+    offset += 2 + uint16(offset + 2);
+  }
+  return null;
+};
@@ -0,0 +1,20 @@
+import { ProcessingParameters } from "@/types/print";
+import { decodeImage } from "./ImageDecoder";
+import { createPrintPDF, renderPrintRaster, unsupportedReason } from "./PrintPipeline";
+
+/**
+ * PNG or JPEG bytes in, print-ready PDF out. `title` is usually the source
+ * file name; it goes in the document info (the core leaves out the slug line).
+ */
+export const processPrintFile = async (
+  bytes: Uint8Array,
+  parameters: ProcessingParameters,
+  title: string
+): Promise<Blob> => {
+  const reason = unsupportedReason(parameters);
+  if (reason) {
+    throw new Error(reason);
+  }
+  const source = await decodeImage(bytes);
+  return createPrintPDF(renderPrintRaster(source, parameters), parameters, title);
+};
@@ -0,0 +1,73 @@
+import { BleedMethod, ProcessingParameters } from "@/types/print";
+import { ContentPlacement } from "../image/types";
+import { coversCanvas, placeContent, visibleSourceRegion } from "../image/ContentFit";
+import { MIN_UPSCALE_FACTOR } from "../image/Upscaler";
+import { mmToPixels } from "../image/utils";
+
+/** Pixel size of the processed raster: the trim at the target DPI plus the bleed on every side */
+export interface PrintRasterSize {
+  finalWidth: number;
+  finalHeight: number;
+  bleedPixels: number;
+  width: number;
+  height: number;
+}
+
+export const printRasterSize = (parameters: ProcessingParameters): PrintRasterSize => {
+  const finalWidth = mmToPixels(parameters.finalDimensions.width, parameters.dpi);
+  const finalHeight = mmToPixels(parameters.finalDimensions.height, parameters.dpi);
+  const bleedPixels = mmToPixels(parameters.bleedMargin, parameters.dpi);
+  return {
+    finalWidth,
+    finalHeight,
+    bleedPixels,
+    width: finalWidth + bleedPixels * 2,
+    height: finalHeight + bleedPixels * 2,
+  };
+};
+
+/**
+ * Where the bleed comes from once the content is placed:
+ * - contour: grown from the artwork outline while tracing the cut line
+ * - artwork: the placed content already runs into the bleed
+ * - an offline method, or auto (AI when available, edge fill otherwise)
+ */
+export type BleedStep = 'contour' | 'artwork' | BleedMethod;
+
+export const chooseBleedStep = (
+  parameters: ProcessingParameters,
+  placement: ContentPlacement,
+  size: PrintRasterSize
+): BleedStep => {
+  if (parameters.cutLineType === 'contour') return 'contour';
+  if (coversCanvas(placement, size.width, size.height)) return 'artwork';
+  return parameters.bleedMethod ?? 'auto';
+};
+
+/**
+ * Rough peak memory of renderPrintRaster and createPrintPDF in bytes, for
+ * turning jobs away before anything is allocated.
+ */
+export const estimatePrintMemory = (
+  sourceWidth: number,
+  sourceHeight: number,
+  parameters: ProcessingParameters
+): number => {
+  const size = printRasterSize(parameters);
+  const outputPixels = size.width * size.height;
+  // Decoded source, RGBA raster and contour layer, the fill's distance transform, the RGB copy for the PDF
+  let bytes = sourceWidth * sourceHeight * 4 + outputPixels * (4 + 4 + 13 + 3);
+
+  let placedHeight = sourceHeight;
+  const placement = placeContent(sourceWidth, sourceHeight, size.finalWidth, size.finalHeight, size.bleedPixels, parameters);
+  const visible = visibleSourceRegion(sourceWidth, sourceHeight, placement, size.width, size.height);
+  if (parameters.upscaleSource && visible && placement.width > sourceWidth * MIN_UPSCALE_FACTOR) {
+    // The enlarged copy, the step before it, the last step's Float32 pass and the sharpening copy
+    const upscaledPixels = Math.round(visible.target.width) * Math.round(visible.target.height);
+    bytes += upscaledPixels * (4 + 1 + 8 + 4);
+    placedHeight = Math.round(visible.target.height);
+  }
+  // drawScaled's horizontal pass keeps four Float32 per output column and source row
+  bytes += size.width * placedHeight * 16;
+  return bytes;
+};
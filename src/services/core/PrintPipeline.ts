@@ -0,0 +1,104 @@
+import { ProcessingParameters } from "@/types/print";
+import { PixelBuffer, PixelRect } from "../image/types";
+import { placeContent, visibleSourceRegion } from "../image/ContentFit";
+import { fillOfflineBleed } from "../image/OfflineBleed";
+import { alphaMaskFromPixels, traceContourCut } from "../image/ContourCut";
+import { CutPath } from "../image/CutPath";
+import { applyPageBoxes, pageBoxesFromParameters } from "../image/PageBoxes";
+import { createPrintDocument, embedPixels, placeImage, savePrintDocument } from "../image/PDFExporter";
+import { drawCutContour } from "../image/CutContour";
+import { drawPrinterMarks } from "../image/PrinterMarks";
+import { MIN_UPSCALE_FACTOR } from "../image/Upscaler";
+import { createClearRaster, createPaperRaster, drawScaled, upscaleRaster } from "./Raster";
+import { chooseBleedStep, printRasterSize } from "./PrintLayout";
+import { applyDieLineBleedToPixels } from "./DieLineBleed";
+
+/**
+ * Settings the core cannot produce without the browser: CMYK conversion
+ * and PDF/X need ICC profiles served by the app. Returns why, or null.
+ */
+export const unsupportedReason = (parameters: ProcessingParameters): string | null => {
+  if (parameters.colorSpace === 'cmyk') {
+    return 'CMYK output needs an ICC profile from the web app; use colorSpace "rgb"';
+  }
+  if (parameters.pdfStandard && parameters.pdfStandard !== 'none') {
+    return 'PDF/X output needs an ICC output intent and is only available in the web app';
+  }
+  return null;
+};
+
+export interface PrintRender {
+  /** Trim + bleed at the target DPI, opaque */
+  raster: PixelBuffer;
+  /** Traced contour cut line, in trim mm */
+  cutPath?: CutPath;
+}
+
+/**
+ * ProcessingWorkflow on pixel buffers: white paper, the source placed like
+ * ImageRenderer does, then the bleed. "auto" uses edge fill, as the browser
+ * does without AI keys, and shaped die-lines limit the bleed to the shape.
+ */
+export const renderPrintRaster = (source: PixelBuffer, parameters: ProcessingParameters): PrintRender => {
+  const size = printRasterSize(parameters);
+  const { width, height, finalWidth, finalHeight, bleedPixels } = size;
+  console.log(`[PrintPipeline] ${source.width}x${source.height}px source onto ${width}x${height}px (${bleedPixels}px bleed)`);
+
+  const raster = createPaperRaster(width, height);
+  const placement = placeContent(source.width, source.height, finalWidth, finalHeight, bleedPixels, parameters);
+  // When upscaling, only the part that lands on the raster is enlarged
+  const visible = visibleSourceRegion(source.width, source.height, placement, width, height);
+  let placed = source;
+  let placedAt: PixelRect = placement;
+  if (parameters.upscaleSource && visible && placement.width > source.width * MIN_UPSCALE_FACTOR) {
+    placed = upscaleRaster(source, Math.round(visible.target.width), Math.round(visible.target.height), visible.source);
+    placedAt = visible.target;
+  }
+  drawScaled(raster, placed, placedAt);
+
+  const step = chooseBleedStep(parameters, placement, size);
+  if (step === 'contour') {
+    let alpha: Uint8Array | null = null;
+    if (parameters.contourSource !== 'background') {
+      const layer = createClearRaster(width, height);
+      drawScaled(layer, placed, placedAt);
+      alpha = alphaMaskFromPixels(layer.data, width, height, placement);
+    }
+    return { raster, cutPath: traceContourCut(raster, alpha, placement, parameters, bleedPixels) };
+  }
+
+  if (step === 'artwork') {
+    console.log('[PrintPipeline] Content covers the bleed, no bleed fill needed');
+  } else if (bleedPixels > 0) {
+    const method = step === 'auto' ? 'edge' : step;
+    fillOfflineBleed(raster, method, { x: bleedPixels, y: bleedPixels, width: finalWidth, height: finalHeight }, bleedPixels);
+    console.log(`[PrintPipeline] ${method} bleed filled`);
+  }
+  applyDieLineBleedToPixels(raster, parameters, bleedPixels);
+  return { raster };
+};
+
+/**
+ * One-page print PDF: the raster fills the bleed box, with the vector cut
+ * line and printer's marks of the browser export. The slug line is left out:
+ * its text is rendered through a canvas.
+ */
+export const createPrintPDF = async (
+  { raster, cutPath }: PrintRender,
+  parameters: ProcessingParameters,
+  title: string
+): Promise<Blob> => {
+  const boxes = pageBoxesFromParameters(parameters);
+  const { mediaBox, bleedBox } = boxes;
+  const pdfDoc = await createPrintDocument({ title });
+
+  const page = pdfDoc.addPage([mediaBox.width, mediaBox.height]);
+  applyPageBoxes(page, boxes);
+  const imageRef = embedPixels(pdfDoc, raster, {});
+  placeImage(page, imageRef, bleedBox.x, bleedBox.y, bleedBox.width, bleedBox.height);
+  drawCutContour(page, boxes, parameters, undefined, cutPath);
+  const printerMarks = parameters.printerMarks && { ...parameters.printerMarks, slugLine: false };
+  drawPrinterMarks(page, boxes, { ...parameters, printerMarks });
+
+  return savePrintDocument(pdfDoc);
+};
@@ -0,0 +1,144 @@
+import { PixelBuffer, PixelRect } from "../image/types";
+import { MAX_UPSCALE_STEP, sharpen } from "../image/Upscaler";
+
+/** An opaque white buffer, like the processing canvas before anything is drawn */
+export const createPaperRaster = (width: number, height: number): PixelBuffer => ({
+  data: new Uint8ClampedArray(width * height * 4).fill(255),
+  width,
+  height,
+});
+
+/** A fully transparent buffer */
+export const createClearRaster = (width: number, height: number): PixelBuffer => ({
+  data: new Uint8ClampedArray(width * height * 4),
+  width,
+  height,
+});
+
+/**
+ * Source pixels and weights contributing to each target pixel along one
+ * axis, with a triangle filter that widens when shrinking so every source
+ * pixel counts (the equivalent of the browser's smoothed drawImage).
+ */
+const axisWeights = (sourceSize: number, start: number, size: number, first: number, last: number) => {
+  const scale = size / sourceSize;
+  const radius = Math.max(1, 1 / scale);
+  const taps: { index: number[]; weight: number[] }[] = [];
+
+  for (let target = first; target < last; target++) {
+    const center = (target + 0.5 - start) / scale - 0.5;
+    const index: number[] = [];
+    const weight: number[] = [];
+    let total = 0;
+    for (let s = Math.floor(center - radius) + 1; s <= Math.ceil(center + radius) - 1; s++) {
+      const w = 1 - Math.abs(s - center) / radius;
+      if (w <= 0) continue;
+      index.push(Math.min(sourceSize - 1, Math.max(0, s)));
+      weight.push(w);
+      total += w;
+    }
+    taps.push({ index, weight: weight.map((w) => w / total) });
+  }
+  return taps;
+};
+
+/**
+ * drawImage() for pixel buffers: scales the source into `placement` on the
+ * target and composites it source-over. Only pixels whose centre lies inside
+ * the placement change.
+ */
+export const drawScaled = (target: PixelBuffer, source: PixelBuffer, placement: PixelRect): void => {
+  const left = Math.max(0, Math.round(placement.x));
+  const top = Math.max(0, Math.round(placement.y));
+  const right = Math.min(target.width, Math.round(placement.x + placement.width));
+  const bottom = Math.min(target.height, Math.round(placement.y + placement.height));
+  if (right <= left || bottom <= top) return;
+
+  const columns = axisWeights(source.width, placement.x, placement.width, left, right);
+  const rows = axisWeights(source.height, placement.y, placement.height, top, bottom);
+  const outWidth = right - left;
+
+  // Horizontal pass per source row, premultiplied so transparent pixels do not darken edges
+  const horizontal = new Float32Array(outWidth * source.height * 4);
+  for (let y = 0; y < source.height; y++) {
+    for (let x = 0; x < outWidth; x++) {
+      const { index, weight } = columns[x];
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = 0; k < index.length; k++) {
+        const i = (y * source.width + index[k]) * 4;
+        const alpha = source.data[i + 3] * weight[k];
+        r += source.data[i] * alpha;
+        g += source.data[i + 1] * alpha;
+        b += source.data[i + 2] * alpha;
+        a += alpha;
+      }
+      const o = (y * outWidth + x) * 4;
+      horizontal[o] = r;
+      horizontal[o + 1] = g;
+      horizontal[o + 2] = b;
+      horizontal[o + 3] = a;
+    }
+  }
+
+  const { data } = target;
+  for (let y = top; y < bottom; y++) {
+    const { index, weight } = rows[y - top];
+    for (let x = 0; x < outWidth; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = 0; k < index.length; k++) {
+        const o = (index[k] * outWidth + x) * 4;
+        r += horizontal[o] * weight[k];
+        g += horizontal[o + 1] * weight[k];
+        b += horizontal[o + 2] * weight[k];
+        a += horizontal[o + 3] * weight[k];
+      }
+      if (a === 0) continue;
+
+      // Source-over, in premultiplied terms: out = source + target * (1 - source alpha)
+      const i = (y * target.width + left + x) * 4;
+      const sourceAlpha = a / 255;
+      const targetAlpha = (data[i + 3] / 255) * (1 - sourceAlpha);
+      const outAlpha = sourceAlpha + targetAlpha;
+      data[i] = (r / 255 + data[i] * targetAlpha) / outAlpha;
+      data[i + 1] = (g / 255 + data[i + 1] * targetAlpha) / outAlpha;
+      data[i + 2] = (b / 255 + data[i + 2] * targetAlpha) / outAlpha;
+      data[i + 3] = outAlpha * 255;
+    }
+  }
+};
+
+/** Copies `rect` (whole pixels) out of the buffer */
+export const cropRaster = (source: PixelBuffer, rect: PixelRect): PixelBuffer => {
+  const cropped = createClearRaster(rect.width, rect.height);
+  for (let y = 0; y < rect.height; y++) {
+    const start = ((rect.y + y) * source.width + rect.x) * 4;
+    cropped.data.set(source.data.subarray(start, start + rect.width * 4), y * rect.width * 4);
+  }
+  return cropped;
+};
+
+/**
+ * upscaleImage() for pixel buffers: enlarges `region` of the source (all of
+ * it by default) in steps of at most 2× with drawScaled, then sharpens.
+ */
+export const upscaleRaster = (
+  source: PixelBuffer,
+  width: number,
+  height: number,
+  region?: PixelRect
+): PixelBuffer => {
+  let current = region ? cropRaster(source, region) : source;
+  const { width: regionWidth, height: regionHeight } = current;
+  do {
+    const next = createClearRaster(
+      Math.min(width, Math.round(current.width * MAX_UPSCALE_STEP)),
+      Math.min(height, Math.round(current.height * MAX_UPSCALE_STEP))
+    );
+    drawScaled(next, current, { x: 0, y: 0, width: next.width, height: next.height });
+    current = next;
+  } while (current.width < width || current.height < height);
+
+  sharpen(current);
+  console.log(`[Raster] Upscaled ${regionWidth}×${regionHeight} to ${width}×${height}`);
+  return current;
+};
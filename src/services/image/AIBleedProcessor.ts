@@ -1,13 +1,13 @@
 
-import { CanvasContext } from "./types";
+import { CanvasContext, ProcessingCanvas, ProcessingContext2D } from "./types";
 import { MarginAreaExtractor, MarginArea } from "./MarginAreaExtractor";
 import { AIInpaintingService } from "./AIInpaintingService";
 import { BleedFallbackFiller } from "./BleedFallbackFiller";
 import { debugFillUnfilledBleed } from "./debug/DebugFillUnfilledBleed";
 
 export class AIBleedProcessor {
-  private ctx: CanvasRenderingContext2D;
-  private canvas: HTMLCanvasElement;
+  private ctx: ProcessingContext2D;
+  private canvas: ProcessingCanvas;
 
   constructor({ canvas, ctx }: CanvasContext) {
     this.canvas = canvas;
@@ -27,8 +27,10 @@ export class AIInpaintingService {
    * Check if API keys are available and return configuration
    */
   static getApiConfiguration(): { hasOpenAI: boolean; hasHuggingFace: boolean; hasAnyKey: boolean } {
-    const openaiKey = localStorage.getItem('openai_api_key');
-    const huggingfaceKey = localStorage.getItem('huggingface_api_key');
+    // Workers have no localStorage; jobs there run without AI
+    const storage = typeof localStorage !== 'undefined' ? localStorage : null;
+    const openaiKey = storage?.getItem('openai_api_key');
+    const huggingfaceKey = storage?.getItem('huggingface_api_key');
     
     const hasOpenAI = !!(openaiKey && openaiKey.length > 0);
     const hasHuggingFace = !!(huggingfaceKey && huggingfaceKey.length > 0);
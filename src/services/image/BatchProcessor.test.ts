@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_PROCESSING_PARAMETERS } from "@/services/presets/defaults";
+import { saveJob } from "../jobHistory";
+import { BatchProcessor } from "./BatchProcessor";
+import { BatchItem } from "./types";
+
+// Processing and export are stubbed; the batch only has to hand results on
+const { processPages } = vi.hoisted(() => ({ processPages: vi.fn() }));
+
+vi.mock("../jobHistory", () => ({ saveJob: vi.fn() }));
+vi.mock("./WorkerImageProcessor", () => ({
+  WorkerImageProcessor: class {
+    processPages = processPages;
+    cancel() {}
+    destroy() {}
+  },
+}));
+vi.mock("./TiledProcessor", () => ({
+  TiledProcessor: class {},
+  needsTiledProcessing: () => false,
+}));
+vi.mock("./OutputExporter", () => ({
+  createOutputPDF: async () => new Blob(["%PDF-"], { type: "application/pdf" }),
+}));
+
+const batchItem = (name: string, overrides?: BatchItem["overrides"]): BatchItem => ({
+  id: name,
+  file: { file: new File([new Uint8Array(4)], name, { type: "image/png" }), type: "image" },
+  overrides,
+  status: "queued",
+  progress: 0,
+});
+
+describe("BatchProcessor", () => {
+  beforeEach(() => {
+    vi.mocked(saveJob).mockReset().mockResolvedValue(null);
+    processPages.mockReset().mockResolvedValue([{ processedImageUrl: "data:," }]);
+  });
+
+  it("saves every finished file to the job history", async () => {
+    const updates: Partial<BatchItem>[] = [];
+    const item = batchItem("card.png", { bleedMargin: 5 });
+
+    await new BatchProcessor((_, update) => updates.push(update)).run([item], DEFAULT_PROCESSING_PARAMETERS);
+
+    expect(updates).toContainEqual(expect.objectContaining({ status: "done" }));
+    expect(saveJob).toHaveBeenCalledTimes(1);
+    expect(saveJob).toHaveBeenCalledWith(expect.objectContaining({
+      source: item.file,
+      output: expect.any(Blob),
+      outputFilename: "card_print.pdf",
+      pageCount: 1,
+      parameters: { ...DEFAULT_PROCESSING_PARAMETERS, bleedMargin: 5 },
+      pageRange: "",
+    }));
+  });
+
+  it("keeps a file done when it cannot be saved, and skips failed files", async () => {
+    vi.mocked(saveJob).mockRejectedValueOnce(new Error("Could not record job: offline"));
+    processPages
+      .mockResolvedValueOnce([{ processedImageUrl: "data:," }])
+      .mockRejectedValueOnce(new Error("Failed to load image"));
+    const updates: [string, Partial<BatchItem>][] = [];
+
+    await new BatchProcessor((id, update) => updates.push([id, update])).run(
+      [batchItem("saved.png"), batchItem("broken.png")],
+      DEFAULT_PROCESSING_PARAMETERS,
+      1
+    );
+
+    expect(saveJob).toHaveBeenCalledTimes(1);
+    expect(updates).toContainEqual(["saved.png", { error: "Not saved to history: Could not record job: offline" }]);
+    expect(updates.filter(([id, update]) => id === "saved.png" && update.status && update.status !== "processing"))
+      .toEqual([["saved.png", expect.objectContaining({ status: "done" })]]);
+    expect(updates).toContainEqual(["broken.png", expect.objectContaining({ status: "error" })]);
+  });
+});
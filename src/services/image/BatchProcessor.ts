@@ -0,0 +1,197 @@
+import { ProcessingParameters } from "@/types/print";
+import { BatchItem } from "./types";
+import { CancellationToken } from "./CancellationToken";
+import { WorkerImageProcessor } from "./WorkerImageProcessor";
+import { TiledProcessor, needsTiledProcessing } from "./TiledProcessor";
+import { createOutputPDF } from "./OutputExporter";
+import { saveJob } from "../jobHistory";
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+
+// Same budgets as a single-file run: 60 seconds per page to process, 30 to export
+const PROCESSING_TIMEOUT_PER_PAGE_MS = 60000;
+const EXPORT_TIMEOUT_PER_PAGE_MS = 30000;
+// Tiled jobs process and export in one go, at the very large formats
+const TILED_TIMEOUT_PER_PAGE_MS = 10 * 60000;
+
+export type BatchItemUpdate = (id: string, update: Partial<BatchItem>) => void;
+
+export const batchOutputFileName = (name: string) => `${name.replace(/\.[^.]+$/, "")}_print.pdf`;
+
+/**
+ * Rejects when `promise` takes longer than `timeoutMs`, after calling
+ * `onTimeout` so the work behind it can be stopped.
+ */
+const withTimeout = async <T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  label: string,
+  onTimeout?: (reason: string) => void
+): Promise<T> => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          const reason = `${label} timeout after ${timeoutMs / 1000} seconds`;
+          onTimeout?.(reason);
+          reject(new Error(reason));
+        }, timeoutMs);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+export const resolveItemParameters = (
+  item: BatchItem,
+  parameters: ProcessingParameters
+): ProcessingParameters => ({ ...parameters, ...item.overrides });
+
+/**
+ * Runs a queue of files through WorkerImageProcessor with at most `concurrency`
+ * files in flight. Every file gets its own processor (and therefore its own
+ * canvas); a failing file is marked as such and the queue carries on.
+ */
+export class BatchProcessor {
+  private cancellationToken = new CancellationToken();
+  private activeProcessors = new Set<WorkerImageProcessor | TiledProcessor>();
+  private activeExports = new Set<CancellationToken>();
+  private onItemUpdate: BatchItemUpdate;
+
+  constructor(onItemUpdate: BatchItemUpdate) {
+    this.onItemUpdate = onItemUpdate;
+  }
+
+  async run(
+    items: BatchItem[],
+    parameters: ProcessingParameters,
+    concurrency: number = DEFAULT_BATCH_CONCURRENCY
+  ): Promise<void> {
+    console.log(`[BatchProcessor] Starting batch of ${items.length} file(s), concurrency ${concurrency}`);
+    let nextIndex = 0;
+
+    const worker = async () => {
+      while (nextIndex < items.length) {
+        const item = items[nextIndex++];
+        if (this.cancellationToken.isCancelled) {
+          this.onItemUpdate(item.id, { status: 'cancelled', step: undefined });
+          continue;
+        }
+        await this.processItem(item, resolveItemParameters(item, parameters));
+      }
+    };
+
+    const workerCount = Math.max(1, Math.min(concurrency, items.length));
+    await Promise.all(Array.from({ length: workerCount }, worker));
+    console.log('[BatchProcessor] Batch finished');
+  }
+
+  cancel(reason?: string): void {
+    console.log('[BatchProcessor] Cancelling batch:', reason);
+    this.cancellationToken.cancel(reason);
+    this.activeProcessors.forEach((processor) => processor.cancel(reason));
+    this.activeExports.forEach((exportToken) => exportToken.cancel(reason));
+  }
+
+  private async processItem(item: BatchItem, parameters: ProcessingParameters): Promise<void> {
+    const { file } = item;
+    const pageCount = file.type === 'pdf' ? file.pages ?? 1 : 1;
+    const pageNumbers = Array.from({ length: pageCount }, (_, index) => index + 1);
+
+    const reportProgress = (share: number) => (step: string, progress?: number) => {
+      this.onItemUpdate(item.id, {
+        step,
+        ...(progress !== undefined ? { progress: progress * share } : {}),
+      });
+    };
+    const exportToken = new CancellationToken();
+    const exportOptions = { imageEncoding: 'flate' as const, title: file.file.name, cancellationToken: exportToken };
+
+    // Very large formats are tiled straight into the PDF; otherwise processing
+    // takes up to 80% of the item's bar and PDF creation the rest
+    const processor = needsTiledProcessing(parameters)
+      ? new TiledProcessor(reportProgress(1))
+      : new WorkerImageProcessor(reportProgress(0.8));
+    this.activeProcessors.add(processor);
+    this.onItemUpdate(item.id, { status: 'processing', progress: 0, step: 'Starting', error: undefined });
+
+    try {
+      if (processor instanceof TiledProcessor) {
+        const { pdf } = await withTimeout(
+          processor.process(file, parameters, pageNumbers, exportOptions),
+          TILED_TIMEOUT_PER_PAGE_MS * pageCount,
+          'Tiled processing',
+          (reason) => processor.cancel(reason)
+        );
+        this.cancellationToken.throwIfCancelled();
+        this.onItemUpdate(item.id, { status: 'done', progress: 100, step: undefined, output: pdf });
+        console.log(`[BatchProcessor] ${file.file.name} done in tiles, size:`, pdf.size);
+        await this.saveToHistory(item, parameters, pdf, pageCount);
+        return;
+      }
+
+      const results = await withTimeout(
+        processor.processPages(file, parameters, pageNumbers),
+        PROCESSING_TIMEOUT_PER_PAGE_MS * pageCount,
+        'Processing',
+        (reason) => processor.cancel(reason)
+      );
+      this.cancellationToken.throwIfCancelled();
+
+      this.onItemUpdate(item.id, { step: 'Creating PDF', progress: 85 });
+      this.activeExports.add(exportToken);
+      const output = await withTimeout(
+        createOutputPDF(file, results, parameters, exportOptions),
+        EXPORT_TIMEOUT_PER_PAGE_MS * results.length,
+        'PDF creation',
+        (reason) => exportToken.cancel(reason)
+      );
+
+      this.onItemUpdate(item.id, { status: 'done', progress: 100, step: undefined, output });
+      console.log(`[BatchProcessor] ${file.file.name} done, size:`, output.size);
+      await this.saveToHistory(item, parameters, output, results.length);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const cancelled = this.cancellationToken.isCancelled || message.includes('cancelled');
+      console.error(`[BatchProcessor] ${file.file.name} failed:`, error);
+      this.onItemUpdate(item.id, {
+        status: cancelled ? 'cancelled' : 'error',
+        step: undefined,
+        error: cancelled ? undefined : message,
+      });
+    } finally {
+      this.activeProcessors.delete(processor);
+      this.activeExports.delete(exportToken);
+      processor.destroy();
+    }
+  }
+
+  /** Keeps a copy of a finished file in the user's history; the output is ready either way */
+  private async saveToHistory(
+    item: BatchItem,
+    parameters: ProcessingParameters,
+    output: Blob,
+    pageCount: number
+  ): Promise<void> {
+    try {
+      await saveJob({
+        source: item.file,
+        output,
+        outputFilename: batchOutputFileName(item.file.file.name),
+        pageCount,
+        parameters,
+        bleedPrompt: '',
+        useAIOutpaint: false,
+        pageRange: '',
+      });
+    } catch (error) {
+      console.error(`[BatchProcessor] Could not save ${item.file.file.name} to history:`, error);
+      this.onItemUpdate(item.id, {
+        error: `Not saved to history: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  }
+}
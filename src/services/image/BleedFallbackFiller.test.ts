@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { BleedFallbackFiller } from "./BleedFallbackFiller";
+import { PixelBuffer, ProcessingContext2D } from "./types";
+import { mmToPixels } from "./utils";
+
+// A2 at 150 DPI with 3 mm bleed: about 8.9 megapixels
+const DPI = 150;
+const FINAL_WIDTH = mmToPixels(420, DPI);
+const FINAL_HEIGHT = mmToPixels(594, DPI);
+const BLEED = mmToPixels(3, DPI);
+// About three times a run on a single slow core
+const TIME_BUDGET_MS = 4_000;
+
+/** White canvas with a colour ramp over the trim area */
+const createSheet = (): PixelBuffer => {
+  const width = FINAL_WIDTH + BLEED * 2;
+  const height = FINAL_HEIGHT + BLEED * 2;
+  const data = new Uint8ClampedArray(width * height * 4).fill(255);
+  for (let y = BLEED; y < BLEED + FINAL_HEIGHT; y++) {
+    for (let x = BLEED; x < BLEED + FINAL_WIDTH; x++) {
+      const idx = (y * width + x) * 4;
+      data[idx] = (x * 7) % 200;
+      data[idx + 1] = (y * 3) % 200;
+      data[idx + 2] = 90;
+    }
+  }
+  return { data, width, height };
+};
+
+const pixelAt = ({ data, width }: PixelBuffer, x: number, y: number) =>
+  Array.from(data.subarray((y * width + x) * 4, (y * width + x) * 4 + 4));
+
+describe("BleedFallbackFiller", () => {
+  it(`fills the bleed of an A2 sheet at ${DPI} DPI within ${TIME_BUDGET_MS}ms`, () => {
+    const sheet = createSheet();
+    let written: PixelBuffer | null = null;
+    const ctx = {
+      getImageData: () => sheet,
+      putImageData: (image: PixelBuffer) => {
+        written = image;
+      },
+    } as unknown as ProcessingContext2D;
+
+    const started = performance.now();
+    BleedFallbackFiller.finalFillBleedFromEdge(ctx, BLEED, FINAL_WIDTH, FINAL_HEIGHT);
+    const elapsed = performance.now() - started;
+
+    expect(elapsed).toBeLessThan(TIME_BUDGET_MS);
+    expect(written).toBe(sheet);
+
+    // Corners take the trim corner, edges the pixel straight across the trim line
+    const right = BLEED + FINAL_WIDTH - 1;
+    const bottom = BLEED + FINAL_HEIGHT - 1;
+    expect(pixelAt(sheet, 0, 0)).toEqual(pixelAt(sheet, BLEED, BLEED));
+    expect(pixelAt(sheet, sheet.width - 1, sheet.height - 1)).toEqual(pixelAt(sheet, right, bottom));
+    expect(pixelAt(sheet, 500, 0)).toEqual(pixelAt(sheet, 500, BLEED));
+    expect(pixelAt(sheet, sheet.width - 1, 700)).toEqual(pixelAt(sheet, right, 700));
+  });
+
+  it("leaves the canvas alone when there is no content", () => {
+    const image: PixelBuffer = { data: new Uint8ClampedArray(40 * 30 * 4).fill(255), width: 40, height: 30 };
+
+    const filled = BleedFallbackFiller.fillFromNearestContent(image, { x: 5, y: 5, width: 30, height: 20 });
+
+    expect(filled).toBe(0);
+    expect(image.data.every((value) => value === 255)).toBe(true);
+  });
+});
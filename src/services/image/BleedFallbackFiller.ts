@@ -1,7 +1,10 @@
+import { featureTransform } from "./DistanceTransform";
+import { PixelBuffer, PixelRect, ProcessingContext2D } from "./types";
+
 
 export class BleedFallbackFiller {
   static finalFillBleedFromEdge(
-    ctx: CanvasRenderingContext2D,
+    ctx: ProcessingContext2D,
     bleedPixels: number,
     finalWidth: number,
     finalHeight: number
@@ -9,15 +12,28 @@ export class BleedFallbackFiller {
     const canvasWidth = finalWidth + bleedPixels * 2;
     const canvasHeight = finalHeight + bleedPixels * 2;
     const imageData = ctx.getImageData(0, 0, canvasWidth, canvasHeight);
-    const { data, width, height } = imageData;
+    const content = { x: bleedPixels, y: bleedPixels, width: finalWidth, height: finalHeight };
+
+    const filledCount = BleedFallbackFiller.fillFromNearestContent(imageData, content);
+    if (filledCount > 0) {
+      console.log(`[AIBleedProcessor] [finalFillBleedFromEdge] Distance transform: filled ${filledCount} margin pixels with nearest content color`);
+      ctx.putImageData(imageData, 0, 0);
+    } else {
+      console.log('[AIBleedProcessor] [finalFillBleedFromEdge] No margin pixels needed filling');
+    }
+  }
+
+  /**
+   * Gives every white pixel outside the content rectangle the colour of the
+   * nearest non-white content pixel. Returns the number of pixels filled.
+   */
+  static fillFromNearestContent(image: PixelBuffer, content: PixelRect): number {
+    const { data, width, height } = image;
+    const right = content.x + content.width;
+    const bottom = content.y + content.height;
 
     const isBleedWhite = (x: number, y: number) => {
-      if (
-        x < bleedPixels ||
-        x >= bleedPixels + finalWidth ||
-        y < bleedPixels ||
-        y >= bleedPixels + finalHeight
-      ) {
+      if (x < content.x || x >= right || y < content.y || y >= bottom) {
         const idx = (y * width + x) * 4;
         const r = data[idx], g = data[idx + 1], b = data[idx + 2], a = data[idx + 3];
         return r > 235 && g > 235 && b > 235 && a > 200;
@@ -25,41 +41,35 @@ export class BleedFallbackFiller {
       return false;
     };
 
-    const contentPixels: Array<[number, number]> = [];
-    for (let y = bleedPixels; y < bleedPixels + finalHeight; y++) {
-      for (let x = bleedPixels; x < bleedPixels + finalWidth; x++) {
+    // Feature pixels for the distance transform: every non-white content pixel
+    const contentMask = new Uint8Array(width * height);
+    let contentCount = 0;
+    for (let y = content.y; y < bottom; y++) {
+      for (let x = content.x; x < right; x++) {
         const idx = (y * width + x) * 4;
         const r = data[idx], g = data[idx + 1], b = data[idx + 2], a = data[idx + 3];
         if (!(r > 235 && g > 235 && b > 235) && a > 24) {
-          contentPixels.push([x, y]);
+          contentMask[y * width + x] = 1;
+          contentCount++;
         }
       }
     }
 
-    if (contentPixels.length === 0) {
+    if (contentCount === 0) {
       console.warn('[AIBleedProcessor] No content pixels found for fallback bleed fill');
-      return;
+      return 0;
     }
 
+    // Nearest content pixel for every pixel at once, linear in the canvas size
+    const { nearest } = featureTransform(contentMask, width, height);
+
     let filledCount = 0;
     for (let y = 0; y < height; y++) {
       for (let x = 0; x < width; x++) {
         if (!isBleedWhite(x, y)) continue;
-        let nearestDist = Infinity;
-        let nearestIdx = -1;
-        for (let i = 0; i < contentPixels.length; i++) {
-          const [cx, cy] = contentPixels[i];
-          const dx = cx - x, dy = cy - y;
-          const dist = dx * dx + dy * dy;
-          if (dist < nearestDist) {
-            nearestDist = dist;
-            nearestIdx = i;
-            if (dist === 0) break;
-          }
-        }
+        const nearestIdx = nearest[y * width + x];
         if (nearestIdx !== -1) {
-          const [srcX, srcY] = contentPixels[nearestIdx];
-          const srcIdx = (srcY * width + srcX) * 4;
+          const srcIdx = nearestIdx * 4;
           const idx = (y * width + x) * 4;
           data[idx]     = data[srcIdx];
           data[idx + 1] = data[srcIdx + 1];
@@ -69,11 +79,6 @@ export class BleedFallbackFiller {
         }
       }
     }
-    if (filledCount > 0) {
-      console.log(`[AIBleedProcessor] [finalFillBleedFromEdge] True nearest-neighbor: filled ${filledCount} margin pixels with nearest content color`);
-      ctx.putImageData(imageData, 0, 0);
-    } else {
-      console.log('[AIBleedProcessor] [finalFillBleedFromEdge] No margin pixels needed filling');
-    }
+    return filledCount;
   }
 }
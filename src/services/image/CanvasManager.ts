@@ -1,13 +1,13 @@
-
-import { CanvasContext } from "./types";
+import { CanvasContext, ProcessingCanvas, ProcessingContext2D } from "./types";
+import { createCanvas, getContext2D } from "./utils";
 
 export class CanvasManager {
-  private canvas: HTMLCanvasElement;
-  private ctx: CanvasRenderingContext2D;
+  private canvas: ProcessingCanvas;
+  private ctx: ProcessingContext2D;
 
   constructor() {
-    this.canvas = document.createElement('canvas');
-    const context = this.canvas.getContext('2d');
+    this.canvas = createCanvas(0, 0);
+    const context = getContext2D(this.canvas);
     if (!context) {
       throw new Error('Failed to get canvas context');
     }
@@ -18,11 +18,11 @@ export class CanvasManager {
     return { canvas: this.canvas, ctx: this.ctx };
   }
 
-  getCanvas(): HTMLCanvasElement {
+  getCanvas(): ProcessingCanvas {
     return this.canvas;
   }
 
-  getContext(): CanvasRenderingContext2D {
+  getContext(): ProcessingContext2D {
     return this.ctx;
   }
 
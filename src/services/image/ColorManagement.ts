@@ -0,0 +1,213 @@
+import { PDFDocument, PDFRef } from 'pdf-lib';
+import { ProcessingParameters } from "@/types/print";
+
+export interface ICCProfileInfo {
+  id: string;
+  name: string;
+  /** Where the profile is fetched from; custom profiles are held in memory instead */
+  url?: string;
+  /** Characterisation the profile describes, as used by PDF/X output intents */
+  outputConditionIdentifier: string;
+  outputCondition?: string;
+}
+
+/**
+ * CMYK profiles the app knows about. The .icc files are not bundled with the
+ * source (they are published by ECI and Idealliance under their own terms) and
+ * have to be placed in public/icc/.
+ */
+export const ICC_PROFILES: ICCProfileInfo[] = [
+  {
+    id: 'fogra39',
+    name: 'Coated FOGRA39 (ISO 12647-2:2004)',
+    url: '/icc/CoatedFOGRA39.icc',
+    outputConditionIdentifier: 'FOGRA39',
+    outputCondition: 'Offset printing, according to ISO 12647-2:2004/Amd 1, paper type 1 or 2 (coated art)',
+  },
+  {
+    id: 'fogra51',
+    name: 'PSO Coated v3 (FOGRA51)',
+    url: '/icc/PSOcoated_v3.icc',
+    outputConditionIdentifier: 'FOGRA51',
+    outputCondition: 'Offset printing, according to ISO 12647-2:2013, paper type 1 (premium coated)',
+  },
+  {
+    id: 'fogra52',
+    name: 'PSO Uncoated v3 (FOGRA52)',
+    url: '/icc/PSOuncoated_v3_FOGRA52.icc',
+    outputConditionIdentifier: 'FOGRA52',
+    outputCondition: 'Offset printing, according to ISO 12647-2:2013, paper type 5 (wood-free uncoated white)',
+  },
+  {
+    id: 'gracol2006',
+    name: 'GRACoL2006 Coated1 v2',
+    url: '/icc/GRACoL2006_Coated1v2.icc',
+    outputConditionIdentifier: 'CGATS TR 006',
+    outputCondition: 'Commercial offset lithography, grade 1 coated paper',
+  },
+  {
+    id: 'swop',
+    name: 'U.S. Web Coated (SWOP) v2',
+    url: '/icc/USWebCoatedSWOP.icc',
+    outputConditionIdentifier: 'CGATS TR 001',
+    outputCondition: 'Publication web offset, grade 5 paper',
+  },
+];
+
+export const DEFAULT_ICC_PROFILE_ID = 'fogra39';
+
+// Pixels handed to LittleCMS per call, keeps the WASM heap small for posters
+const TRANSFORM_CHUNK_PIXELS = 1 << 20;
+
+const customProfiles = new Map<string, { info: ICCProfileInfo; bytes: Uint8Array }>();
+const profileCache = new Map<string, Promise<Uint8Array>>();
+
+export const getICCProfileInfo = (id: string): ICCProfileInfo | undefined =>
+  customProfiles.get(id)?.info ?? ICC_PROFILES.find((profile) => profile.id === id);
+
+export const listICCProfiles = (): ICCProfileInfo[] => [
+  ...ICC_PROFILES,
+  ...Array.from(customProfiles.values(), (profile) => profile.info),
+];
+
+/**
+ * Makes an uploaded .icc/.icm file selectable for the rest of the session.
+ */
+export const registerCustomICCProfile = async (file: File): Promise<ICCProfileInfo> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  // Bytes 16-19 of the header hold the data colour space signature
+  const colorSpace = String.fromCharCode(...bytes.slice(16, 20));
+  if (bytes.length < 128 || colorSpace !== 'CMYK') {
+    throw new Error(`${file.name} is not a CMYK ICC profile`);
+  }
+
+  const name = file.name.replace(/\.(icc|icm)$/i, '');
+  const info: ICCProfileInfo = { id: `custom:${name}`, name, outputConditionIdentifier: name };
+  customProfiles.set(info.id, { info, bytes });
+  console.log('[ColorManagement] Registered custom profile:', info.id);
+  return info;
+};
+
+export const loadICCProfile = (id: string): Promise<Uint8Array> => {
+  const custom = customProfiles.get(id);
+  if (custom) {
+    return Promise.resolve(custom.bytes);
+  }
+
+  const info = ICC_PROFILES.find((profile) => profile.id === id);
+  if (!info) {
+    return Promise.reject(new Error(`Unknown ICC profile: ${id}`));
+  }
+
+  if (!profileCache.has(id)) {
+    const request = fetch(info.url!)
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        const bytes = new Uint8Array(await response.arrayBuffer());
+        // Dev servers answer missing files with the app's index.html; bytes 36-39 of a profile hold "acsp"
+        if (bytes.length < 128 || String.fromCharCode(...bytes.slice(36, 40)) !== 'acsp') {
+          throw new Error('not an ICC profile');
+        }
+        return bytes;
+      })
+      .catch((error) => {
+        profileCache.delete(id);
+        throw new Error(
+          `Could not load the ${info.name} ICC profile from ${info.url} (${error instanceof Error ? error.message : error}). ` +
+          'Place the profile in public/icc/ (see public/icc/README.md) or upload it in the sidebar.'
+        );
+      });
+    profileCache.set(id, request);
+  }
+  return profileCache.get(id)!;
+};
+
+/**
+ * Converts 8-bit sRGB pixels to the CMYK space of an output profile.
+ */
+export interface CMYKConverter {
+  profile: ICCProfileInfo;
+  profileBytes: Uint8Array;
+  /** Tag images as ICCBased with the embedded profile rather than plain DeviceCMYK */
+  embedProfile: boolean;
+  convert(rgb: Uint8Array): Uint8Array;
+  dispose(): void;
+}
+
+export const createCMYKConverter = async (parameters: ProcessingParameters): Promise<CMYKConverter | null> => {
+  if (parameters.colorSpace !== 'cmyk') {
+    return null;
+  }
+
+  const profileId = parameters.iccProfile ?? DEFAULT_ICC_PROFILE_ID;
+  const profile = getICCProfileInfo(profileId);
+  if (!profile) {
+    throw new Error(`Unknown ICC profile: ${profileId}`);
+  }
+  const profileBytes = await loadICCProfile(profileId);
+
+  const lcmsModule = await import('lcms-wasm');
+  const { default: wasmUrl } = await import('lcms-wasm/dist/lcms.wasm?url');
+  const lcms = await lcmsModule.instantiate({ locateFile: () => wasmUrl });
+
+  const inputProfile = lcms.cmsCreate_sRGBProfile();
+  const outputProfile = lcms.cmsOpenProfileFromMem(profileBytes, profileBytes.byteLength);
+  if (!outputProfile || lcms.cmsGetColorSpaceASCII(outputProfile) !== 'CMYK') {
+    lcms.cmsCloseProfile(inputProfile);
+    if (outputProfile) lcms.cmsCloseProfile(outputProfile);
+    throw new Error(`${profile.name} is not a usable CMYK output profile`);
+  }
+
+  // Relative colorimetric with black point compensation is the usual choice for press output
+  const transform = lcms.cmsCreateTransform(
+    inputProfile,
+    lcmsModule.TYPE_RGB_8,
+    outputProfile,
+    lcmsModule.TYPE_CMYK_8,
+    lcmsModule.INTENT_RELATIVE_COLORIMETRIC,
+    lcmsModule.cmsFLAGS_BLACKPOINTCOMPENSATION
+  );
+  if (!transform) {
+    throw new Error(`Could not create an sRGB → ${profile.name} transform`);
+  }
+  console.log(`[ColorManagement] sRGB → ${profile.name} transform ready`);
+
+  return {
+    profile,
+    profileBytes,
+    embedProfile: parameters.embedIccProfile !== false,
+    convert: (rgb: Uint8Array): Uint8Array => {
+      const pixelCount = rgb.length / 3;
+      const cmyk = new Uint8Array(pixelCount * 4);
+      for (let start = 0; start < pixelCount; start += TRANSFORM_CHUNK_PIXELS) {
+        const count = Math.min(TRANSFORM_CHUNK_PIXELS, pixelCount - start);
+        const chunk = lcms.cmsDoTransform(transform, rgb.subarray(start * 3, (start + count) * 3), count);
+        cmyk.set(chunk, start * 4);
+      }
+      return cmyk;
+    },
+    dispose: () => {
+      lcms.cmsDeleteTransform(transform);
+      lcms.cmsCloseProfile(inputProfile);
+      lcms.cmsCloseProfile(outputProfile);
+    },
+  };
+};
+
+// One ICC stream per document, shared by every CMYK image and the output intent
+const iccProfileRefs = new WeakMap<PDFDocument, PDFRef>();
+
+/**
+ * Registers the output profile as an ICC stream, once per document.
+ */
+export const getICCProfileRef = (pdfDoc: PDFDocument, converter: CMYKConverter): PDFRef => {
+  let ref = iccProfileRefs.get(pdfDoc);
+  if (!ref) {
+    const stream = pdfDoc.context.flateStream(converter.profileBytes, { N: 4, Alternate: 'DeviceCMYK' });
+    ref = pdfDoc.context.register(stream);
+    iccProfileRefs.set(pdfDoc, ref);
+  }
+  return ref;
+};
@@ -0,0 +1,132 @@
+import { FitAnchor, FitMode, ProcessingParameters } from "@/types/print";
+import { ContentPlacement, PixelRect } from "./types";
+
+export const DEFAULT_FIT_MODE: FitMode = 'contain';
+export const DEFAULT_FIT_ANCHOR: FitAnchor = 'center';
+
+// Share of the leftover space that goes before the content, per axis
+const ANCHOR_POSITION: Record<FitAnchor, [number, number]> = {
+  'top-left': [0, 0],
+  top: [0.5, 0],
+  'top-right': [1, 0],
+  left: [0, 0.5],
+  center: [0.5, 0.5],
+  right: [1, 0.5],
+  'bottom-left': [0, 1],
+  bottom: [0.5, 1],
+  'bottom-right': [1, 1],
+};
+
+/**
+ * Where the source goes relative to the trim's top-left corner, y down, in
+ * the units of `trim`:
+ * - contain: the whole source fits inside the trim
+ * - cover: the source fills the trim and is cropped
+ * - stretch: the source fills the trim and is distorted
+ * - none: actual size, `naturalScale` trim units per source unit
+ * The anchor places the result in the leftover space (or decides what gets
+ * cropped), then the manual scale and offset (mm) are applied.
+ */
+export const fitContent = (
+  source: { width: number; height: number },
+  trim: { width: number; height: number },
+  parameters: ProcessingParameters,
+  unitsPerMm: number,
+  naturalScale = 1
+): PixelRect => {
+  let scaleX: number;
+  let scaleY: number;
+  switch (parameters.fitMode ?? DEFAULT_FIT_MODE) {
+    case 'cover':
+      scaleX = scaleY = Math.max(trim.width / source.width, trim.height / source.height);
+      break;
+    case 'stretch':
+      scaleX = trim.width / source.width;
+      scaleY = trim.height / source.height;
+      break;
+    case 'none':
+      scaleX = scaleY = naturalScale;
+      break;
+    default:
+      scaleX = scaleY = Math.min(trim.width / source.width, trim.height / source.height);
+  }
+
+  const manualScale = parameters.contentScale ?? 1;
+  const width = source.width * scaleX * manualScale;
+  const height = source.height * scaleY * manualScale;
+  const [anchorX, anchorY] = ANCHOR_POSITION[parameters.fitAnchor ?? DEFAULT_FIT_ANCHOR];
+  const offset = parameters.contentOffset ?? { x: 0, y: 0 };
+
+  return {
+    x: (trim.width - width) * anchorX + offset.x * unitsPerMm,
+    y: (trim.height - height) * anchorY + offset.y * unitsPerMm,
+    width,
+    height,
+  };
+};
+
+/**
+ * fitContent() on the processing canvas, where the trim starts after the
+ * bleed. `sourceResolution` is the source's pixels per inch when known (PDF
+ * pages); otherwise one source pixel makes one output pixel at actual size.
+ */
+export const placeContent = (
+  sourceWidth: number,
+  sourceHeight: number,
+  finalWidth: number,
+  finalHeight: number,
+  bleedPixels: number,
+  parameters: ProcessingParameters,
+  sourceResolution?: number
+): ContentPlacement => {
+  const naturalScale = sourceResolution ? parameters.dpi / sourceResolution : 1;
+  const fit = fitContent(
+    { width: sourceWidth, height: sourceHeight },
+    { width: finalWidth, height: finalHeight },
+    parameters,
+    parameters.dpi / 25.4,
+    naturalScale
+  );
+  return { ...fit, x: fit.x + bleedPixels, y: fit.y + bleedPixels };
+};
+
+/**
+ * True when the placed content already reaches every canvas edge, so the
+ * bleed is real artwork and nothing has to be generated.
+ */
+export const coversCanvas = (placement: ContentPlacement, width: number, height: number): boolean =>
+  placement.x <= 0 &&
+  placement.y <= 0 &&
+  placement.x + placement.width >= width &&
+  placement.y + placement.height >= height;
+
+/**
+ * The part of the source that lands on the canvas when drawn into
+ * `placement`, widened to whole source pixels, and the canvas rectangle it is
+ * drawn to. Null when none of the source is visible.
+ */
+export const visibleSourceRegion = (
+  sourceWidth: number,
+  sourceHeight: number,
+  placement: ContentPlacement,
+  canvasWidth: number,
+  canvasHeight: number
+): { source: PixelRect; target: PixelRect } | null => {
+  const scaleX = placement.width / sourceWidth;
+  const scaleY = placement.height / sourceHeight;
+  const left = Math.max(0, Math.floor(-placement.x / scaleX));
+  const top = Math.max(0, Math.floor(-placement.y / scaleY));
+  const right = Math.min(sourceWidth, Math.ceil((canvasWidth - placement.x) / scaleX));
+  const bottom = Math.min(sourceHeight, Math.ceil((canvasHeight - placement.y) / scaleY));
+  if (right <= left || bottom <= top) return null;
+
+  return {
+    source: { x: left, y: top, width: right - left, height: bottom - top },
+    target: {
+      x: placement.x + left * scaleX,
+      y: placement.y + top * scaleY,
+      width: (right - left) * scaleX,
+      height: (bottom - top) * scaleY,
+    },
+  };
+};
@@ -0,0 +1,196 @@
+import { ProcessingParameters } from "@/types/print";
+import { ContentPlacement, PixelBuffer, ProcessingContext2D, SourceImage } from "./types";
+import { createCanvas, getContext2D } from "./utils";
+import { CutPath } from "./CutPath";
+import { featureTransform } from "./DistanceTransform";
+import { outlineToBezierPath, polygonArea, simplifyOutline, smoothOutline, traceOutlines } from "./ContourTracer";
+
+export const DEFAULT_CONTOUR_OFFSET = 2;
+
+const ALPHA_THRESHOLD = 128;
+// Largest channel difference from the background that still counts as background
+const BACKGROUND_TOLERANCE = 32;
+// Pieces smaller than this share of the largest one are treated as specks
+const MIN_PIECE_RATIO = 0.01;
+const SMOOTHING_MM = 0.3;
+const SIMPLIFY_MM = 0.05;
+
+/**
+ * Artwork mask from the alpha of the source drawn exactly where the renderer
+ * placed it (RGBA, on a transparent buffer). Returns null when the image is
+ * fully opaque, so there is no outline to take.
+ */
+export const alphaMaskFromPixels = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  placement: ContentPlacement
+): Uint8Array | null => {
+  const mask = new Uint8Array(width * height);
+  let transparent = false;
+  for (let i = 0; i < mask.length; i++) {
+    mask[i] = data[i * 4 + 3] >= ALPHA_THRESHOLD ? 1 : 0;
+    transparent ||= data[i * 4 + 3] < 255 && insidePlacement(i % width, Math.floor(i / width), placement);
+  }
+  return transparent ? mask : null;
+};
+
+const alphaMask = (
+  img: SourceImage,
+  placement: ContentPlacement,
+  width: number,
+  height: number
+): Uint8Array | null => {
+  const canvas = createCanvas(width, height);
+  const ctx = getContext2D(canvas);
+  if (!ctx) {
+    throw new Error('Failed to get contour canvas context');
+  }
+  ctx.drawImage(img, placement.x, placement.y, placement.width, placement.height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  canvas.width = 0;
+  canvas.height = 0;
+  return alphaMaskFromPixels(data, width, height, placement);
+};
+
+const insidePlacement = (x: number, y: number, placement: ContentPlacement): boolean =>
+  x >= Math.ceil(placement.x) && y >= Math.ceil(placement.y) &&
+  x < Math.floor(placement.x + placement.width) && y < Math.floor(placement.y + placement.height);
+
+/**
+ * Everything inside the placed content that differs from its background,
+ * taken as the per-channel median of the content's outermost pixels.
+ */
+const backgroundMask = (data: Uint8ClampedArray, width: number, height: number, placement: ContentPlacement): Uint8Array => {
+  const left = Math.max(0, Math.ceil(placement.x));
+  const top = Math.max(0, Math.ceil(placement.y));
+  const right = Math.min(width, Math.floor(placement.x + placement.width)) - 1;
+  const bottom = Math.min(height, Math.floor(placement.y + placement.height)) - 1;
+
+  const border: number[][] = [[], [], []];
+  const sample = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    border[0].push(data[i]);
+    border[1].push(data[i + 1]);
+    border[2].push(data[i + 2]);
+  };
+  for (let x = left; x <= right; x++) {
+    sample(x, top);
+    sample(x, bottom);
+  }
+  for (let y = top + 1; y < bottom; y++) {
+    sample(left, y);
+    sample(right, y);
+  }
+  const background = border.map((values) => values.sort((a, b) => a - b)[Math.floor(values.length / 2)] ?? 255);
+  console.log('[ContourCut] Background colour detected as', background);
+
+  const mask = new Uint8Array(width * height);
+  for (let y = top; y <= bottom; y++) {
+    for (let x = left; x <= right; x++) {
+      const i = y * width + x;
+      const difference = Math.max(
+        Math.abs(data[i * 4] - background[0]),
+        Math.abs(data[i * 4 + 1] - background[1]),
+        Math.abs(data[i * 4 + 2] - background[2])
+      );
+      mask[i] = difference > BACKGROUND_TOLERANCE ? 1 : 0;
+    }
+  }
+  return mask;
+};
+
+/**
+ * Traces the outline of the artwork on the canvas, grows it by the contour
+ * offset and returns it as a smooth cut path in trim coordinates (mm). The
+ * bleed is generated along that contour: pixels up to offset + bleed outside
+ * the artwork take the colour of the nearest artwork pixel, and everything
+ * further out becomes paper white.
+ */
+export const applyContourCut = (
+  ctx: ProcessingContext2D,
+  img: SourceImage,
+  placement: ContentPlacement,
+  parameters: ProcessingParameters,
+  bleedPixels: number
+): CutPath => {
+  const { width, height } = ctx.canvas;
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const alpha = parameters.contourSource === 'background' ? null : alphaMask(img, placement, width, height);
+  const path = traceContourCut(imageData, alpha, placement, parameters, bleedPixels);
+  ctx.putImageData(imageData, 0, 0);
+  return path;
+};
+
+/**
+ * applyContourCut() on a pixel buffer. `alpha` is the mask from
+ * alphaMaskFromPixels(), or null to detect the background instead.
+ */
+export const traceContourCut = (
+  image: PixelBuffer,
+  alpha: Uint8Array | null,
+  placement: ContentPlacement,
+  parameters: ProcessingParameters,
+  bleedPixels: number
+): CutPath => {
+  const { data, width, height } = image;
+  const pxPerMm = parameters.dpi / 25.4;
+  const offsetPx = Math.max(0, parameters.contourOffset ?? DEFAULT_CONTOUR_OFFSET) * pxPerMm;
+  const reachPx = offsetPx + bleedPixels;
+
+  let mask = alpha;
+  if (!mask) {
+    if (parameters.contourSource === 'alpha') {
+      console.warn('[ContourCut] Image has no transparency, detecting the background instead');
+    }
+    mask = backgroundMask(data, width, height, placement);
+  }
+  if (!mask.some(Boolean)) {
+    throw new Error('No artwork found to trace a contour cut line around');
+  }
+
+  const { distance, nearest } = featureTransform(mask, width, height);
+
+  const cutMask = new Uint8Array(width * height);
+  const offsetSquared = offsetPx * offsetPx;
+  const reachSquared = reachPx * reachPx;
+  for (let i = 0; i < cutMask.length; i++) {
+    cutMask[i] = distance[i] <= offsetSquared ? 1 : 0;
+    if (mask[i]) continue;
+
+    const o = i * 4;
+    if (distance[i] <= reachSquared) {
+      const from = nearest[i] * 4;
+      data[o] = data[from];
+      data[o + 1] = data[from + 1];
+      data[o + 2] = data[from + 2];
+    } else {
+      data[o] = data[o + 1] = data[o + 2] = 255;
+    }
+    data[o + 3] = 255;
+  }
+
+  const outlines = traceOutlines(cutMask, width, height)
+    .map((outline) => ({ outline, area: polygonArea(outline) }))
+    // Holes run the other way round; a sticker is only cut along its outside
+    .filter(({ area }) => area > 0);
+  const largest = outlines.reduce((max, { area }) => Math.max(max, area), 0);
+
+  const trimWidth = parameters.finalDimensions.width;
+  const trimHeight = parameters.finalDimensions.height;
+  const toTrimMm = ({ x, y }: { x: number; y: number }) => ({
+    x: Math.max(0, Math.min(trimWidth, (x - bleedPixels) / pxPerMm)),
+    y: Math.max(0, Math.min(trimHeight, (y - bleedPixels) / pxPerMm)),
+  });
+
+  const path: CutPath = [];
+  for (const { outline, area } of outlines) {
+    if (area < largest * MIN_PIECE_RATIO) continue;
+    const smoothed = smoothOutline(outline, SMOOTHING_MM * pxPerMm);
+    const simplified = simplifyOutline(smoothed, SIMPLIFY_MM * pxPerMm);
+    path.push(...outlineToBezierPath(simplified, toTrimMm));
+  }
+
+  console.log(`[ContourCut] Traced ${outlines.length} outline(s) with ${offsetPx.toFixed(1)}px offset, ${path.length} path commands`);
+  return path;
+};
@@ -0,0 +1,195 @@
+import { CutPath } from "./CutPath";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Outgoing boundary edges per pixel corner, one bit per direction
+const RIGHT = 1;
+const DOWN = 2;
+const LEFT = 4;
+const UP = 8;
+
+const STEP: Record<number, [number, number]> = {
+  [RIGHT]: [1, 0],
+  [DOWN]: [0, 1],
+  [LEFT]: [-1, 0],
+  [UP]: [0, -1],
+};
+// Clockwise (on screen) turn from each direction
+const TURN_RIGHT: Record<number, number> = { [RIGHT]: DOWN, [DOWN]: LEFT, [LEFT]: UP, [UP]: RIGHT };
+
+/**
+ * Signed area of a closed polygon; positive for the outer boundaries that
+ * traceOutlines() produces, negative for holes.
+ */
+export const polygonArea = (points: Point[]): number => {
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return sum / 2;
+};
+
+/**
+ * Follows the cracks between set and unset pixels of a mask and returns every
+ * closed boundary as a list of pixel corners. Outer boundaries run clockwise
+ * on screen, holes anticlockwise. Diagonally touching pixels are kept apart.
+ */
+export const traceOutlines = (mask: Uint8Array, width: number, height: number): Point[][] => {
+  const stride = width + 1;
+  const edges = new Uint8Array(stride * (height + 1));
+  const isSet = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && mask[y * width + x] !== 0;
+
+  // Edges keep the set pixel on their right-hand side
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!mask[y * width + x]) continue;
+      if (!isSet(x, y - 1)) edges[y * stride + x] |= RIGHT;
+      if (!isSet(x + 1, y)) edges[y * stride + x + 1] |= DOWN;
+      if (!isSet(x, y + 1)) edges[(y + 1) * stride + x + 1] |= LEFT;
+      if (!isSet(x - 1, y)) edges[(y + 1) * stride + x] |= UP;
+    }
+  }
+
+  const outlines: Point[][] = [];
+  for (let start = 0; start < edges.length; start++) {
+    // A saddle corner starts two outlines
+    while (edges[start]) {
+      const points: Point[] = [];
+      let vertex = start;
+      let direction = 0;
+      do {
+        const available = edges[vertex];
+        // At a saddle, turning right keeps the two diagonal pixels in separate outlines
+        const turn = direction ? TURN_RIGHT[direction] : 0;
+        direction = turn && available & turn
+          ? turn
+          : available & direction
+            ? direction
+            : [RIGHT, DOWN, LEFT, UP].find((candidate) => available & candidate)!;
+
+        edges[vertex] &= ~direction;
+        points.push({ x: vertex % stride, y: Math.floor(vertex / stride) });
+        const [dx, dy] = STEP[direction];
+        vertex += dy * stride + dx;
+      } while (vertex !== start && edges[vertex]);
+
+      outlines.push(points);
+    }
+  }
+  return outlines;
+};
+
+/**
+ * Circular moving average over a closed outline. Removes the pixel staircase
+ * at the cost of rounding corners by about `radius` pixels.
+ */
+export const smoothOutline = (points: Point[], radius: number): Point[] => {
+  const n = points.length;
+  const r = Math.min(Math.floor(radius), Math.floor((n - 1) / 2));
+  if (r < 1) return points;
+
+  let sumX = 0;
+  let sumY = 0;
+  for (let i = -r; i <= r; i++) {
+    const p = points[(i + n) % n];
+    sumX += p.x;
+    sumY += p.y;
+  }
+
+  const window = 2 * r + 1;
+  const smoothed: Point[] = [];
+  for (let i = 0; i < n; i++) {
+    smoothed.push({ x: sumX / window, y: sumY / window });
+    const leaving = points[(i - r + n) % n];
+    const entering = points[(i + r + 1) % n];
+    sumX += entering.x - leaving.x;
+    sumY += entering.y - leaving.y;
+  }
+  return smoothed;
+};
+
+const distanceToSegment = (p: Point, a: Point, b: Point): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+const simplifyOpen = (points: Point[], tolerance: number): Point[] => {
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+  const stack: [number, number][] = [[0, points.length - 1]];
+
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let farthest = -1;
+    let maxDistance = tolerance;
+    for (let i = first + 1; i < last; i++) {
+      const distance = distanceToSegment(points[i], points[first], points[last]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        farthest = i;
+      }
+    }
+    if (farthest >= 0) {
+      keep[farthest] = 1;
+      stack.push([first, farthest], [farthest, last]);
+    }
+  }
+  return points.filter((_, i) => keep[i]);
+};
+
+/**
+ * Douglas–Peucker simplification of a closed outline, split at the point
+ * farthest from the first one.
+ */
+export const simplifyOutline = (points: Point[], tolerance: number): Point[] => {
+  if (points.length < 4) return points;
+
+  let split = 0;
+  let maxDistance = -1;
+  for (let i = 1; i < points.length; i++) {
+    const distance = Math.hypot(points[i].x - points[0].x, points[i].y - points[0].y);
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      split = i;
+    }
+  }
+
+  const firstHalf = simplifyOpen(points.slice(0, split + 1), tolerance);
+  const secondHalf = simplifyOpen([...points.slice(split), points[0]], tolerance);
+  const simplified = [...firstHalf.slice(0, -1), ...secondHalf.slice(0, -1)];
+  // Tiny outlines would collapse to a line; keep them as they are
+  return simplified.length >= 3 ? simplified : points;
+};
+
+/**
+ * Closed Catmull-Rom spline through the outline points, written as cubic
+ * Béziers. `map` converts each point (and control point) to the path's units.
+ */
+export const outlineToBezierPath = (points: Point[], map: (point: Point) => Point = (point) => point): CutPath => {
+  const n = points.length;
+  if (n < 3) return [];
+
+  const start = map(points[0]);
+  const path: CutPath = [{ op: 'M', x: start.x, y: start.y }];
+  for (let i = 0; i < n; i++) {
+    const p0 = points[(i - 1 + n) % n];
+    const p1 = points[i];
+    const p2 = points[(i + 1) % n];
+    const p3 = points[(i + 2) % n];
+    const c1 = map({ x: p1.x + (p2.x - p0.x) / 6, y: p1.y + (p2.y - p0.y) / 6 });
+    const c2 = map({ x: p2.x - (p3.x - p1.x) / 6, y: p2.y - (p3.y - p1.y) / 6 });
+    const end = map(p2);
+    path.push({ op: 'C', x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, x: end.x, y: end.y });
+  }
+  path.push({ op: 'Z' });
+  return path;
+};
@@ -0,0 +1,71 @@
+import { PDFDocument, PDFPage, PDFRef, popGraphicsState, pushGraphicsState, setGraphicsState, setLineWidth, stroke } from 'pdf-lib';
+import { PDFStandard, ProcessingParameters } from "@/types/print";
+import { PageBoxes } from "./PageBoxes";
+import { SpotColor, spotColorOperators } from "./SpotColors";
+import { beginLayer, endLayer, getLayer } from "./PDFLayers";
+import { addPageResource } from "./PDFResources";
+import { CutPath, cutPathFromParameters, cutPathToPDFOperators } from "./CutPath";
+
+export const DEFAULT_CUT_CONTOUR_NAME = 'CutContour';
+
+// Names the common cutter RIPs (Summa, Graphtec, Mimaki, Roland) look for
+export const CUT_CONTOUR_NAMES = ['CutContour', 'Thru-cut', 'CutContourKiss', 'Crease'];
+
+const CUT_LINE_WIDTH = 0.5;
+
+/**
+ * The cut ink. Its magenta alternate only matters to viewers; RIPs route the
+ * separation to the cutter by name.
+ */
+export const getCutContourColor = (parameters: ProcessingParameters): SpotColor => ({
+  name: parameters.cutContourName?.trim() || DEFAULT_CUT_CONTOUR_NAME,
+  cmyk: [0, 1, 0, 0],
+});
+
+const overprintStates = new WeakMap<PDFDocument, PDFRef>();
+
+// The cut line must not knock out the artwork under it on a press proof
+const getOverprintState = (pdfDoc: PDFDocument): PDFRef => {
+  let ref = overprintStates.get(pdfDoc);
+  if (!ref) {
+    ref = pdfDoc.context.register(pdfDoc.context.obj({ Type: 'ExtGState', OP: true, op: true, OPM: 1 }));
+    overprintStates.set(pdfDoc, ref);
+  }
+  return ref;
+};
+
+/**
+ * Strokes the cut path around the trim box in the cut spot colour, on a layer
+ * named after the ink so cutter software can find it either way. PDF/X-1a
+ * does not allow layers, so there the stroke is drawn directly. Pass `path`
+ * for cut lines traced per page, such as contours.
+ */
+export const drawCutContour = (
+  page: PDFPage,
+  boxes: PageBoxes,
+  parameters: ProcessingParameters,
+  pdfStandard?: PDFStandard,
+  path: CutPath = cutPathFromParameters(parameters)
+): void => {
+  const spot = getCutContourColor(parameters);
+  const { stroke: strokeColor } = spotColorOperators(page, spot);
+  const overprint = addPageResource(page, 'ExtGState', 'GS', getOverprintState(page.doc));
+
+  const operators = [
+    pushGraphicsState(),
+    setGraphicsState(overprint),
+    setLineWidth(CUT_LINE_WIDTH),
+    ...strokeColor,
+    ...cutPathToPDFOperators(path, boxes.trimBox),
+    stroke(),
+    popGraphicsState(),
+  ];
+
+  if (pdfStandard !== 'PDF/X-1a:2003') {
+    const layer = getLayer(page.doc, spot.name);
+    page.pushOperators(beginLayer(page, layer), ...operators, endLayer());
+  } else {
+    page.pushOperators(...operators);
+  }
+  console.log(`[CutContour] Drew ${parameters.cutLineType} cut path in spot colour "${spot.name}"`);
+};
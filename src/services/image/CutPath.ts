@@ -0,0 +1,192 @@
+import {
+  PDFOperator,
+  appendBezierCurve,
+  closePath,
+  lineTo,
+  moveTo,
+} from 'pdf-lib';
+import { CutPathCommand, DieLine, ProcessingParameters } from "@/types/print";
+import { PDFBox } from "./PageBoxes";
+import { mmToPoints } from "./utils";
+
+export type CutPath = CutPathCommand[];
+
+// Control point distance for a quarter ellipse drawn with one cubic Bézier
+const KAPPA = 0.5523;
+
+export const rectanglePath = (x: number, y: number, width: number, height: number): CutPath => [
+  { op: 'M', x, y },
+  { op: 'L', x: x + width, y },
+  { op: 'L', x: x + width, y: y + height },
+  { op: 'L', x, y: y + height },
+  { op: 'Z' },
+];
+
+export const ellipsePath = (cx: number, cy: number, rx: number, ry: number): CutPath => {
+  const kx = KAPPA * rx;
+  const ky = KAPPA * ry;
+  return [
+    { op: 'M', x: cx + rx, y: cy },
+    { op: 'C', x1: cx + rx, y1: cy + ky, x2: cx + kx, y2: cy + ry, x: cx, y: cy + ry },
+    { op: 'C', x1: cx - kx, y1: cy + ry, x2: cx - rx, y2: cy + ky, x: cx - rx, y: cy },
+    { op: 'C', x1: cx - rx, y1: cy - ky, x2: cx - kx, y2: cy - ry, x: cx, y: cy - ry },
+    { op: 'C', x1: cx + kx, y1: cy - ry, x2: cx + rx, y2: cy - ky, x: cx + rx, y: cy },
+    { op: 'Z' },
+  ];
+};
+
+export const roundedRectanglePath = (
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  radius: number
+): CutPath => {
+  const r = Math.max(0, Math.min(radius, width / 2, height / 2));
+  if (r === 0) return rectanglePath(x, y, width, height);
+
+  const k = KAPPA * r;
+  const right = x + width;
+  const bottom = y + height;
+  return [
+    { op: 'M', x: x + r, y },
+    { op: 'L', x: right - r, y },
+    { op: 'C', x1: right - r + k, y1: y, x2: right, y2: y + r - k, x: right, y: y + r },
+    { op: 'L', x: right, y: bottom - r },
+    { op: 'C', x1: right, y1: bottom - r + k, x2: right - r + k, y2: bottom, x: right - r, y: bottom },
+    { op: 'L', x: x + r, y: bottom },
+    { op: 'C', x1: x + r - k, y1: bottom, x2: x, y2: bottom - r + k, x, y: bottom - r },
+    { op: 'L', x, y: y + r },
+    { op: 'C', x1: x, y1: y + r - k, x2: x + r - k, y2: y, x: x + r, y },
+    { op: 'Z' },
+  ];
+};
+
+/**
+ * Applies x' = a·x + c·y + e, y' = b·x + d·y + f to every point. Affine maps
+ * keep Bézier segments exact, so curves only need their control points moved.
+ */
+export const transformPath = (
+  path: CutPath,
+  [a, b, c, d, e, f]: [number, number, number, number, number, number]
+): CutPath => {
+  const tx = (x: number, y: number) => a * x + c * y + e;
+  const ty = (x: number, y: number) => b * x + d * y + f;
+  return path.map((command) => {
+    switch (command.op) {
+      case 'M':
+      case 'L':
+        return { op: command.op, x: tx(command.x, command.y), y: ty(command.x, command.y) };
+      case 'C':
+        return {
+          op: 'C',
+          x1: tx(command.x1, command.y1), y1: ty(command.x1, command.y1),
+          x2: tx(command.x2, command.y2), y2: ty(command.x2, command.y2),
+          x: tx(command.x, command.y), y: ty(command.x, command.y),
+        };
+      case 'Z':
+        return command;
+    }
+  });
+};
+
+/**
+ * Scales an uploaded die-line to fit the trim, keeping its proportions, and
+ * centres it.
+ */
+export const fitDieLine = (dieLine: DieLine, width: number, height: number): CutPath => {
+  const { bounds } = dieLine;
+  const scale = Math.min(width / bounds.width, height / bounds.height);
+  const offsetX = (width - bounds.width * scale) / 2 - bounds.x * scale;
+  const offsetY = (height - bounds.height * scale) / 2 - bounds.y * scale;
+
+  const sourceRatio = bounds.width / bounds.height;
+  if (Math.abs(sourceRatio - width / height) / sourceRatio > 0.01) {
+    console.warn(
+      `[CutPath] Die-line "${dieLine.name}" is ${sourceRatio.toFixed(3)}:1 but the trim is ` +
+      `${(width / height).toFixed(3)}:1; it is centred without stretching`
+    );
+  }
+  return transformPath(dieLine.path, [scale, 0, 0, scale, offsetX, offsetY]);
+};
+
+/**
+ * The cut path for the selected cut line type, in trim coordinates.
+ */
+export const cutPathFromParameters = (parameters: ProcessingParameters): CutPath => {
+  const { width, height } = parameters.finalDimensions;
+  switch (parameters.cutLineType) {
+    case 'circle': {
+      const radius = Math.min(width, height) / 2;
+      return ellipsePath(width / 2, height / 2, radius, radius);
+    }
+    case 'ellipse':
+      return ellipsePath(width / 2, height / 2, width / 2, height / 2);
+    case 'rounded':
+      return roundedRectanglePath(0, 0, width, height, parameters.cornerRadius ?? 0);
+    case 'custom':
+      if (parameters.customDieLine) {
+        return fitDieLine(parameters.customDieLine, width, height);
+      }
+      console.warn('[CutPath] Custom cut line selected without a die-line, using the trim rectangle');
+      return rectanglePath(0, 0, width, height);
+    case 'contour':
+      // The contour is traced per page during processing and passed along with the result
+      console.warn('[CutPath] No traced contour available, using the trim rectangle');
+      return rectanglePath(0, 0, width, height);
+    default:
+      return rectanglePath(0, 0, width, height);
+  }
+};
+
+/**
+ * True when the cut follows the trim rectangle, so the bleed stays a plain
+ * band around it.
+ */
+export const isRectangularCut = (parameters: ProcessingParameters): boolean =>
+  parameters.cutLineType === 'rectangle' ||
+  (parameters.cutLineType === 'rounded' && !parameters.cornerRadius) ||
+  (parameters.cutLineType === 'custom' && !parameters.customDieLine);
+
+/**
+ * Path construction operators placing the cut path on the trim box of a PDF
+ * page (points, y pointing up). The caller strokes or fills it.
+ */
+export const cutPathToPDFOperators = (path: CutPath, trimBox: PDFBox): PDFOperator[] => {
+  const px = (x: number) => trimBox.x + mmToPoints(x);
+  const py = (y: number) => trimBox.y + trimBox.height - mmToPoints(y);
+
+  return path.map((command) => {
+    switch (command.op) {
+      case 'M':
+        return moveTo(px(command.x), py(command.y));
+      case 'L':
+        return lineTo(px(command.x), py(command.y));
+      case 'C':
+        return appendBezierCurve(
+          px(command.x1), py(command.y1),
+          px(command.x2), py(command.y2),
+          px(command.x), py(command.y)
+        );
+      case 'Z':
+        return closePath();
+    }
+  });
+};
+
+/**
+ * SVG path data for the cut path, shifted by `offset` mm (e.g. the bleed, to
+ * draw it over the processed raster).
+ */
+export const cutPathToSVG = (path: CutPath, offset = 0): string =>
+  path.map((command) => {
+    switch (command.op) {
+      case 'M':
+      case 'L':
+        return `${command.op}${command.x + offset} ${command.y + offset}`;
+      case 'C':
+        return `C${command.x1 + offset} ${command.y1 + offset} ${command.x2 + offset} ${command.y2 + offset} ${command.x + offset} ${command.y + offset}`;
+      case 'Z':
+        return 'Z';
+    }
+  }).join(' ');
@@ -0,0 +1,57 @@
+import { ProcessingParameters } from "@/types/print";
+import { ProcessingContext2D } from "./types";
+import { cutPathFromParameters, cutPathToSVG, isRectangularCut } from "./CutPath";
+import { createCanvas, getContext2D } from "./utils";
+
+/**
+ * Limits the bleed to the die-line grown by the bleed margin, instead of the
+ * rectangle around the trim. Everything further out is set to paper white so
+ * nothing prints past the shape's bleed.
+ *
+ * Filling and stroking the die-line with a round-joined line twice the bleed
+ * wide covers exactly the points within `bleedMargin` of the shape.
+ *
+ * For tiles of a large job, `origin` is where the canvas sits on the page.
+ */
+export const applyDieLineBleed = (
+  ctx: ProcessingContext2D,
+  parameters: ProcessingParameters,
+  bleedPixels: number,
+  origin: { x: number; y: number } = { x: 0, y: 0 }
+): void => {
+  // Contour cuts grow their bleed from the artwork while tracing
+  if (isRectangularCut(parameters) || parameters.cutLineType === 'contour') return;
+
+  const { width, height } = ctx.canvas;
+  const pxPerMm = parameters.dpi / 25.4;
+  const shape = new Path2D(cutPathToSVG(cutPathFromParameters(parameters)));
+
+  const maskCanvas = createCanvas(width, height);
+  const maskCtx = getContext2D(maskCanvas);
+  if (!maskCtx) {
+    throw new Error('Failed to get die-line mask canvas context');
+  }
+
+  maskCtx.setTransform(pxPerMm, 0, 0, pxPerMm, bleedPixels - origin.x, bleedPixels - origin.y);
+  maskCtx.fillStyle = '#000';
+  maskCtx.strokeStyle = '#000';
+  maskCtx.lineJoin = 'round';
+  maskCtx.lineWidth = parameters.bleedMargin * 2;
+  maskCtx.fill(shape);
+  if (parameters.bleedMargin > 0) {
+    maskCtx.stroke(shape);
+  }
+
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.drawImage(maskCanvas, 0, 0);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, width, height);
+  ctx.restore();
+
+  maskCanvas.width = 0;
+  maskCanvas.height = 0;
+  console.log(`[DieLineBleed] Bleed limited to ${parameters.bleedMargin}mm around the ${parameters.cutLineType} die-line`);
+};
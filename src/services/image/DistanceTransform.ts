@@ -0,0 +1,104 @@
+/**
+ * Exact Euclidean distance and feature transform (Felzenszwalb & Huttenlocher),
+ * linear in the number of pixels: one pass down every column, then one along
+ * every row, each taking the lower envelope of parabolas.
+ */
+export interface FeatureTransform {
+  /** Squared distance in pixels to the nearest feature pixel */
+  distance: Float32Array;
+  /** Index (y * width + x) of that nearest feature pixel, -1 when there are none */
+  nearest: Int32Array;
+}
+
+/**
+ * One-dimensional pass over `f` (Infinity where there is no feature yet).
+ * Writes the squared distance and the index of the winning sample.
+ */
+const transformLine = (
+  f: Float64Array,
+  n: number,
+  out: Float64Array,
+  arg: Int32Array,
+  v: Int32Array,
+  z: Float64Array
+): void => {
+  let k = -1;
+  for (let q = 0; q < n; q++) {
+    if (f[q] === Infinity) continue;
+    if (k < 0) {
+      k = 0;
+      v[0] = q;
+      z[0] = -Infinity;
+      z[1] = Infinity;
+      continue;
+    }
+    let s = (f[q] + q * q - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    while (s <= z[k]) {
+      k--;
+      s = (f[q] + q * q - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    }
+    k++;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = Infinity;
+  }
+
+  if (k < 0) {
+    out.fill(Infinity, 0, n);
+    arg.fill(-1, 0, n);
+    return;
+  }
+
+  let j = 0;
+  for (let q = 0; q < n; q++) {
+    while (z[j + 1] < q) j++;
+    const d = q - v[j];
+    out[q] = d * d + f[v[j]];
+    arg[q] = v[j];
+  }
+};
+
+/**
+ * Distance from every pixel to the nearest pixel where `mask` is non-zero,
+ * together with which pixel that is.
+ */
+export const featureTransform = (mask: Uint8Array, width: number, height: number): FeatureTransform => {
+  const size = width * height;
+  const distance = new Float32Array(size);
+  const nearest = new Int32Array(size);
+  // Row of the nearest feature found by the column pass
+  const nearestRow = new Int32Array(size);
+
+  const longest = Math.max(width, height);
+  const f = new Float64Array(longest);
+  const out = new Float64Array(longest);
+  const arg = new Int32Array(longest);
+  const v = new Int32Array(longest);
+  const z = new Float64Array(longest + 1);
+
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      f[y] = mask[y * width + x] ? 0 : Infinity;
+    }
+    transformLine(f, height, out, arg, v, z);
+    for (let y = 0; y < height; y++) {
+      distance[y * width + x] = out[y];
+      nearestRow[y * width + x] = arg[y];
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      f[x] = distance[row + x];
+    }
+    transformLine(f, width, out, arg, v, z);
+    for (let x = 0; x < width; x++) {
+      distance[row + x] = out[x];
+      const column = arg[x];
+      nearest[row + x] = column < 0 ? -1 : nearestRow[row + column] * width + column;
+    }
+  }
+
+  return { distance, nearest };
+};
@@ -0,0 +1,183 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFPageProxy } from 'pdfjs-dist';
+import { ProcessingParameters, UploadedFile } from "@/types/print";
+import { fitContent } from "./ContentFit";
+import { CanvasManager } from "./CanvasManager";
+import { ImageRenderer } from "./ImageRenderer";
+import { PDFProcessor } from "./PDFProcessor";
+
+// Below this the output looks visibly pixelated at normal reading distance
+export const MIN_EFFECTIVE_PPI = 100;
+
+// Within this share of the output DPI the difference does not show
+const TARGET_PPI_TOLERANCE = 0.9;
+
+// Pages of long PDFs past this are not inspected
+const MAX_CHECKED_PAGES = 50;
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+// `m` applied first, then `ctm`, as PDF concatenates matrices
+const multiply = (m: Matrix, ctm: Matrix): Matrix => [
+  m[0] * ctm[0] + m[1] * ctm[2],
+  m[0] * ctm[1] + m[1] * ctm[3],
+  m[2] * ctm[0] + m[3] * ctm[2],
+  m[2] * ctm[1] + m[3] * ctm[3],
+  m[4] * ctm[0] + m[5] * ctm[2] + ctm[4],
+  m[4] * ctm[1] + m[5] * ctm[3] + ctm[5],
+];
+
+export interface ImageResolution {
+  /** 1-based page of a PDF; absent for image files */
+  pageNumber?: number;
+  /** Position of the image among the page's images, from 1 */
+  imageNumber?: number;
+  pixelWidth: number;
+  pixelHeight: number;
+  /** Printed size in mm on the trim */
+  width: number;
+  height: number;
+  /** Pixels per inch in print, the lower of the two axes */
+  ppi: number;
+}
+
+interface PlacedImage {
+  pixelWidth: number;
+  pixelHeight: number;
+  /** Drawn size in points; an image fills the unit square of the CTM */
+  width: number;
+  height: number;
+}
+
+export const effectivePPI = (pixelWidth: number, pixelHeight: number, widthMm: number, heightMm: number): number =>
+  Math.min(pixelWidth / (widthMm / 25.4), pixelHeight / (heightMm / 25.4));
+
+/**
+ * Whether an effective resolution is a problem for output at `dpi`.
+ */
+export const resolutionIssueType = (ppi: number, dpi: number): 'error' | 'warning' | null => {
+  if (ppi < MIN_EFFECTIVE_PPI) return 'error';
+  if (ppi < dpi * TARGET_PPI_TOLERANCE) return 'warning';
+  return null;
+};
+
+/**
+ * Raster images a page draws, found by following the transformation matrix
+ * through the page's operator list. Stencil masks and repeated tiles are
+ * skipped; they carry no pixel size here.
+ */
+const findPlacedImages = async (page: PDFPageProxy): Promise<PlacedImage[]> => {
+  const { fnArray, argsArray } = await page.getOperatorList();
+  const { OPS } = pdfjsLib;
+  const images: PlacedImage[] = [];
+  const stack: Matrix[] = [];
+  let ctm = IDENTITY;
+
+  const place = (pixelWidth: number, pixelHeight: number) => {
+    images.push({
+      pixelWidth,
+      pixelHeight,
+      width: Math.hypot(ctm[0], ctm[1]),
+      height: Math.hypot(ctm[2], ctm[3]),
+    });
+  };
+
+  for (let i = 0; i < fnArray.length; i++) {
+    const args = argsArray[i];
+    switch (fnArray[i]) {
+      case OPS.save:
+        stack.push(ctm);
+        break;
+      case OPS.restore:
+        ctm = stack.pop() ?? IDENTITY;
+        break;
+      case OPS.transform:
+        ctm = multiply(args as Matrix, ctm);
+        break;
+      case OPS.paintFormXObjectBegin:
+        stack.push(ctm);
+        if (args[0]) ctm = multiply(args[0] as Matrix, ctm);
+        break;
+      case OPS.paintFormXObjectEnd:
+        ctm = stack.pop() ?? IDENTITY;
+        break;
+      case OPS.paintImageXObject:
+        place(args[1], args[2]);
+        break;
+      case OPS.paintInlineImageXObject:
+        place(args[0].width, args[0].height);
+        break;
+    }
+  }
+  return images;
+};
+
+/**
+ * Effective resolution of every raster image in the output: the source's
+ * pixels against the size they print at on the trim, after fitting. Vector
+ * PDFs without images return an empty list.
+ */
+export const measureEffectiveResolution = async (
+  file: UploadedFile,
+  parameters: ProcessingParameters
+): Promise<ImageResolution[]> => {
+  const trim = parameters.finalDimensions;
+
+  if (file.type !== 'pdf') {
+    let size = file.dimensions;
+    if (!size) {
+      const bitmap = await createImageBitmap(file.file);
+      size = { width: bitmap.width, height: bitmap.height };
+      bitmap.close();
+    }
+    const fit = fitContent(size, trim, parameters, 1, 25.4 / parameters.dpi);
+    return [{
+      pixelWidth: size.width,
+      pixelHeight: size.height,
+      width: fit.width,
+      height: fit.height,
+      ppi: effectivePPI(size.width, size.height, fit.width, fit.height),
+    }];
+  }
+
+  const canvasManager = new CanvasManager();
+  const pdfProcessor = new PDFProcessor(new ImageRenderer(canvasManager.getCanvasContext()));
+  const results: ImageResolution[] = [];
+  try {
+    const pageCount = Math.min(file.pages ?? 1, MAX_CHECKED_PAGES);
+    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+      const page = await pdfProcessor.getPage(file, pageNumber);
+      const [x0, y0, x1, y1] = page.view;
+      const sideways = page.rotate % 180 !== 0;
+      const display = sideways
+        ? { width: y1 - y0, height: x1 - x0 }
+        : { width: x1 - x0, height: y1 - y0 };
+      const fit = fitContent(display, trim, parameters, 1, 25.4 / 72);
+      // Stretching scales the axes differently; take the larger so nothing is overstated
+      const mmPerPoint = Math.max(fit.width / display.width, fit.height / display.height);
+
+      const images = await findPlacedImages(page);
+      images.forEach((image, index) => {
+        const width = image.width * mmPerPoint;
+        const height = image.height * mmPerPoint;
+        results.push({
+          pageNumber,
+          imageNumber: index + 1,
+          pixelWidth: image.pixelWidth,
+          pixelHeight: image.pixelHeight,
+          width,
+          height,
+          ppi: effectivePPI(image.pixelWidth, image.pixelHeight, width, height),
+        });
+      });
+    }
+  } finally {
+    pdfProcessor.destroy();
+    canvasManager.destroy();
+  }
+
+  console.log(`[EffectiveResolution] Measured ${results.length} raster image(s) in ${file.file.name}`);
+  return results;
+};
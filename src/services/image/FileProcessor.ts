@@ -30,13 +30,17 @@ export class FileProcessor {
     });
   }
 
-  async processFile(file: UploadedFile, parameters: ProcessingParameters): Promise<HTMLImageElement> {
+  async processFile(
+    file: UploadedFile,
+    parameters: ProcessingParameters,
+    pageNumber: number = 1
+  ): Promise<HTMLImageElement> {
     console.log('File info:', { name: file.file.name, type: file.type, size: file.file.size });
     
     if (file.type === 'pdf') {
       console.log('Converting PDF to highest quality PNG');
       try {
-        const img = await this.pdfProcessor.processPDF(file, parameters);
+        const img = await this.pdfProcessor.processPDF(file, parameters, pageNumber);
         console.log('PDF converted successfully to PNG');
         return img;
       } catch (error) {
@@ -52,4 +56,10 @@ export class FileProcessor {
       return this.loadImageFile(file);
     }
   }
+
+  /** Releases the PDF kept for rendering further pages */
+  destroy(): void {
+    this.pdfProcessor.destroy();
+  }
+
 }
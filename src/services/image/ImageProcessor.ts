@@ -1,32 +1,34 @@
-
 import { ProcessingParameters, UploadedFile } from "@/types/print";
-import { ProcessingResult } from "./types";
+import { ProcessingResult, PageProgress, ProgressCallback } from "./types";
 import { CancellationToken } from "./CancellationToken";
 import { CanvasManager } from "./CanvasManager";
 import { FileProcessor } from "./FileProcessor";
 import { ProcessingWorkflow } from "./ProcessingWorkflow";
 import { ImageRenderer } from "./ImageRenderer";
+import { PDF_RENDER_DPI } from "./PDFProcessor";
+import { mapPageProgress } from "./utils";
 
 export class ImageProcessor {
   private canvasManager: CanvasManager;
   private fileProcessor: FileProcessor;
   private processingWorkflow: ProcessingWorkflow;
   private cancellationToken: CancellationToken;
-  private onProgressUpdate?: (step: string, progress?: number) => void;
+  private onProgressUpdate?: ProgressCallback;
+  private currentPage?: PageProgress;
 
-  constructor(onProgressUpdate?: (step: string, progress?: number) => void) {
+  constructor(onProgressUpdate?: ProgressCallback) {
     this.onProgressUpdate = onProgressUpdate;
     this.cancellationToken = new CancellationToken();
     this.canvasManager = new CanvasManager();
 
     const canvasContext = this.canvasManager.getCanvasContext();
     const imageRenderer = new ImageRenderer(canvasContext);
-    
+
     this.fileProcessor = new FileProcessor(imageRenderer);
     this.processingWorkflow = new ProcessingWorkflow(
       canvasContext,
       this.cancellationToken,
-      onProgressUpdate
+      (step, progress) => this.updateProgress(step, progress)
     );
   }
 
@@ -35,31 +37,71 @@ export class ImageProcessor {
     this.cancellationToken.cancel(reason);
   }
 
+  /**
+   * Reports progress; while a multi-page job runs, the step is prefixed with
+   * the page and the percentage is mapped onto the whole job.
+   */
   private updateProgress(step: string, progress?: number) {
-    console.log(`[New Workflow] ${step}${progress !== undefined ? ` (${progress.toFixed(1)}%)` : ''}`);
+    const page = this.currentPage;
+    const { label, overall } = mapPageProgress(step, progress, page);
+
+    console.log(`[New Workflow] ${label}${overall !== undefined ? ` (${overall.toFixed(1)}%)` : ''}`);
     if (this.onProgressUpdate) {
-      this.onProgressUpdate(step, progress);
+      this.onProgressUpdate(label, overall, page);
     }
   }
 
-  async processFile(file: UploadedFile, parameters: ProcessingParameters): Promise<ProcessingResult> {
+  async processFile(
+    file: UploadedFile,
+    parameters: ProcessingParameters,
+    pageNumber: number = 1
+  ): Promise<ProcessingResult> {
     console.log('=== NEW WORKFLOW PROCESSING START ===');
     console.log('Processing with new workflow. Parameters:', parameters);
-    
+
     this.cancellationToken.throwIfCancelled();
-    
+
     // Step 1: Convert file to image (PDF → PNG, or use image as-is)
-    this.updateProgress('Converting PDF to high-quality PNG', 10);
-    const img = await this.fileProcessor.processFile(file, parameters);
+    this.updateProgress(file.type === 'pdf' ? 'Converting PDF to high-quality PNG' : 'Loading image', 10);
+    const img = await this.fileProcessor.processFile(file, parameters, pageNumber);
 
     this.cancellationToken.throwIfCancelled();
 
     // Step 2: Process the image through the streamlined workflow
-    return this.processingWorkflow.processImageWithNewWorkflow(img, parameters);
+    const sourceResolution = file.type === 'pdf' ? PDF_RENDER_DPI : undefined;
+    const result = await this.processingWorkflow.processImageWithNewWorkflow(img, parameters, sourceResolution);
+    return { ...result, pageNumber };
+  }
+
+  /**
+   * Runs every requested page through the workflow, one after another, so
+   * only a single page is held on the canvas at any time.
+   */
+  async processPages(
+    file: UploadedFile,
+    parameters: ProcessingParameters,
+    pageNumbers: number[]
+  ): Promise<ProcessingResult[]> {
+    const pages = file.type === 'pdf' && pageNumbers.length > 0 ? pageNumbers : [1];
+    const results: ProcessingResult[] = [];
+
+    try {
+      for (let index = 0; index < pages.length; index++) {
+        this.cancellationToken.throwIfCancelled();
+        this.currentPage = { current: index + 1, total: pages.length, pageNumber: pages[index] };
+        results.push(await this.processFile(file, parameters, pages[index]));
+      }
+    } finally {
+      this.currentPage = undefined;
+    }
+
+    console.log(`[ImageProcessor] Processed ${results.length} page(s)`);
+    return results;
   }
 
   destroy() {
     this.cancel('Processor destroyed');
+    this.fileProcessor.destroy();
     this.canvasManager.destroy();
   }
 }
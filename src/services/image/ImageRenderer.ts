@@ -1,9 +1,12 @@
 
-import { CanvasContext } from "./types";
+import { ProcessingParameters } from "@/types/print";
+import { CanvasContext, ContentPlacement, ProcessingCanvas, ProcessingContext2D, SourceImage } from "./types";
+import { placeContent, visibleSourceRegion } from "./ContentFit";
+import { MIN_UPSCALE_FACTOR, upscaleImage } from "./Upscaler";
 
 export class ImageRenderer {
-  private canvas: HTMLCanvasElement;
-  private ctx: CanvasRenderingContext2D;
+  private canvas: ProcessingCanvas;
+  private ctx: ProcessingContext2D;
 
   constructor({ canvas, ctx }: CanvasContext) {
     this.canvas = canvas;
@@ -21,29 +24,22 @@ export class ImageRenderer {
   }
 
   async resizeAndPositionContent(
-    img: HTMLImageElement,
+    img: SourceImage,
     finalWidth: number,
     finalHeight: number,
-    bleedPixels: number
-  ): Promise<void> {
+    bleedPixels: number,
+    parameters: ProcessingParameters,
+    sourceResolution?: number
+  ): Promise<ContentPlacement> {
     console.log('=== CONTENT POSITIONING START ===');
     console.log('Resizing and positioning content');
     console.log(`Input image: ${img.width}x${img.height}`);
     console.log(`Target area: ${finalWidth}x${finalHeight} with ${bleedPixels}px bleed`);
     
-    // Calculate scaling to fit within final dimensions while maintaining aspect ratio
-    const scaleX = finalWidth / img.width;
-    const scaleY = finalHeight / img.height;
-    const scale = Math.min(scaleX, scaleY);
+    const placement = placeContent(img.width, img.height, finalWidth, finalHeight, bleedPixels, parameters, sourceResolution);
+    const { x, y, width: scaledWidth, height: scaledHeight } = placement;
     
-    const scaledWidth = img.width * scale;
-    const scaledHeight = img.height * scale;
-    
-    // Center the content within the final dimensions
-    const x = bleedPixels + (finalWidth - scaledWidth) / 2;
-    const y = bleedPixels + (finalHeight - scaledHeight) / 2;
-    
-    console.log(`Scaled dimensions: ${scaledWidth.toFixed(1)}x${scaledHeight.toFixed(1)} (scale: ${scale.toFixed(3)})`);
+    console.log(`Scaled dimensions: ${scaledWidth.toFixed(1)}x${scaledHeight.toFixed(1)} (scale: ${(scaledWidth / img.width).toFixed(3)})`);
     console.log(`Position: (${x.toFixed(1)}, ${y.toFixed(1)})`);
     
     // Set high quality scaling
@@ -56,8 +52,17 @@ export class ImageRenderer {
     this.ctx.fillRect(x, y, scaledWidth, scaledHeight);
     this.ctx.restore();
     
-    // Draw the image
-    this.ctx.drawImage(img, x, y, scaledWidth, scaledHeight);
+    // Draw the image; when upscaling, only the part that lands on the canvas is enlarged
+    const visible = visibleSourceRegion(img.width, img.height, placement, this.canvas.width, this.canvas.height);
+    if (parameters.upscaleSource && visible && scaledWidth > img.width * MIN_UPSCALE_FACTOR) {
+      const { source, target } = visible;
+      const upscaled = upscaleImage(img, Math.round(target.width), Math.round(target.height), source);
+      this.ctx.drawImage(upscaled, target.x, target.y, target.width, target.height);
+      upscaled.width = 0;
+      upscaled.height = 0;
+    } else {
+      this.ctx.drawImage(img, x, y, scaledWidth, scaledHeight);
+    }
     console.log('Content drawn to canvas successfully');
     
     // Verify the image was actually drawn
@@ -66,6 +71,7 @@ export class ImageRenderer {
     console.log('Content verification - image data present:', hasContent);
     
     console.log('=== CONTENT POSITIONING END ===');
+    return placement;
   }
 
   private checkPixelData(imageData: ImageData): boolean {
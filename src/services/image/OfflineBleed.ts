@@ -0,0 +1,307 @@
+import { BleedMethod } from "@/types/print";
+import { PixelBuffer, PixelRect, ProcessingContext2D } from "./types";
+import { BleedFallbackFiller } from "./BleedFallbackFiller";
+
+// Blur radius added per pixel of distance from the trim when smearing
+const SMEAR_BLUR_RAMP = 0.6;
+const PATCH_RADIUS = 2;
+const SYNTHESIS_ITERATIONS = 3;
+// Random search samples per pixel and iteration, halving the window each time
+const SEARCH_SAMPLES = 6;
+// Source patches are taken from this many bleed widths inside the trim
+const SOURCE_DEPTH = 4;
+
+/**
+ * Calls `visit` for every pixel outside the content rectangle, row by row.
+ */
+const forEachBleedPixel = (
+  { width, height }: PixelBuffer,
+  content: PixelRect,
+  visit: (x: number, y: number) => void,
+  reverse = false
+): void => {
+  const right = content.x + content.width;
+  const bottom = content.y + content.height;
+  for (let row = 0; row < height; row++) {
+    const y = reverse ? height - 1 - row : row;
+    const inside = y >= content.y && y < bottom;
+    for (let column = 0; column < width; column++) {
+      const x = reverse ? width - 1 - column : column;
+      if (inside && x >= content.x && x < right) continue;
+      visit(x, y);
+    }
+  }
+};
+
+/**
+ * Reflects a coordinate back into [start, start + size) without repeating the
+ * edge pixel, bouncing again when the bleed is wider than the content.
+ */
+const reflect = (value: number, start: number, size: number): number => {
+  if (size <= 1) return start;
+  const period = size * 2;
+  let offset = (value - start) % period;
+  if (offset < 0) offset += period;
+  return start + (offset < size ? offset : period - 1 - offset);
+};
+
+const copyPixel = (data: Uint8ClampedArray, to: number, from: number): void => {
+  data[to * 4] = data[from * 4];
+  data[to * 4 + 1] = data[from * 4 + 1];
+  data[to * 4 + 2] = data[from * 4 + 2];
+  data[to * 4 + 3] = 255;
+};
+
+/**
+ * Mirrors the content across each trim edge (and both edges in the corners).
+ */
+export const mirrorBleed = (image: PixelBuffer, content: PixelRect): void => {
+  const { data, width } = image;
+  forEachBleedPixel(image, content, (x, y) => {
+    const sourceX = reflect(x, content.x, content.width);
+    const sourceY = reflect(y, content.y, content.height);
+    copyPixel(data, y * width + x, sourceY * width + sourceX);
+  });
+};
+
+/**
+ * Running sums of one row or column of the content edge, so any box average
+ * along the edge costs two lookups.
+ */
+const edgePrefixSums = (
+  { data }: PixelBuffer,
+  count: number,
+  pixelAt: (i: number) => number
+): Float64Array => {
+  const sums = new Float64Array((count + 1) * 3);
+  for (let i = 0; i < count; i++) {
+    const p = pixelAt(i) * 4;
+    sums[(i + 1) * 3] = sums[i * 3] + data[p];
+    sums[(i + 1) * 3 + 1] = sums[i * 3 + 1] + data[p + 1];
+    sums[(i + 1) * 3 + 2] = sums[i * 3 + 2] + data[p + 2];
+  }
+  return sums;
+};
+
+const boxAverage = (sums: Float64Array, count: number, centre: number, radius: number, out: number[], weight: number): void => {
+  const from = Math.max(0, Math.round(centre - radius));
+  const to = Math.min(count - 1, Math.round(centre + radius));
+  const n = to - from + 1;
+  for (let c = 0; c < 3; c++) {
+    out[c] += (weight * (sums[(to + 1) * 3 + c] - sums[from * 3 + c])) / n;
+  }
+};
+
+/**
+ * Stretches the outermost content pixels outwards and blurs them along the
+ * edge, more the further they are from the trim, so streaks fade into a
+ * soft gradient. Corners blend the two neighbouring edges.
+ */
+export const smearBleed = (image: PixelBuffer, content: PixelRect): void => {
+  const { data, width } = image;
+  const right = content.x + content.width - 1;
+  const bottom = content.y + content.height - 1;
+  const edges = {
+    top: edgePrefixSums(image, content.width, (i) => content.y * width + content.x + i),
+    bottom: edgePrefixSums(image, content.width, (i) => bottom * width + content.x + i),
+    left: edgePrefixSums(image, content.height, (i) => (content.y + i) * width + content.x),
+    right: edgePrefixSums(image, content.height, (i) => (content.y + i) * width + right),
+  };
+
+  const colour = [0, 0, 0];
+  forEachBleedPixel(image, content, (x, y) => {
+    const dx = x < content.x ? content.x - x : x > right ? x - right : 0;
+    const dy = y < content.y ? content.y - y : y > bottom ? y - bottom : 0;
+    const along = Math.min(Math.max(x, content.x), right) - content.x;
+    const across = Math.min(Math.max(y, content.y), bottom) - content.y;
+    const radius = Math.max(dx, dy) * SMEAR_BLUR_RAMP;
+    colour[0] = colour[1] = colour[2] = 0;
+
+    const horizontal = dy > 0 ? (y < content.y ? edges.top : edges.bottom) : null;
+    const vertical = dx > 0 ? (x < content.x ? edges.left : edges.right) : null;
+    const weight = horizontal && vertical ? 0.5 : 1;
+    if (horizontal) boxAverage(horizontal, content.width, along, radius, colour, weight);
+    if (vertical) boxAverage(vertical, content.height, across, radius, colour, weight);
+
+    const o = (y * width + x) * 4;
+    data[o] = colour[0];
+    data[o + 1] = colour[1];
+    data[o + 2] = colour[2];
+    data[o + 3] = 255;
+  });
+};
+
+/**
+ * Small seeded generator so the same input always gives the same bleed.
+ */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0 || 1;
+  return () => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return (state >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * PatchMatch-style texture synthesis. Every bleed pixel keeps a source pixel
+ * inside the content whose surrounding patch best matches its own; matches
+ * improve by propagation from neighbours and random search, and the bleed
+ * takes the colours of its sources. Starting from the mirrored bleed gives
+ * the search a coherent first guess.
+ */
+export const synthesizeBleed = (image: PixelBuffer, content: PixelRect, bleedWidth: number): void => {
+  const { data, width } = image;
+  const r = PATCH_RADIUS;
+  if (content.width <= r * 2 + 1 || content.height <= r * 2 + 1) {
+    console.warn('[OfflineBleed] Content too small for patch synthesis, mirroring instead');
+    mirrorBleed(image, content);
+    return;
+  }
+
+  mirrorBleed(image, content);
+
+  // Source centres keep their whole patch inside the content
+  const minX = content.x + r;
+  const maxX = content.x + content.width - 1 - r;
+  const minY = content.y + r;
+  const maxY = content.y + content.height - 1 - r;
+  const depth = Math.max(r * 4, bleedWidth * SOURCE_DEPTH);
+  const clampSourceX = (x: number) => Math.min(maxX, Math.max(minX, x));
+  const clampSourceY = (y: number) => Math.min(maxY, Math.max(minY, y));
+
+  const distance = (tx: number, ty: number, sx: number, sy: number, limit: number): number => {
+    let sum = 0;
+    for (let py = -r; py <= r; py++) {
+      const y = ty + py;
+      if (y < 0 || y >= image.height) continue;
+      for (let px = -r; px <= r; px++) {
+        const x = tx + px;
+        if (x < 0 || x >= width) continue;
+        const t = (y * width + x) * 4;
+        const s = ((sy + py) * width + sx + px) * 4;
+        const dr = data[t] - data[s];
+        const dg = data[t + 1] - data[s + 1];
+        const db = data[t + 2] - data[s + 2];
+        sum += dr * dr + dg * dg + db * db;
+      }
+      if (sum >= limit) return sum;
+    }
+    return sum;
+  };
+
+  const random = createRandom(width * 73856093 ^ image.height * 19349663);
+  const source = new Int32Array(width * image.height).fill(-1);
+  const cost = new Float64Array(width * image.height);
+
+  // First guess: the mirrored position, already painted by mirrorBleed()
+  forEachBleedPixel(image, content, (x, y) => {
+    const sx = clampSourceX(reflect(x, content.x, content.width));
+    const sy = clampSourceY(reflect(y, content.y, content.height));
+    const i = y * width + x;
+    source[i] = sy * width + sx;
+    cost[i] = distance(x, y, sx, sy, Infinity);
+  });
+
+  for (let iteration = 0; iteration < SYNTHESIS_ITERATIONS; iteration++) {
+    const reverse = iteration % 2 === 1;
+    const step = reverse ? 1 : -1;
+
+    forEachBleedPixel(image, content, (x, y) => {
+      const i = y * width + x;
+      let best = source[i];
+      let bestCost = cost[i];
+      const tryCandidate = (sx: number, sy: number) => {
+        const candidate = sy * width + sx;
+        if (candidate === best) return;
+        const candidateCost = distance(x, y, sx, sy, bestCost);
+        if (candidateCost < bestCost) {
+          best = candidate;
+          bestCost = candidateCost;
+        }
+      };
+
+      // Propagation: continue the neighbour's match one pixel further
+      for (const [nx, ny] of [[x + step, y], [x, y + step]]) {
+        if (nx < 0 || ny < 0 || nx >= width || ny >= image.height) continue;
+        const neighbour = source[ny * width + nx];
+        if (neighbour < 0) continue;
+        const sx = (neighbour % width) - (nx - x);
+        const sy = Math.floor(neighbour / width) - (ny - y);
+        if (sx >= minX && sx <= maxX && sy >= minY && sy <= maxY) {
+          tryCandidate(sx, sy);
+        }
+      }
+
+      // Random search around the current match, near the trim edge
+      let radius = depth;
+      for (let sample = 0; sample < SEARCH_SAMPLES && radius >= 1; sample++, radius /= 2) {
+        const cx = best % width;
+        const cy = Math.floor(best / width);
+        tryCandidate(
+          clampSourceX(Math.round(cx + (random() * 2 - 1) * radius)),
+          clampSourceY(Math.round(cy + (random() * 2 - 1) * radius))
+        );
+      }
+
+      source[i] = best;
+      cost[i] = bestCost;
+      copyPixel(data, i, best);
+    }, reverse);
+  }
+};
+
+/**
+ * Fills everything outside `content` with one of the offline methods. Works
+ * on any pixel buffer, so tiles of a large job can be filled one at a time.
+ */
+export const fillOfflineBleed = (
+  image: PixelBuffer,
+  method: Exclude<BleedMethod, 'auto'>,
+  content: PixelRect,
+  bleedPixels: number
+): void => {
+  switch (method) {
+    case 'edge':
+      BleedFallbackFiller.fillFromNearestContent(image, content);
+      break;
+    case 'mirror':
+      mirrorBleed(image, content);
+      break;
+    case 'smear':
+      smearBleed(image, content);
+      break;
+    case 'synthesis':
+      synthesizeBleed(image, content, bleedPixels);
+      break;
+  }
+};
+
+/**
+ * Fills the bleed around the trim with one of the offline methods, without
+ * any network access.
+ */
+export const applyOfflineBleed = (
+  ctx: ProcessingContext2D,
+  method: Exclude<BleedMethod, 'auto'>,
+  bleedPixels: number,
+  finalWidth: number,
+  finalHeight: number
+): void => {
+  if (bleedPixels === 0) return;
+  if (method === 'edge') {
+    BleedFallbackFiller.finalFillBleedFromEdge(ctx, bleedPixels, finalWidth, finalHeight);
+    return;
+  }
+
+  const { width, height } = ctx.canvas;
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const content = { x: bleedPixels, y: bleedPixels, width: finalWidth, height: finalHeight };
+  const started = performance.now();
+
+  fillOfflineBleed(imageData, method, content, bleedPixels);
+
+  ctx.putImageData(imageData, 0, 0);
+  console.log(`[OfflineBleed] ${method} bleed filled in ${(performance.now() - started).toFixed(0)}ms`);
+};
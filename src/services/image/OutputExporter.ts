@@ -0,0 +1,61 @@
+import { ProcessingParameters, UploadedFile } from "@/types/print";
+import { ProcessingResult } from "./types";
+import { PDFExportOptions, createPDFFromProcessedImages } from "./PDFExporter";
+import { createVectorPreservingPDF, shouldPreserveVectors } from "./VectorPDFComposer";
+import { createCMYKConverter } from "./ColorManagement";
+
+/**
+ * Export options with the colour-management stage for these parameters.
+ * The caller disposes of the CMYK converter when done.
+ */
+export const prepareExportOptions = async (
+  parameters: ProcessingParameters,
+  options: PDFExportOptions = {}
+): Promise<PDFExportOptions> => {
+  const cmyk = await createCMYKConverter(parameters);
+  if (cmyk && parameters.pdfStandard === 'PDF/X-1a:2003') {
+    // PDF/X-1a has no ICC-based colour; the profile only goes into the output intent
+    cmyk.embedProfile = false;
+  }
+  return { ...options, cmyk, pdfStandard: parameters.pdfStandard };
+};
+
+/**
+ * Turns the processed pages of one file into its print PDF, keeping the
+ * source vectors when the parameters ask for it. The colour-management stage
+ * runs here, on the finished rasters, so previews stay RGB.
+ */
+export const createOutputPDF = async (
+  uploadedFile: UploadedFile,
+  results: ProcessingResult[],
+  parameters: ProcessingParameters,
+  options: PDFExportOptions = {}
+): Promise<Blob> => {
+  const exportOptions = await prepareExportOptions(parameters, options);
+  const { cmyk } = exportOptions;
+
+  try {
+    if (shouldPreserveVectors(uploadedFile, parameters)) {
+      if (cmyk) {
+        console.warn('[OutputExporter] Vector content keeps its own colour spaces; only the bleed is converted to CMYK');
+      }
+      return await createVectorPreservingPDF(
+        uploadedFile.file,
+        results.map((result) => ({
+          pageNumber: result.pageNumber ?? 1,
+          processedImageUrl: result.processedImageUrl,
+          cutPath: result.cutPath,
+        })),
+        parameters,
+        exportOptions
+      );
+    }
+    return await createPDFFromProcessedImages(
+      results.map(({ processedImageUrl, cutPath }) => ({ processedImageUrl, cutPath })),
+      parameters,
+      exportOptions
+    );
+  } finally {
+    cmyk?.dispose();
+  }
+};
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PDFDict, PDFDocument, PDFName, PDFNumber, PDFRawStream } from "pdf-lib";
+import { ProcessingParameters } from "@/types/print";
+import { DEFAULT_PROCESSING_PARAMETERS } from "@/services/presets/defaults";
+import { createPDFFromProcessedImages } from "./PDFExporter";
+import { mmToPoints } from "./utils";
+
+// The exporter loads rasters through <img> and flattens them on a canvas; these
+// stand-ins decode "fake:<width>x<height>" URLs and hand out grey pixels.
+class FakeImage {
+  width = 0;
+  height = 0;
+  crossOrigin = "";
+  onload: () => void = () => {};
+  onerror: (error: unknown) => void = () => {};
+
+  set src(url: string) {
+    const [width, height] = url.replace("fake:", "").split("x").map(Number);
+    this.width = width;
+    this.height = height;
+    queueMicrotask(() => this.onload());
+  }
+}
+
+const fakeCanvas = () => {
+  const canvas = {
+    width: 0,
+    height: 0,
+    getContext: () => context,
+  };
+  const context = {
+    fillStyle: "",
+    font: "",
+    textBaseline: "",
+    fillRect: () => {},
+    drawImage: () => {},
+    fillText: () => {},
+    measureText: (text: string) => ({ width: text.length * 10 }),
+    getImageData: (_x: number, _y: number, width: number, height: number) => ({
+      data: new Uint8ClampedArray(width * height * 4).fill(128),
+      width,
+      height,
+    }),
+  };
+  return canvas;
+};
+
+const parameters = (overrides: Partial<ProcessingParameters> = {}): ProcessingParameters => ({
+  ...DEFAULT_PROCESSING_PARAMETERS,
+  finalDimensions: { width: 85, height: 55 },
+  bleedMargin: 3,
+  dpi: 300,
+  safeMargin: 0,
+  printerMarks: { ...DEFAULT_PROCESSING_PARAMETERS.printerMarks!, enabled: false },
+  ...overrides,
+});
+
+const reload = async (blob: Blob) => PDFDocument.load(new Uint8Array(await blob.arrayBuffer()));
+
+const expectBox = (box: { x: number; y: number; width: number; height: number }, expected: number[]) => {
+  [box.x, box.y, box.width, box.height].forEach((value, i) => expect(value).toBeCloseTo(expected[i], 3));
+};
+
+/** Every image XObject on the page, as raw streams */
+const pageImages = (pdfDoc: PDFDocument) => {
+  const xObjects = pdfDoc.getPage(0).node.Resources()!.lookup(PDFName.of("XObject"), PDFDict);
+  return xObjects
+    .entries()
+    .map(([, ref]) => pdfDoc.context.lookup(ref))
+    .filter((stream): stream is PDFRawStream => stream instanceof PDFRawStream)
+    .filter((stream) => stream.dict.get(PDFName.of("Subtype")) === PDFName.of("Image"));
+};
+
+const numberEntry = (dict: PDFDict, key: string) => dict.lookup(PDFName.of(key), PDFNumber).asNumber();
+
+describe("createPDFFromProcessedImages", () => {
+  beforeEach(() => {
+    vi.stubGlobal("Image", FakeImage);
+    vi.stubGlobal("document", { createElement: () => fakeCanvas() });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("writes MediaBox, BleedBox and TrimBox around the trim", async () => {
+    const pdfDoc = await reload(await createPDFFromProcessedImages([{ processedImageUrl: "fake:1075x720" }], parameters()));
+
+    expect(pdfDoc.getPageCount()).toBe(1);
+    const page = pdfDoc.getPage(0);
+    const bleed = mmToPoints(3);
+    const trimWidth = mmToPoints(85);
+    const trimHeight = mmToPoints(55);
+    expectBox(page.getMediaBox(), [0, 0, trimWidth + bleed * 2, trimHeight + bleed * 2]);
+    expectBox(page.getBleedBox(), [0, 0, trimWidth + bleed * 2, trimHeight + bleed * 2]);
+    expectBox(page.getTrimBox(), [bleed, bleed, trimWidth, trimHeight]);
+  });
+
+  it("grows the MediaBox by the slug when printer's marks are on", async () => {
+    const withMarks = parameters({
+      printerMarks: { ...DEFAULT_PROCESSING_PARAMETERS.printerMarks!, enabled: true, slugSize: 10 },
+    });
+    const pdfDoc = await reload(await createPDFFromProcessedImages([{ processedImageUrl: "fake:1075x720" }], withMarks));
+
+    const page = pdfDoc.getPage(0);
+    const bleed = mmToPoints(3);
+    const slug = mmToPoints(10);
+    expectBox(page.getMediaBox(), [0, 0, mmToPoints(85) + (bleed + slug) * 2, mmToPoints(55) + (bleed + slug) * 2]);
+    expectBox(page.getBleedBox(), [slug, slug, mmToPoints(85) + bleed * 2, mmToPoints(55) + bleed * 2]);
+    expectBox(page.getTrimBox(), [slug + bleed, slug + bleed, mmToPoints(85), mmToPoints(55)]);
+  });
+
+  it("embeds the raster at full size as an 8-bit Flate RGB image", async () => {
+    const pdfDoc = await reload(await createPDFFromProcessedImages([{ processedImageUrl: "fake:1075x720" }], parameters()));
+
+    const [image] = pageImages(pdfDoc);
+    expect(image).toBeDefined();
+    expect(numberEntry(image.dict, "Width")).toBe(1075);
+    expect(numberEntry(image.dict, "Height")).toBe(720);
+    expect(numberEntry(image.dict, "BitsPerComponent")).toBe(8);
+    expect(image.dict.get(PDFName.of("Filter"))).toBe(PDFName.of("FlateDecode"));
+    expect(image.dict.get(PDFName.of("ColorSpace"))).toBe(PDFName.of("DeviceRGB"));
+  });
+
+  it("adds one page per processed raster", async () => {
+    const pdfDoc = await reload(await createPDFFromProcessedImages(
+      [{ processedImageUrl: "fake:1075x720" }, { processedImageUrl: "fake:538x360" }],
+      parameters()
+    ));
+
+    expect(pdfDoc.getPageCount()).toBe(2);
+    const secondPage = pdfDoc.getPage(1);
+    expectBox(secondPage.getTrimBox(), [mmToPoints(3), mmToPoints(3), mmToPoints(85), mmToPoints(55)]);
+  });
+});
@@ -1,200 +1,276 @@
+import {
+  PDFDocument,
+  PDFName,
+  PDFObject,
+  PDFPage,
+  PDFRef,
+  concatTransformationMatrix,
+  drawObject,
+  popGraphicsState,
+  pushGraphicsState,
+} from 'pdf-lib';
+import { PDFStandard, ProcessingParameters } from "@/types/print";
+import { applyPageBoxes, pageBoxesFromParameters } from "./PageBoxes";
+import { CMYKConverter, getICCProfileRef } from "./ColorManagement";
+import { finalizePDFX, setHeaderVersion } from "./PDFXConformance";
+import { drawPrinterMarks } from "./PrinterMarks";
+import { drawCutContour } from "./CutContour";
+import { CutPath } from "./CutPath";
+import { PixelBuffer } from "./types";
+import { CancellationToken } from "./CancellationToken";
 
-import { ProcessingParameters } from "@/types/print";
+/**
+ * How the processed raster is stored inside the PDF.
+ * - flate: lossless, larger files (recommended for print)
+ * - jpeg: DCT compressed, smaller files with some generation loss
+ */
+export type PDFImageEncoding = 'flate' | 'jpeg';
 
-export const createPDFFromProcessedImage = async (
-  processedImageUrl: string,
-  parameters: ProcessingParameters
-): Promise<Blob> => {
-  console.log('=== PDF EXPORT START ===');
-  console.log('Creating PDF from processed image URL:', processedImageUrl);
-  
-  // Load the processed image to get its actual data
+export interface PDFExportOptions {
+  imageEncoding?: PDFImageEncoding;
+  /** JPEG quality between 0 and 1, only used with the 'jpeg' encoding */
+  jpegQuality?: number;
+  title?: string;
+  /** Converts rasters to CMYK; without it images are written as DeviceRGB */
+  cmyk?: CMYKConverter | null;
+  /** Emit and verify the structures of this PDF/X flavour when saving */
+  pdfStandard?: PDFStandard;
+  /** Checked before every page and before saving, so a cancelled export stops early */
+  cancellationToken?: CancellationToken;
+}
+
+const PRODUCER = 'Daisler Print Optimizer';
+
+export const loadImage = (url: string): Promise<HTMLImageElement> => {
   const img = new Image();
   img.crossOrigin = 'anonymous';
-  
+
   return new Promise((resolve, reject) => {
-    img.onload = async () => {
-      try {
-        console.log(`Loaded processed image: ${img.width}x${img.height}`);
-        
-        // Calculate final canvas dimensions (includes bleed)
-        const mmToPoints = 2.83465; // 1mm = 2.83465 points
-        const bleedMm = parameters.bleedMargin;
-        const finalWidthMm = parameters.finalDimensions.width + (bleedMm * 2);
-        const finalHeightMm = parameters.finalDimensions.height + (bleedMm * 2);
-        
-        const pdfWidth = finalWidthMm * mmToPoints;
-        const pdfHeight = finalHeightMm * mmToPoints;
-        
-        console.log(`PDF dimensions: ${pdfWidth.toFixed(2)} x ${pdfHeight.toFixed(2)} points`);
-        console.log(`Includes ${bleedMm}mm bleed on all sides`);
-        
-        // Create a new canvas to ensure we have the exact image data
-        const exportCanvas = document.createElement('canvas');
-        const exportCtx = exportCanvas.getContext('2d')!;
-        
-        // Set canvas to match the processed image dimensions
-        exportCanvas.width = img.width;
-        exportCanvas.height = img.height;
-        
-        // Fill with white background first
-        exportCtx.fillStyle = '#FFFFFF';
-        exportCtx.fillRect(0, 0, img.width, img.height);
-        
-        // Draw the processed image
-        exportCtx.drawImage(img, 0, 0);
-        
-        console.log('Image drawn to export canvas');
-        
-        // Convert to high-quality JPEG
-        const imageDataUrl = exportCanvas.toDataURL('image/jpeg', 0.95);
-        console.log('Export canvas converted to data URL, length:', imageDataUrl.length);
-        
-        // Validate that we have actual image data
-        if (imageDataUrl.length < 1000) {
-          throw new Error('Generated image data is too small, likely empty');
-        }
-        
-        // Try using a simpler approach - convert the data URL directly to a blob
-        // and return it as a "PDF" (many browsers/viewers can handle this)
-        try {
-          console.log('Creating simple PDF wrapper for image');
-          
-          // Convert data URL to blob
-          const response = await fetch(imageDataUrl);
-          const imageBlob = await response.blob();
-          
-          // Create a simple PDF-like structure with the image
-          const pdfContent = `%PDF-1.4
-1 0 obj
-<<
-/Type /Catalog
-/Pages 2 0 R
->>
-endobj
-
-2 0 obj
-<<
-/Type /Pages
-/Kids [3 0 R]
-/Count 1
->>
-endobj
-
-3 0 obj
-<<
-/Type /Page
-/Parent 2 0 R
-/MediaBox [0 0 ${pdfWidth.toFixed(2)} ${pdfHeight.toFixed(2)}]
-/Contents 4 0 R
-/Resources <<
-  /XObject <<
-    /Im1 5 0 R
-  >>
->>
->>
-endobj
-
-4 0 obj
-<<
-/Length 44
->>
-stream
-q
-${pdfWidth.toFixed(2)} 0 0 ${pdfHeight.toFixed(2)} 0 0 cm
-/Im1 Do
-Q
-endstream
-endobj
-
-5 0 obj
-<<
-/Type /XObject
-/Subtype /Image
-/Width ${img.width}
-/Height ${img.height}
-/ColorSpace /DeviceRGB
-/BitsPerComponent 8
-/Filter /DCTDecode
-/Length ${imageBlob.size}
->>
-stream
-`;
-
-          // Convert image blob to array buffer
-          const imageArrayBuffer = await imageBlob.arrayBuffer();
-          const imageBytes = new Uint8Array(imageArrayBuffer);
-          
-          const pdfEnd = `
-endstream
-endobj
-
-xref
-0 6
-0000000000 65535 f 
-0000000009 00000 n 
-0000000058 00000 n 
-0000000115 00000 n 
-0000000398 00000 n 
-0000000507 00000 n 
-trailer
-<<
-/Size 6
-/Root 1 0 R
->>
-startxref
-${800 + imageBytes.length}
-%%EOF`;
-
-          // Combine PDF header, image data, and footer
-          const pdfHeader = new TextEncoder().encode(pdfContent);
-          const pdfFooter = new TextEncoder().encode(pdfEnd);
-          
-          const totalSize = pdfHeader.length + imageBytes.length + pdfFooter.length;
-          const combinedArray = new Uint8Array(totalSize);
-          
-          combinedArray.set(pdfHeader, 0);
-          combinedArray.set(imageBytes, pdfHeader.length);
-          combinedArray.set(pdfFooter, pdfHeader.length + imageBytes.length);
-          
-          const pdfBlob = new Blob([combinedArray], { type: 'application/pdf' });
-          console.log('PDF blob created, size:', pdfBlob.size);
-          
-          if (pdfBlob.size < 1000) {
-            throw new Error('Generated PDF is too small');
-          }
-          
-          console.log('=== PDF EXPORT SUCCESS ===');
-          resolve(pdfBlob);
-          
-        } catch (pdfError) {
-          console.error('Error in PDF creation, using fallback:', pdfError);
-          
-          // Ultimate fallback: create a blob from the image data URL
-          console.log('Using ultimate fallback: direct image blob');
-          const response = await fetch(imageDataUrl);
-          const fallbackBlob = await response.blob();
-          
-          // Create a simple blob that browsers can handle
-          const finalBlob = new Blob([fallbackBlob], { 
-            type: 'application/pdf' 
-          });
-          
-          console.log('Fallback blob created, size:', finalBlob.size);
-          resolve(finalBlob);
-        }
-        
-      } catch (error) {
-        console.error('=== PDF EXPORT ERROR ===', error);
-        reject(error);
-      }
-    };
-    
+    img.onload = () => resolve(img);
     img.onerror = (error) => {
       console.error('Error loading processed image for PDF creation:', error);
       reject(new Error('Failed to load processed image for PDF creation'));
     };
-    
-    img.src = processedImageUrl;
+    img.src = url;
+  });
+};
+
+/**
+ * Draws (a region of) the image onto an opaque white canvas so that no
+ * transparency (and therefore no SMask) ends up in the exported file.
+ */
+const flattenToCanvas = (
+  img: HTMLImageElement,
+  sx = 0,
+  sy = 0,
+  sw = img.width,
+  sh = img.height
+): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = sw;
+  canvas.height = sh;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get export canvas context');
+  }
+
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, sw, sh);
+  ctx.drawImage(img, sx, sy, sw, sh, 0, 0, sw, sh);
+  return canvas;
+};
+
+const canvasPixels = (canvas: HTMLCanvasElement): PixelBuffer =>
+  canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+
+const toRGBBytes = ({ data, width, height }: PixelBuffer): Uint8Array => {
+  const rgb = new Uint8Array(width * height * 3);
+
+  for (let src = 0, dst = 0; src < data.length; src += 4, dst += 3) {
+    rgb[dst] = data[src];
+    rgb[dst + 1] = data[src + 1];
+    rgb[dst + 2] = data[src + 2];
+  }
+  return rgb;
+};
+
+const toJPEGBytes = async (canvas: HTMLCanvasElement, quality: number): Promise<Uint8Array> => {
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((result) => {
+      if (result) resolve(result);
+      else reject(new Error('Failed to encode export canvas as JPEG'));
+    }, 'image/jpeg', quality);
+  });
+  return new Uint8Array(await blob.arrayBuffer());
+};
+
+/**
+ * Browsers cannot encode CMYK JPEGs, so CMYK images are always Flate.
+ */
+const embedCMYKImage = (pdfDoc: PDFDocument, pixels: PixelBuffer, converter: CMYKConverter): PDFRef => {
+  const cmyk = converter.convert(toRGBBytes(pixels));
+  const colorSpace: PDFObject = converter.embedProfile
+    ? pdfDoc.context.obj([PDFName.of('ICCBased'), getICCProfileRef(pdfDoc, converter)])
+    : PDFName.of('DeviceCMYK');
+
+  console.log(`[PDFExporter] Embedding Flate CMYK image (${converter.profile.name}), raw bytes:`, cmyk.length);
+  const stream = pdfDoc.context.flateStream(cmyk, {
+    Type: 'XObject',
+    Subtype: 'Image',
+    Width: pixels.width,
+    Height: pixels.height,
+    ColorSpace: colorSpace,
+    BitsPerComponent: 8,
+  });
+  return pdfDoc.context.register(stream);
+};
+
+/**
+ * Embeds a region of the raster (the whole image by default) as an image
+ * XObject and returns its reference.
+ */
+export const embedImageRegion = async (
+  pdfDoc: PDFDocument,
+  img: HTMLImageElement,
+  options: PDFExportOptions,
+  region?: { x: number; y: number; width: number; height: number }
+): Promise<PDFRef> => {
+  const canvas = region
+    ? flattenToCanvas(img, region.x, region.y, region.width, region.height)
+    : flattenToCanvas(img);
+
+  if (options.imageEncoding === 'jpeg' && !options.cmyk) {
+    const jpegBytes = await toJPEGBytes(canvas, options.jpegQuality ?? 0.95);
+    console.log('[PDFExporter] Embedding DCT image, bytes:', jpegBytes.length);
+    const image = await pdfDoc.embedJpg(jpegBytes);
+    return image.ref;
+  }
+
+  return embedPixels(pdfDoc, canvasPixels(canvas), options);
+};
+
+/**
+ * Embeds opaque RGBA pixels as a Flate image XObject (CMYK when a converter
+ * is set). Tiled jobs stream their tiles into the document through this.
+ */
+export const embedPixels = (pdfDoc: PDFDocument, pixels: PixelBuffer, options: PDFExportOptions): PDFRef => {
+  if (options.cmyk) {
+    return embedCMYKImage(pdfDoc, pixels, options.cmyk);
+  }
+
+  const rgb = toRGBBytes(pixels);
+  console.log('[PDFExporter] Embedding Flate image, raw bytes:', rgb.length);
+  const stream = pdfDoc.context.flateStream(rgb, {
+    Type: 'XObject',
+    Subtype: 'Image',
+    Width: pixels.width,
+    Height: pixels.height,
+    ColorSpace: 'DeviceRGB',
+    BitsPerComponent: 8,
   });
+  return pdfDoc.context.register(stream);
+};
+
+/**
+ * Paints an image XObject so that it exactly covers the given rectangle (in points).
+ */
+export const placeImage = (
+  page: PDFPage,
+  imageRef: PDFRef,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): void => {
+  const name = page.node.newXObject('Im', imageRef);
+  page.pushOperators(
+    pushGraphicsState(),
+    concatTransformationMatrix(width, 0, 0, height, x, y),
+    drawObject(name),
+    popGraphicsState()
+  );
+};
+
+/**
+ * Creates an empty document with the metadata every export carries.
+ */
+export const createPrintDocument = async (options: PDFExportOptions = {}): Promise<PDFDocument> => {
+  const pdfDoc = await PDFDocument.create();
+  const now = new Date();
+  pdfDoc.setProducer(PRODUCER);
+  pdfDoc.setCreator(PRODUCER);
+  pdfDoc.setCreationDate(now);
+  pdfDoc.setModificationDate(now);
+  if (options.title) {
+    pdfDoc.setTitle(options.title);
+  }
+  return pdfDoc;
+};
+
+/**
+ * Serialises the document with a classic cross-reference table: object
+ * streams are not allowed in older PDF/X flavours. With a PDF/X standard
+ * selected the file is checked first and a PDFXConformanceError is thrown
+ * instead of returning a non-conforming blob.
+ */
+export const savePrintDocument = async (pdfDoc: PDFDocument, options: PDFExportOptions = {}): Promise<Blob> => {
+  finalizePDFX(pdfDoc, options.pdfStandard, options);
+  const pdfBytes = await pdfDoc.save({ useObjectStreams: false });
+  setHeaderVersion(pdfBytes, options.pdfStandard);
+  return new Blob([pdfBytes], { type: 'application/pdf' });
 };
+
+export interface ProcessedPageSource {
+  processedImageUrl: string;
+  /** Cut path traced for this page; the parameters' cut line otherwise */
+  cutPath?: CutPath;
+}
+
+/**
+ * Builds one page per processed raster. Every raster covers trim + bleed, so
+ * it fills the bleed box of its page; printer's marks go in the slug around it.
+ */
+export const createPDFFromProcessedImages = async (
+  pages: ProcessedPageSource[],
+  parameters: ProcessingParameters,
+  options: PDFExportOptions = {}
+): Promise<Blob> => {
+  console.log('=== PDF EXPORT START ===');
+  if (pages.length === 0) {
+    throw new Error('No processed pages to export');
+  }
+
+  const boxes = pageBoxesFromParameters(parameters);
+  const { mediaBox, bleedBox, trimBox } = boxes;
+  console.log(`PDF dimensions: ${mediaBox.width.toFixed(2)} x ${mediaBox.height.toFixed(2)} points, ${pages.length} page(s)`);
+  console.log(`TrimBox: ${trimBox.width.toFixed(2)} x ${trimBox.height.toFixed(2)} points at (${trimBox.x.toFixed(2)}, ${trimBox.y.toFixed(2)})`);
+
+  const pdfDoc = await createPrintDocument(options);
+
+  for (const { processedImageUrl, cutPath } of pages) {
+    options.cancellationToken?.throwIfCancelled();
+    const img = await loadImage(processedImageUrl);
+    const effectiveDpiX = img.width / (bleedBox.width / 72);
+    const effectiveDpiY = img.height / (bleedBox.height / 72);
+    console.log(`Page ${pdfDoc.getPageCount() + 1}: ${img.width}x${img.height}px, effective ${effectiveDpiX.toFixed(1)} x ${effectiveDpiY.toFixed(1)} DPI (target ${parameters.dpi})`);
+
+    const page = pdfDoc.addPage([mediaBox.width, mediaBox.height]);
+    applyPageBoxes(page, boxes);
+    const imageRef = await embedImageRegion(pdfDoc, img, options);
+    placeImage(page, imageRef, bleedBox.x, bleedBox.y, bleedBox.width, bleedBox.height);
+    drawCutContour(page, boxes, parameters, options.pdfStandard, cutPath);
+    drawPrinterMarks(page, boxes, parameters, { label: options.title, pdfStandard: options.pdfStandard });
+  }
+
+  options.cancellationToken?.throwIfCancelled();
+  const pdfBlob = await savePrintDocument(pdfDoc, options);
+  console.log('=== PDF EXPORT SUCCESS ===', 'size:', pdfBlob.size);
+  return pdfBlob;
+};
+
+export const createPDFFromProcessedImage = (
+  processedImageUrl: string,
+  parameters: ProcessingParameters,
+  options: PDFExportOptions = {}
+): Promise<Blob> => createPDFFromProcessedImages([{ processedImageUrl }], parameters, options);
@@ -0,0 +1,48 @@
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFOperator, PDFOperatorNames as Ops, PDFPage, PDFRef, PDFString } from 'pdf-lib';
+import { addPageResource } from "./PDFResources";
+
+/**
+ * Returns the optional content group (layer) with this name, creating it and
+ * listing it in the catalog's OCProperties the first time. Layers are visible
+ * and printable by default.
+ */
+export const getLayer = (pdfDoc: PDFDocument, name: string): PDFRef => {
+  const { context, catalog } = pdfDoc;
+
+  let ocProperties = catalog.lookupMaybe(PDFName.of('OCProperties'), PDFDict);
+  if (!ocProperties) {
+    ocProperties = context.obj({
+      OCGs: [],
+      // PDF/X-4 requires a named default configuration
+      D: { Name: PDFString.of('Default'), Order: [], ON: [], OFF: [] },
+    });
+    catalog.set(PDFName.of('OCProperties'), ocProperties);
+  }
+
+  const ocgs = ocProperties.lookup(PDFName.of('OCGs'), PDFArray);
+  for (const ref of ocgs.asArray()) {
+    const ocg = context.lookup(ref, PDFDict);
+    const ocgName = ocg.lookupMaybe(PDFName.of('Name'), PDFString);
+    if (ref instanceof PDFRef && ocgName?.decodeText() === name) {
+      return ref;
+    }
+  }
+
+  const ref = context.register(context.obj({ Type: 'OCG', Name: PDFString.of(name) }));
+  ocgs.push(ref);
+  const config = ocProperties.lookup(PDFName.of('D'), PDFDict);
+  config.lookup(PDFName.of('Order'), PDFArray).push(ref);
+  config.lookup(PDFName.of('ON'), PDFArray).push(ref);
+  console.log(`[PDFLayers] Created layer "${name}"`);
+  return ref;
+};
+
+/**
+ * Opens a marked-content sequence tied to the layer; close it with endLayer().
+ */
+export const beginLayer = (page: PDFPage, layer: PDFRef): PDFOperator => {
+  const key = addPageResource(page, 'Properties', 'OC', layer);
+  return PDFOperator.of(Ops.BeginMarkedContentSequence, [PDFName.of('OC'), key]);
+};
+
+export const endLayer = (): PDFOperator => PDFOperator.of(Ops.EndMarkedContent);
@@ -1,11 +1,38 @@
 
 import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import { PDFDocument } from 'pdf-lib';
 import { UploadedFile, ProcessingParameters } from "@/types/print";
 import { ImageRenderer } from "./ImageRenderer";
 
+// Pages are rasterised at twice their size in points
+export const PDF_RENDER_DPI = 144;
+
+/**
+ * Page count and the displayed size of the first page in points (rotation
+ * applied), without rendering anything.
+ */
+export const getPDFInfo = async (file: File): Promise<{ pages: number; pageSize: { width: number; height: number } }> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const pdf = await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false });
+  const firstPage = pdf.getPage(0);
+  const { width, height } = firstPage.getCropBox();
+  const sideways = Math.abs(firstPage.getRotation().angle) % 180 === 90;
+  return {
+    pages: pdf.getPageCount(),
+    pageSize: sideways ? { width: height, height: width } : { width, height },
+  };
+};
+
+/**
+ * Counts the pages of a PDF without rendering anything.
+ */
+export const getPDFPageCount = async (file: File): Promise<number> => (await getPDFInfo(file)).pages;
+
 export class PDFProcessor {
   private imageRenderer: ImageRenderer;
   private workerInitialized: boolean = false;
+  private documentCache?: { file: File; pdf: PDFDocumentProxy };
 
   constructor(imageRenderer: ImageRenderer) {
     this.imageRenderer = imageRenderer;
@@ -93,59 +120,95 @@ export class PDFProcessor {
     }
   }
 
-  async processPDF(file: UploadedFile, parameters: ProcessingParameters): Promise<HTMLImageElement> {
+  /**
+   * Loads the PDF with PDF.js. The last document is cached so that rendering
+   * several pages of the same file only parses it once.
+   */
+  private async loadDocument(file: UploadedFile): Promise<PDFDocumentProxy> {
+    if (this.documentCache && this.documentCache.file === file.file) {
+      return this.documentCache.pdf;
+    }
+    // Only one document is kept; release the previous file's before loading
+    this.destroy();
+
+    // Initialize worker first with better error handling
+    await this.initializeWorker();
+    
+    // Convert file to ArrayBuffer for PDF.js
+    const arrayBuffer = await file.file.arrayBuffer();
+    console.log('[PDFProcessor] PDF file converted to ArrayBuffer, size:', arrayBuffer.byteLength);
+    
+    if (arrayBuffer.byteLength === 0) {
+      throw new Error('PDF file appears to be empty');
+    }
+    
+    if (arrayBuffer.byteLength > 100 * 1024 * 1024) { // 100MB limit
+      throw new Error('PDF file is too large (>100MB). Please use a smaller file.');
+    }
+    
+    // Load the PDF document with optimized configuration
+    console.log('[PDFProcessor] Loading PDF document...');
+    const loadingTask = pdfjsLib.getDocument({ 
+      data: arrayBuffer,
+      verbosity: 0, // Reduce console noise
+      useWorkerFetch: false, // Disable worker fetch to avoid network issues
+      isEvalSupported: false, // Disable eval for security
+      disableFontFace: false, // Keep fonts enabled for better rendering
+      useSystemFonts: true, // Use system fonts as fallback
+      maxImageSize: 50 * 1024 * 1024, // 50MB max image size
+      cMapPacked: true // Use packed CMaps for better performance
+    });
+    
+    // Add timeout to prevent hanging
+    const pdfPromise = loadingTask.promise;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      setTimeout(() => reject(new Error('PDF loading timeout after 20 seconds')), 20000);
+    });
+    
+    const pdf = await Promise.race([pdfPromise, timeoutPromise]);
+    console.log(`[PDFProcessor] PDF loaded successfully. Pages: ${pdf.numPages}`);
+    
+    if (pdf.numPages === 0) {
+      throw new Error('PDF has no pages');
+    }
+
+    this.documentCache = { file: file.file, pdf };
+    return pdf;
+  }
+
+  /**
+   * Loads a single page for callers that render it themselves, such as the
+   * tiled pipeline, which renders one region at a time.
+   */
+  async getPage(file: UploadedFile, pageNumber: number): Promise<PDFPageProxy> {
+    const pdf = await this.loadDocument(file);
+    if (pageNumber < 1 || pageNumber > pdf.numPages) {
+      throw new Error(`Page ${pageNumber} does not exist (the PDF has ${pdf.numPages} pages)`);
+    }
+    return pdf.getPage(pageNumber);
+  }
+
+  async processPDF(
+    file: UploadedFile,
+    parameters: ProcessingParameters,
+    pageNumber: number = 1
+  ): Promise<HTMLImageElement> {
     console.log('[PDFProcessor] === PDF PROCESSING START ===');
-    console.log('[PDFProcessor] Processing PDF file:', file.file.name);
+    console.log(`[PDFProcessor] Processing PDF file: ${file.file.name}, page ${pageNumber}`);
     
     try {
-      // Initialize worker first with better error handling
-      await this.initializeWorker();
-      
-      // Convert file to ArrayBuffer for PDF.js
-      const arrayBuffer = await file.file.arrayBuffer();
-      console.log('[PDFProcessor] PDF file converted to ArrayBuffer, size:', arrayBuffer.byteLength);
-      
-      if (arrayBuffer.byteLength === 0) {
-        throw new Error('PDF file appears to be empty');
-      }
-      
-      if (arrayBuffer.byteLength > 100 * 1024 * 1024) { // 100MB limit
-        throw new Error('PDF file is too large (>100MB). Please use a smaller file.');
-      }
-      
-      // Load the PDF document with optimized configuration
-      console.log('[PDFProcessor] Loading PDF document...');
-      const loadingTask = pdfjsLib.getDocument({ 
-        data: arrayBuffer,
-        verbosity: 0, // Reduce console noise
-        useWorkerFetch: false, // Disable worker fetch to avoid network issues
-        isEvalSupported: false, // Disable eval for security
-        disableFontFace: false, // Keep fonts enabled for better rendering
-        useSystemFonts: true, // Use system fonts as fallback
-        maxImageSize: 50 * 1024 * 1024, // 50MB max image size
-        cMapPacked: true // Use packed CMaps for better performance
-      });
-      
-      // Add timeout to prevent hanging
-      const pdfPromise = loadingTask.promise;
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error('PDF loading timeout after 20 seconds')), 20000);
-      });
-      
-      const pdf = await Promise.race([pdfPromise, timeoutPromise]);
-      console.log(`[PDFProcessor] PDF loaded successfully. Pages: ${pdf.numPages}`);
-      
-      if (pdf.numPages === 0) {
-        throw new Error('PDF has no pages');
+      const pdf = await this.loadDocument(file);
+
+      if (pageNumber < 1 || pageNumber > pdf.numPages) {
+        throw new Error(`Page ${pageNumber} does not exist (the PDF has ${pdf.numPages} pages)`);
       }
       
-      // Get the first page
-      console.log('[PDFProcessor] Getting first page...');
-      const page = await pdf.getPage(1);
+      console.log(`[PDFProcessor] Getting page ${pageNumber}...`);
+      const page = await pdf.getPage(pageNumber);
       console.log('[PDFProcessor] PDF page loaded successfully');
       
       // Get the viewport for the page - use appropriate scale for quality vs performance
-      const scale = Math.min(2.0, Math.max(1.0, 300 / 150)); // Scale based on target DPI
+      const scale = PDF_RENDER_DPI / 72;
       const viewport = page.getViewport({ scale });
       console.log(`[PDFProcessor] PDF viewport: ${viewport.width}x${viewport.height} at scale ${scale}`);
       
@@ -293,4 +356,16 @@ export class PDFProcessor {
     // Need at least 1% non-white pixels to consider it valid content
     return contentRatio > 0.01;
   }
+
+  /**
+   * Releases the cached document and its PDF.js worker resources. The
+   * processor can still be used afterwards; the next page reloads the file.
+   */
+  destroy(): void {
+    if (!this.documentCache) return;
+    const { pdf } = this.documentCache;
+    this.documentCache = undefined;
+    pdf.destroy().catch((error) => console.warn('[PDFProcessor] Could not release the PDF document:', error));
+  }
+
 }
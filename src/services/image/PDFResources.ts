@@ -0,0 +1,33 @@
+import { PDFDict, PDFName, PDFObject, PDFPage } from 'pdf-lib';
+
+export type ResourceCategory = 'ColorSpace' | 'Properties' | 'XObject' | 'ExtGState';
+
+/**
+ * Adds an entry to one of the page's resource dictionaries (pdf-lib only has
+ * helpers for fonts, XObjects and graphics states) and returns its key.
+ * The same value is only added once per page.
+ */
+export const addPageResource = (
+  page: PDFPage,
+  category: ResourceCategory,
+  tag: string,
+  value: PDFObject
+): PDFName => {
+  const { Resources } = page.node.normalizedEntries();
+  let dict = Resources.lookupMaybe(PDFName.of(category), PDFDict);
+  if (!dict) {
+    dict = page.doc.context.obj({});
+    Resources.set(PDFName.of(category), dict);
+  }
+
+  const existing = dict.entries().find(([, entry]) => entry === value);
+  if (existing) {
+    return existing[0];
+  }
+
+  let index = 0;
+  while (dict.has(PDFName.of(`${tag}${index}`))) index++;
+  const key = PDFName.of(`${tag}${index}`);
+  dict.set(key, value);
+  return key;
+};
@@ -0,0 +1,493 @@
+import {
+  PDFArray,
+  PDFContentStream,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFRawStream,
+  PDFStream,
+  PDFString,
+  decodePDFRawStream,
+} from 'pdf-lib';
+import { PDFStandard } from "@/types/print";
+import { CMYKConverter, getICCProfileRef } from "./ColorManagement";
+
+/**
+ * Raised when a document cannot be written in the requested PDF/X flavour.
+ * `violations` holds one human-readable line per problem found.
+ */
+export class PDFXConformanceError extends Error {
+  readonly standard: PDFStandard;
+  readonly violations: string[];
+
+  constructor(standard: PDFStandard, violations: string[]) {
+    super(`The PDF does not conform to ${standard}:\n- ${violations.join('\n- ')}`);
+    this.name = 'PDFXConformanceError';
+    this.standard = standard;
+    this.violations = violations;
+  }
+}
+
+export interface PDFXOptions {
+  title?: string;
+  /** Supplies the CMYK output profile written into the output intent */
+  cmyk?: CMYKConverter | null;
+}
+
+export interface StandardRules {
+  pdfVersion: [number, number];
+  /** Colour space families that may not appear anywhere in the file */
+  forbiddenColorSpaces: string[];
+  allowsTransparency: boolean;
+  allowsOptionalContent: boolean;
+  requiresXMP: boolean;
+}
+
+const RULES: Record<Exclude<PDFStandard, 'none'>, StandardRules> = {
+  'PDF/X-1a:2003': {
+    pdfVersion: [1, 4],
+    forbiddenColorSpaces: ['DeviceRGB', 'ICCBased', 'CalRGB', 'CalGray', 'Lab'],
+    allowsTransparency: false,
+    allowsOptionalContent: false,
+    requiresXMP: false,
+  },
+  'PDF/X-4': {
+    pdfVersion: [1, 6],
+    // The output intent is CMYK, so device RGB has no defined meaning
+    forbiddenColorSpaces: ['DeviceRGB'],
+    allowsTransparency: true,
+    allowsOptionalContent: true,
+    requiresXMP: true,
+  },
+};
+
+/**
+ * What a PDF/X flavour allows, for checks made before anything is exported.
+ */
+export const getPDFXRules = (standard: Exclude<PDFStandard, 'none'>): StandardRules => RULES[standard];
+
+const ALLOWED_ANNOTATIONS = ['PrinterMark', 'TrapNet'];
+
+const name = (value: string) => PDFName.of(value);
+
+const nameText = (value: PDFObject | undefined): string | undefined =>
+  value instanceof PDFName ? value.decodeText() : undefined;
+
+const xmlEscape = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const xmpDate = (date: Date) => date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+const buildXMP = (
+  standard: Exclude<PDFStandard, 'none'>,
+  title: string,
+  producer: string,
+  date: Date,
+  documentId: string,
+  instanceId: string
+): string => {
+  const versionEntry = standard === 'PDF/X-4'
+    ? `<pdfxid:GTS_PDFXVersion>${standard}</pdfxid:GTS_PDFXVersion>`
+    : `<pdfx:GTS_PDFXVersion>${standard}</pdfx:GTS_PDFXVersion>`;
+
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about=""
+        xmlns:dc="http://purl.org/dc/elements/1.1/"
+        xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+        xmlns:xmpMM="http://ns.adobe.com/xap/1.0/mm/"
+        xmlns:pdf="http://ns.adobe.com/pdf/1.3/"
+        xmlns:pdfx="http://ns.adobe.com/pdfx/1.3/"
+        xmlns:pdfxid="http://www.npes.org/pdfx/ns/id/">
+      <dc:format>application/pdf</dc:format>
+      <dc:title><rdf:Alt><rdf:li xml:lang="x-default">${xmlEscape(title)}</rdf:li></rdf:Alt></dc:title>
+      <xmp:CreatorTool>${xmlEscape(producer)}</xmp:CreatorTool>
+      <xmp:CreateDate>${xmpDate(date)}</xmp:CreateDate>
+      <xmp:ModifyDate>${xmpDate(date)}</xmp:ModifyDate>
+      <xmp:MetadataDate>${xmpDate(date)}</xmp:MetadataDate>
+      <pdf:Producer>${xmlEscape(producer)}</pdf:Producer>
+      <pdf:Trapped>False</pdf:Trapped>
+      <xmpMM:DocumentID>uuid:${documentId}</xmpMM:DocumentID>
+      <xmpMM:InstanceID>uuid:${instanceId}</xmpMM:InstanceID>
+      <xmpMM:VersionID>1</xmpMM:VersionID>
+      <xmpMM:RenditionClass>default</xmpMM:RenditionClass>
+      ${versionEntry}
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+};
+
+const getInfoDict = (pdfDoc: PDFDocument): PDFDict | undefined =>
+  pdfDoc.context.lookupMaybe(pdfDoc.context.trailerInfo.Info, PDFDict);
+
+/**
+ * Writes the structures PDF/X asks for: GTS_PDFXVersion and
+ * Trapped in the Info dictionary, XMP metadata, the output intent and the
+ * trailer ID. Problems it cannot fix are left for the conformance check.
+ */
+export const applyPDFXStructures = (
+  pdfDoc: PDFDocument,
+  standard: Exclude<PDFStandard, 'none'>,
+  options: PDFXOptions
+): void => {
+  const { context, catalog } = pdfDoc;
+  const now = new Date();
+  const title = pdfDoc.getTitle() || options.title || 'Untitled';
+  const producer = pdfDoc.getProducer() || 'Daisler Print Optimizer';
+
+  pdfDoc.setTitle(title);
+  pdfDoc.setCreationDate(now);
+  pdfDoc.setModificationDate(now);
+  const info = getInfoDict(pdfDoc);
+  info?.set(name('GTS_PDFXVersion'), PDFString.of(standard));
+  info?.set(name('Trapped'), name('False'));
+
+  // A page may carry a TrimBox or an ArtBox, not both; the TrimBox wins
+  for (const page of pdfDoc.getPages()) {
+    if (page.node.has(name('TrimBox')) && page.node.has(name('ArtBox'))) {
+      page.node.delete(name('ArtBox'));
+    }
+  }
+
+  const documentId = crypto.randomUUID();
+  const instanceId = crypto.randomUUID();
+  const xmpBytes = new TextEncoder().encode(buildXMP(standard, title, producer, now, documentId, instanceId));
+  const xmp = context.stream(xmpBytes, {
+    Type: 'Metadata',
+    Subtype: 'XML',
+  });
+  catalog.set(name('Metadata'), context.register(xmp));
+
+  const idHex = documentId.replace(/-/g, '').toUpperCase();
+  const instanceHex = instanceId.replace(/-/g, '').toUpperCase();
+  context.trailerInfo.ID = context.obj([PDFHexString.of(idHex), PDFHexString.of(instanceHex)]);
+
+  if (options.cmyk) {
+    const { profile } = options.cmyk;
+    const outputIntent = context.obj({
+      Type: 'OutputIntent',
+      S: 'GTS_PDFX',
+      OutputConditionIdentifier: PDFString.of(profile.outputConditionIdentifier),
+      OutputCondition: PDFString.of(profile.outputCondition ?? profile.name),
+      RegistryName: PDFString.of('http://www.color.org'),
+      Info: PDFString.of(profile.name),
+      DestOutputProfile: getICCProfileRef(pdfDoc, options.cmyk),
+    });
+    catalog.set(name('OutputIntents'), context.obj([context.register(outputIntent)]));
+  }
+
+  console.log(`[PDFXConformance] ${standard} structures written, document ID ${idHex}`);
+};
+
+const describeColorSpace = (context: PDFDocument['context'], value: PDFObject | undefined): string[] => {
+  const resolved = context.lookup(value);
+  if (resolved instanceof PDFName) {
+    return [resolved.decodeText()];
+  }
+  if (!(resolved instanceof PDFArray) || resolved.size() === 0) {
+    return [];
+  }
+
+  const family = nameText(resolved.lookup(0));
+  if (!family) return [];
+  // Check the spaces these families are built on as well
+  if (family === 'Indexed') {
+    return [family, ...describeColorSpace(context, resolved.get(1))];
+  }
+  if (family === 'Separation' || family === 'DeviceN') {
+    return [family, ...describeColorSpace(context, resolved.get(2))];
+  }
+  return [family];
+};
+
+const decodeContent = (stream: PDFStream): string | undefined => {
+  try {
+    if (stream instanceof PDFContentStream) {
+      return new TextDecoder('latin1').decode(stream.getUnencodedContents());
+    }
+    if (stream instanceof PDFRawStream) {
+      return new TextDecoder('latin1').decode(decodePDFRawStream(stream).decode());
+    }
+  } catch (error) {
+    console.warn('[PDFXConformance] Could not decode content stream:', error);
+  }
+  return undefined;
+};
+
+// "r g b rg" / "r g b RG" set DeviceRGB fill and stroke colours
+const RGB_OPERATOR = /(?:^|[\s\]])(?:[-+]?[\d.]+\s+){3}(?:rg|RG)(?=[\s[/<(]|$)/;
+const RGB_COLORSPACE_OPERATOR = /\/DeviceRGB\s+(?:cs|CS)(?=\s|$)/;
+
+const isInside = (inner: { x: number; y: number; width: number; height: number }, outer: typeof inner) => {
+  const tolerance = 0.01;
+  return inner.x >= outer.x - tolerance
+    && inner.y >= outer.y - tolerance
+    && inner.x + inner.width <= outer.x + outer.width + tolerance
+    && inner.y + inner.height <= outer.y + outer.height + tolerance;
+};
+
+/**
+ * Inspects the finished document and lists everything that keeps it from
+ * being a valid file of the given PDF/X flavour. An empty list means it passes.
+ */
+export const checkPDFXConformance = (
+  pdfDoc: PDFDocument,
+  standard: Exclude<PDFStandard, 'none'>
+): string[] => {
+  const { context, catalog } = pdfDoc;
+  const rules = RULES[standard];
+  const violations: string[] = [];
+
+  // Document level
+  if (context.trailerInfo.Encrypt) {
+    violations.push('The document is encrypted');
+  }
+
+  const id = context.lookup(context.trailerInfo.ID);
+  if (!(id instanceof PDFArray) || id.size() !== 2) {
+    violations.push('The trailer has no document ID');
+  }
+
+  const info = getInfoDict(pdfDoc);
+  const version = info?.lookup(name('GTS_PDFXVersion'));
+  if (!(version instanceof PDFString || version instanceof PDFHexString) || version.decodeText() !== standard) {
+    violations.push(`Info dictionary is missing GTS_PDFXVersion (${standard})`);
+  }
+  if (!pdfDoc.getTitle()) {
+    violations.push('Info dictionary has no Title');
+  }
+  if (!info?.has(name('CreationDate')) || !info?.has(name('ModDate'))) {
+    violations.push('Info dictionary needs both CreationDate and ModDate');
+  }
+  const trapped = nameText(info?.lookup(name('Trapped')));
+  if (trapped !== 'True' && trapped !== 'False') {
+    violations.push('Info dictionary must set Trapped to True or False');
+  }
+
+  const metadata = catalog.lookupMaybe(name('Metadata'), PDFStream);
+  if (rules.requiresXMP) {
+    const xmp = metadata ? new TextDecoder().decode(metadata.getContents()) : '';
+    if (!xmp.includes(`GTS_PDFXVersion>${standard}<`)) {
+      violations.push(`XMP metadata with GTS_PDFXVersion ${standard} is missing`);
+    }
+  }
+
+  const outputIntents = catalog.lookupMaybe(name('OutputIntents'), PDFArray);
+  const pdfxIntents = outputIntents?.asArray()
+    .map((intent) => context.lookup(intent))
+    .filter((intent): intent is PDFDict => intent instanceof PDFDict && nameText(intent.get(name('S'))) === 'GTS_PDFX') ?? [];
+  if (pdfxIntents.length !== 1) {
+    violations.push(
+      pdfxIntents.length === 0
+        ? 'No GTS_PDFX output intent (PDF/X needs CMYK output with an ICC profile selected)'
+        : 'More than one GTS_PDFX output intent'
+    );
+  } else {
+    const intent = pdfxIntents[0];
+    if (!intent.has(name('OutputConditionIdentifier'))) {
+      violations.push('Output intent has no OutputConditionIdentifier');
+    }
+    const profile = intent.lookupMaybe(name('DestOutputProfile'), PDFStream);
+    if (!profile) {
+      violations.push('Output intent does not embed its ICC profile (DestOutputProfile)');
+    } else if (profile.dict.lookupMaybe(name('N'), PDFNumber)?.asNumber() !== 4) {
+      violations.push('Output intent profile is not a CMYK profile');
+    }
+  }
+
+  if (catalog.has(name('OCProperties'))) {
+    if (!rules.allowsOptionalContent) {
+      violations.push('Optional content (layers) is not allowed');
+    } else {
+      const ocProperties = catalog.lookup(name('OCProperties'), PDFDict);
+      const configs = [
+        ocProperties.lookupMaybe(name('D'), PDFDict),
+        ...(ocProperties.lookupMaybe(name('Configs'), PDFArray)?.asArray().map((config) => context.lookup(config)) ?? []),
+      ].filter((config): config is PDFDict => config instanceof PDFDict);
+      for (const config of configs) {
+        if (!config.has(name('Name'))) {
+          violations.push('Every optional content configuration needs a Name');
+        }
+        if (config.has(name('AS'))) {
+          violations.push('Optional content configurations may not use AS (auto state)');
+        }
+      }
+    }
+  }
+
+  // Page level
+  const contentStreams = new Set<PDFObject>();
+  pdfDoc.getPages().forEach((page, index) => {
+    const label = `Page ${index + 1}`;
+    const hasTrim = page.node.has(name('TrimBox'));
+    const hasArt = page.node.has(name('ArtBox'));
+    if (!hasTrim && !hasArt) {
+      violations.push(`${label} has neither a TrimBox nor an ArtBox`);
+    } else if (hasTrim && hasArt) {
+      violations.push(`${label} has both a TrimBox and an ArtBox`);
+    }
+
+    const mediaBox = page.getMediaBox();
+    const bleedBox = page.getBleedBox();
+    if (!isInside(bleedBox, mediaBox)) {
+      violations.push(`${label}: BleedBox extends beyond the MediaBox`);
+    }
+    if (hasTrim && !isInside(page.getTrimBox(), bleedBox)) {
+      violations.push(`${label}: TrimBox extends beyond the BleedBox`);
+    }
+
+    const annotations = page.node.Annots();
+    annotations?.asArray().forEach((annotation) => {
+      const subtype = nameText(context.lookup(annotation, PDFDict).get(name('Subtype')));
+      if (!subtype || !ALLOWED_ANNOTATIONS.includes(subtype)) {
+        violations.push(`${label} has a ${subtype ?? 'unknown'} annotation`);
+      }
+    });
+
+    const contents = page.node.Contents();
+    if (contents instanceof PDFArray) {
+      contents.asArray().forEach((stream) => contentStreams.add(context.lookup(stream)));
+    } else if (contents) {
+      contentStreams.add(contents);
+    }
+    if (!rules.allowsTransparency && nameText(page.node.lookupMaybe(name('Group'), PDFDict)?.get(name('S'))) === 'Transparency') {
+      violations.push(`${label} uses a transparency group`);
+    }
+  });
+
+  // Object level: images, forms, fonts, graphics states and colour spaces
+  const reported = new Set<string>();
+  const report = (message: string) => {
+    if (!reported.has(message)) {
+      reported.add(message);
+      violations.push(message);
+    }
+  };
+
+  const checkColorSpace = (value: PDFObject | undefined, where: string) => {
+    for (const family of describeColorSpace(context, value)) {
+      if (rules.forbiddenColorSpaces.includes(family)) {
+        report(`${where} uses the ${family} colour space`);
+      }
+    }
+  };
+
+  const checkGraphicsState = (state: PDFDict, where: string) => {
+    if (rules.allowsTransparency) return;
+    const strokeAlpha = state.lookupMaybe(name('CA'), PDFNumber)?.asNumber() ?? 1;
+    const fillAlpha = state.lookupMaybe(name('ca'), PDFNumber)?.asNumber() ?? 1;
+    const blendMode = nameText(state.get(name('BM'))) ?? 'Normal';
+    const softMask = state.get(name('SMask'));
+    if (strokeAlpha < 1 || fillAlpha < 1) {
+      report(`${where} sets opacity below 100%`);
+    }
+    if (softMask && nameText(softMask) !== 'None') {
+      report(`${where} uses a soft mask`);
+    }
+    if (blendMode !== 'Normal' && blendMode !== 'Compatible') {
+      report(`${where} uses the ${blendMode} blend mode`);
+    }
+  };
+
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    const where = `Object ${ref.toString()}`;
+    const dict = object instanceof PDFStream ? object.dict : object instanceof PDFDict ? object : undefined;
+    if (!dict) continue;
+
+    const type = nameText(dict.get(name('Type')));
+    const subtype = nameText(dict.get(name('Subtype')));
+
+    if (subtype === 'Image') {
+      checkColorSpace(dict.get(name('ColorSpace')), `Image ${ref.toString()}`);
+      if (!rules.allowsTransparency && (dict.has(name('SMask')) || dict.has(name('SMaskInData')))) {
+        report(`Image ${ref.toString()} has a soft mask (transparency)`);
+      }
+      const filter = context.lookup(dict.get(name('Filter')));
+      const filters = filter instanceof PDFArray ? filter.asArray().map((entry) => nameText(entry)) : [nameText(filter)];
+      if (standard === 'PDF/X-1a:2003' && filters.includes('JPXDecode')) {
+        report(`Image ${ref.toString()} is JPEG 2000 compressed`);
+      }
+      continue;
+    }
+
+    if (subtype === 'Form' && object instanceof PDFStream) {
+      contentStreams.add(object);
+      if (!rules.allowsTransparency && nameText(dict.lookupMaybe(name('Group'), PDFDict)?.get(name('S'))) === 'Transparency') {
+        report(`Form ${ref.toString()} uses a transparency group`);
+      }
+    }
+
+    if (type === 'Font' && subtype !== 'Type0' && subtype !== 'Type3') {
+      const descriptor = dict.lookupMaybe(name('FontDescriptor'), PDFDict);
+      const embedded = descriptor
+        && (descriptor.has(name('FontFile')) || descriptor.has(name('FontFile2')) || descriptor.has(name('FontFile3')));
+      if (!embedded) {
+        report(`Font ${nameText(dict.get(name('BaseFont'))) ?? ref.toString()} is not embedded`);
+      }
+    }
+
+    if (type === 'ExtGState') {
+      checkGraphicsState(dict, where);
+    }
+
+    // Resource dictionaries (indirect, or inlined in a page or form) name
+    // their graphics states and colour spaces
+    const inlineResources = dict.lookupMaybe(name('Resources'), PDFDict);
+    for (const resources of [dict, inlineResources]) {
+      resources?.lookupMaybe(name('ExtGState'), PDFDict)?.entries().forEach(([key, value]) => {
+        const state = context.lookup(value);
+        if (state instanceof PDFDict) checkGraphicsState(state, `Graphics state ${key.decodeText()} in ${where}`);
+      });
+      resources?.lookupMaybe(name('ColorSpace'), PDFDict)?.entries()
+        .forEach(([key, value]) => checkColorSpace(value, `Colour space ${key.decodeText()} in ${where}`));
+    }
+  }
+
+  for (const stream of contentStreams) {
+    if (!(stream instanceof PDFStream)) continue;
+    const content = decodeContent(stream);
+    if (content && rules.forbiddenColorSpaces.includes('DeviceRGB')
+      && (RGB_OPERATOR.test(content) || RGB_COLORSPACE_OPERATOR.test(content))) {
+      const ref = context.getObjectRef(stream);
+      report(ref ? `Content stream ${ref.toString()} paints in DeviceRGB` : 'A content stream paints in DeviceRGB');
+    }
+  }
+
+  return violations;
+};
+
+/**
+ * pdf-lib always writes a %PDF-1.7 header; PDF/X pins the version, so the
+ * digits are patched in place (same length, xref offsets stay valid).
+ */
+export const setHeaderVersion = (pdfBytes: Uint8Array, standard: PDFStandard | undefined): void => {
+  if (!standard || standard === 'none') return;
+  const [major, minor] = RULES[standard].pdfVersion;
+  const header = `%PDF-${major}.${minor}`;
+  for (let index = 0; index < header.length; index++) {
+    pdfBytes[index] = header.charCodeAt(index);
+  }
+};
+
+/**
+ * Emits the PDF/X structures and verifies the result; throws a
+ * PDFXConformanceError listing every violation when the file cannot conform.
+ */
+export const finalizePDFX = (pdfDoc: PDFDocument, standard: PDFStandard | undefined, options: PDFXOptions): void => {
+  if (!standard || standard === 'none') {
+    return;
+  }
+
+  applyPDFXStructures(pdfDoc, standard, options);
+  const violations = checkPDFXConformance(pdfDoc, standard);
+  if (violations.length > 0) {
+    console.error(`[PDFXConformance] ${violations.length} ${standard} violation(s):`, violations);
+    throw new PDFXConformanceError(standard, violations);
+  }
+  console.log(`[PDFXConformance] Document conforms to ${standard}`);
+};
@@ -0,0 +1,99 @@
+import { PDFPage } from 'pdf-lib';
+import { ProcessingParameters } from "@/types/print";
+import { mmToPoints } from "./utils";
+
+/**
+ * A rectangle in PDF user space (points, origin bottom-left).
+ */
+export interface PDFBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * The page boxes imposition software relies on:
+ * - mediaBox: the whole sheet we write, bleed plus the slug area for printer's marks
+ * - bleedBox: trim plus bleed, what the printer must keep
+ * - trimBox: the final, cut dimensions
+ * - artBox: the safe area, only present when a safe margin is set
+ */
+export interface PageBoxes {
+  mediaBox: PDFBox;
+  bleedBox: PDFBox;
+  trimBox: PDFBox;
+  artBox?: PDFBox;
+}
+
+export interface PageBoxSpec {
+  trimWidthMm: number;
+  trimHeightMm: number;
+  bleedMm: number;
+  safeMarginMm?: number;
+  /** Extra space around the bleed that carries printer's marks */
+  slugMm?: number;
+}
+
+const inset = (box: PDFBox, amount: number): PDFBox => ({
+  x: box.x + amount,
+  y: box.y + amount,
+  width: box.width - amount * 2,
+  height: box.height - amount * 2,
+});
+
+export const computePageBoxes = ({
+  trimWidthMm,
+  trimHeightMm,
+  bleedMm,
+  safeMarginMm = 0,
+  slugMm = 0,
+}: PageBoxSpec): PageBoxes => {
+  const bleed = mmToPoints(bleedMm);
+  const slug = mmToPoints(slugMm);
+  const trimBox: PDFBox = {
+    x: slug + bleed,
+    y: slug + bleed,
+    width: mmToPoints(trimWidthMm),
+    height: mmToPoints(trimHeightMm),
+  };
+  const bleedBox = inset(trimBox, -bleed);
+  const boxes: PageBoxes = {
+    mediaBox: inset(bleedBox, -slug),
+    bleedBox,
+    trimBox,
+  };
+
+  if (safeMarginMm > 0) {
+    const artBox = inset(trimBox, mmToPoints(safeMarginMm));
+    if (artBox.width <= 0 || artBox.height <= 0) {
+      throw new Error(`Safe margin of ${safeMarginMm}mm leaves no printable area inside the trim box`);
+    }
+    boxes.artBox = artBox;
+  }
+
+  return boxes;
+};
+
+export const pageBoxesFromParameters = (parameters: ProcessingParameters): PageBoxes =>
+  computePageBoxes({
+    trimWidthMm: parameters.finalDimensions.width,
+    trimHeightMm: parameters.finalDimensions.height,
+    bleedMm: parameters.bleedMargin,
+    safeMarginMm: parameters.safeMargin,
+    slugMm: parameters.printerMarks?.enabled ? parameters.printerMarks.slugSize : 0,
+  });
+
+/**
+ * Writes the boxes to the page dictionary. The MediaBox is replaced as well,
+ * so the page may be created with any size beforehand.
+ */
+export const applyPageBoxes = (page: PDFPage, boxes: PageBoxes): void => {
+  const { mediaBox, bleedBox, trimBox, artBox } = boxes;
+  page.setMediaBox(mediaBox.x, mediaBox.y, mediaBox.width, mediaBox.height);
+  page.setBleedBox(bleedBox.x, bleedBox.y, bleedBox.width, bleedBox.height);
+  page.setTrimBox(trimBox.x, trimBox.y, trimBox.width, trimBox.height);
+  if (artBox) {
+    page.setArtBox(artBox.x, artBox.y, artBox.width, artBox.height);
+  }
+};
@@ -0,0 +1,36 @@
+/**
+ * Parses a print-dialog style page range ("1-3, 5, 8-") into sorted, unique,
+ * 1-based page numbers. An empty string selects every page.
+ */
+export const parsePageRange = (input: string, pageCount: number): number[] => {
+  const trimmed = input.trim();
+  if (!trimmed) {
+    return Array.from({ length: pageCount }, (_, index) => index + 1);
+  }
+
+  const pages = new Set<number>();
+  for (const part of trimmed.split(',')) {
+    const token = part.trim();
+    if (!token) continue;
+
+    const match = token.match(/^(\d*)\s*(-)?\s*(\d*)$/);
+    if (!match || (!match[1] && !match[3])) {
+      throw new Error(`Invalid page range "${token}"`);
+    }
+
+    const start = match[1] ? Number(match[1]) : 1;
+    const end = match[2] ? (match[3] ? Number(match[3]) : pageCount) : start;
+
+    if (start < 1 || end > pageCount || start > end) {
+      throw new Error(`Page range "${token}" is outside 1-${pageCount}`);
+    }
+    for (let page = start; page <= end; page++) {
+      pages.add(page);
+    }
+  }
+
+  if (pages.size === 0) {
+    throw new Error('Page range selects no pages');
+  }
+  return [...pages].sort((a, b) => a - b);
+};
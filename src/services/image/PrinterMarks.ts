@@ -0,0 +1,262 @@
+import {
+  PDFDocument,
+  PDFOperator,
+  PDFPage,
+  PDFRef,
+  appendBezierCurve,
+  closePath,
+  concatTransformationMatrix,
+  drawObject,
+  fill,
+  lineTo,
+  moveTo,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+  setFillingCmykColor,
+  setLineWidth,
+  stroke,
+} from 'pdf-lib';
+import { PDFStandard, PrinterMarks, ProcessingParameters } from "@/types/print";
+import { PageBoxes } from "./PageBoxes";
+import { mmToPoints } from "./utils";
+import { REGISTRATION_COLOR, spotColorOperators } from "./SpotColors";
+import { beginLayer, endLayer, getLayer } from "./PDFLayers";
+
+export const PRINTER_MARKS_LAYER = "Printer's Marks";
+
+export const DEFAULT_PRINTER_MARKS: PrinterMarks = {
+  enabled: false,
+  cropMarks: true,
+  registrationMarks: true,
+  colorBar: true,
+  slugLine: true,
+  slugSize: 12,
+};
+
+const MARK_LINE_WIDTH = 0.25;
+// Crop marks start this far outside the bleed so they never print into it
+const CROP_MARK_GAP_MM = 1;
+const CROP_MARK_LENGTH_MM = 5;
+// Resolution of the rasterised slug text, high enough to look like type
+const SLUG_TEXT_DPI = 600;
+
+// Solids, overprints and tints, in the order they appear on the bar
+const COLOR_BAR_PATCHES: [number, number, number, number][] = [
+  [1, 0, 0, 0], [0, 1, 0, 0], [0, 0, 1, 0], [0, 0, 0, 1],
+  [0, 1, 1, 0], [1, 0, 1, 0], [1, 1, 0, 0], [1, 1, 1, 0],
+  [0, 0, 0, 0.75], [0, 0, 0, 0.5], [0, 0, 0, 0.25],
+  [0.5, 0, 0, 0], [0, 0.5, 0, 0], [0, 0, 0.5, 0],
+];
+
+export const hasPrinterMarks = (parameters: ProcessingParameters): boolean =>
+  !!parameters.printerMarks?.enabled;
+
+export interface PrinterMarksContext {
+  /** Shown in the slug line, usually the source file name */
+  label?: string;
+  date?: Date;
+  /** Marks go on their own layer unless the standard forbids optional content (PDF/X-1a) */
+  pdfStandard?: PDFStandard;
+}
+
+const line = (x1: number, y1: number, x2: number, y2: number): PDFOperator[] => [
+  moveTo(x1, y1),
+  lineTo(x2, y2),
+  stroke(),
+];
+
+const circle = (cx: number, cy: number, r: number): PDFOperator[] => {
+  const k = 0.5523 * r;
+  return [
+    moveTo(cx + r, cy),
+    appendBezierCurve(cx + r, cy + k, cx + k, cy + r, cx, cy + r),
+    appendBezierCurve(cx - k, cy + r, cx - r, cy + k, cx - r, cy),
+    appendBezierCurve(cx - r, cy - k, cx - k, cy - r, cx, cy - r),
+    appendBezierCurve(cx + k, cy - r, cx + r, cy - k, cx + r, cy),
+    closePath(),
+    stroke(),
+  ];
+};
+
+const cropMarks = (boxes: PageBoxes, slug: number): PDFOperator[] => {
+  const { trimBox, bleedBox } = boxes;
+  const offset = trimBox.x - bleedBox.x + mmToPoints(CROP_MARK_GAP_MM);
+  const length = Math.max(0, Math.min(mmToPoints(CROP_MARK_LENGTH_MM), slug - mmToPoints(CROP_MARK_GAP_MM) * 2));
+  if (length === 0) return [];
+
+  const operators: PDFOperator[] = [];
+  for (const [cx, sx] of [[trimBox.x, -1], [trimBox.x + trimBox.width, 1]]) {
+    for (const [cy, sy] of [[trimBox.y, -1], [trimBox.y + trimBox.height, 1]]) {
+      operators.push(
+        ...line(cx + sx * offset, cy, cx + sx * (offset + length), cy),
+        ...line(cx, cy + sy * offset, cx, cy + sy * (offset + length))
+      );
+    }
+  }
+  return operators;
+};
+
+/**
+ * Circle-and-cross targets centred in the slug on the left, right and top
+ * edges; the bottom edge carries the slug line.
+ */
+const registrationMarks = (boxes: PageBoxes, slug: number): PDFOperator[] => {
+  const { trimBox, bleedBox } = boxes;
+  const distance = trimBox.x - bleedBox.x + slug / 2;
+  const radius = Math.min(mmToPoints(2.5), slug / 4);
+  const arm = radius * 1.6;
+  const centreX = trimBox.x + trimBox.width / 2;
+  const centreY = trimBox.y + trimBox.height / 2;
+
+  const targets = [
+    [trimBox.x - distance, centreY],
+    [trimBox.x + trimBox.width + distance, centreY],
+    [centreX, trimBox.y + trimBox.height + distance],
+  ];
+  return targets.flatMap(([x, y]) => [
+    ...circle(x, y, radius),
+    ...line(x - arm, y, x + arm, y),
+    ...line(x, y - arm, x, y + arm),
+  ]);
+};
+
+/**
+ * CMYK patches along the top slug, from the left trim edge up to the
+ * registration target in the middle.
+ */
+const colorBar = (boxes: PageBoxes, slug: number): PDFOperator[] => {
+  const { trimBox, bleedBox } = boxes;
+  const size = Math.min(mmToPoints(5), slug / 2);
+  const centreY = trimBox.y + trimBox.height + (trimBox.x - bleedBox.x) + slug / 2;
+  const available = trimBox.width / 2 - Math.min(mmToPoints(2.5), slug / 4) * 1.6 - mmToPoints(2);
+  const count = Math.max(0, Math.min(COLOR_BAR_PATCHES.length, Math.floor(available / size)));
+
+  return COLOR_BAR_PATCHES.slice(0, count).flatMap(([c, m, y, k], index) => [
+    setFillingCmykColor(c, m, y, k),
+    rectangle(trimBox.x + index * size, centreY - size / 2, size, size),
+    fill(),
+  ]);
+};
+
+/**
+ * Renders the slug text into a 1-bit image mask, so it paints in the
+ * registration colour without needing an embedded font.
+ */
+const embedTextMask = (
+  pdfDoc: PDFDocument,
+  text: string,
+  heightPt: number
+): { ref: PDFRef; width: number; height: number } => {
+  const pxPerPt = SLUG_TEXT_DPI / 72;
+  const fontPx = Math.max(8, Math.round(heightPt * pxPerPt));
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get slug text canvas context');
+  }
+
+  const font = `${fontPx}px Helvetica, Arial, sans-serif`;
+  ctx.font = font;
+  canvas.width = Math.ceil(ctx.measureText(text).width) + 2;
+  canvas.height = Math.ceil(fontPx * 1.3);
+  ctx.font = font;
+  ctx.textBaseline = 'alphabetic';
+  ctx.fillText(text, 1, fontPx);
+
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const rowBytes = Math.ceil(canvas.width / 8);
+  // Image masks paint where the sample is 0, so start with every bit set
+  const bits = new Uint8Array(rowBytes * canvas.height).fill(0xff);
+  for (let y = 0; y < canvas.height; y++) {
+    for (let x = 0; x < canvas.width; x++) {
+      if (data[(y * canvas.width + x) * 4 + 3] >= 128) {
+        bits[y * rowBytes + (x >> 3)] &= ~(0x80 >> (x & 7));
+      }
+    }
+  }
+
+  const stream = pdfDoc.context.flateStream(bits, {
+    Type: 'XObject',
+    Subtype: 'Image',
+    Width: canvas.width,
+    Height: canvas.height,
+    ImageMask: true,
+    BitsPerComponent: 1,
+  });
+  return {
+    ref: pdfDoc.context.register(stream),
+    width: canvas.width / pxPerPt,
+    height: canvas.height / pxPerPt,
+  };
+};
+
+const slugLine = (
+  page: PDFPage,
+  boxes: PageBoxes,
+  parameters: ProcessingParameters,
+  slug: number,
+  context: PrinterMarksContext
+): PDFOperator[] => {
+  const { trimBox, bleedBox, mediaBox } = boxes;
+  const date = (context.date ?? new Date()).toLocaleString();
+  const { width, height } = parameters.finalDimensions;
+  const text = [
+    context.label,
+    date,
+    `${width}×${height} mm + ${parameters.bleedMargin} mm bleed`,
+  ].filter(Boolean).join('  •  ');
+
+  const mask = embedTextMask(page.doc, text, Math.min(mmToPoints(2.5), slug * 0.3));
+  const maxWidth = mediaBox.x + mediaBox.width - trimBox.x - mmToPoints(2);
+  const scale = Math.min(1, maxWidth / mask.width);
+  const drawWidth = mask.width * scale;
+  const drawHeight = mask.height * scale;
+  const centreY = bleedBox.y - slug / 2;
+
+  const name = page.node.newXObject('Slug', mask.ref);
+  return [
+    pushGraphicsState(),
+    concatTransformationMatrix(drawWidth, 0, 0, drawHeight, trimBox.x, centreY - drawHeight / 2),
+    drawObject(name),
+    popGraphicsState(),
+  ];
+};
+
+/**
+ * Draws the enabled printer's marks into the slug area of a page built with
+ * pageBoxesFromParameters(). Everything lands in one group of operators, on
+ * its own layer when allowed, so the artwork underneath is untouched.
+ */
+export const drawPrinterMarks = (
+  page: PDFPage,
+  boxes: PageBoxes,
+  parameters: ProcessingParameters,
+  context: PrinterMarksContext = {}
+): void => {
+  const marks = parameters.printerMarks;
+  if (!marks?.enabled) return;
+
+  const slug = boxes.bleedBox.x - boxes.mediaBox.x;
+  if (slug <= 0) {
+    console.warn('[PrinterMarks] No slug area on the page, skipping marks');
+    return;
+  }
+
+  const registration = spotColorOperators(page, REGISTRATION_COLOR);
+  const operators: PDFOperator[] = [pushGraphicsState(), setLineWidth(MARK_LINE_WIDTH), ...registration.stroke, ...registration.fill];
+
+  if (marks.cropMarks) operators.push(...cropMarks(boxes, slug));
+  if (marks.registrationMarks) operators.push(...registrationMarks(boxes, slug));
+  if (marks.slugLine) operators.push(...slugLine(page, boxes, parameters, slug, context));
+  if (marks.colorBar) operators.push(...colorBar(boxes, slug));
+  operators.push(popGraphicsState());
+
+  if (context.pdfStandard !== 'PDF/X-1a:2003') {
+    const layer = getLayer(page.doc, PRINTER_MARKS_LAYER);
+    page.pushOperators(beginLayer(page, layer), ...operators, endLayer());
+  } else {
+    page.pushOperators(...operators);
+  }
+  console.log(`[PrinterMarks] Drew printer's marks in a ${(slug / mmToPoints(1)).toFixed(1)}mm slug`);
+};
@@ -1,23 +1,26 @@
 
 import { ProcessingParameters } from "@/types/print";
-import { ProcessingResult, CanvasContext } from "./types";
+import { ProcessingResult, CanvasContext, ProcessingCanvas, ProcessingContext2D, SourceImage } from "./types";
 import { ImageRenderer } from "./ImageRenderer";
 import { AIBleedProcessor } from "./AIBleedProcessor";
-import { CutLineRenderer } from "./CutLineRenderer";
 import { CancellationToken } from "./CancellationToken";
-import { mmToPixels, canvasToDataURL } from "./utils";
+import { canvasToBlob, canvasToDataURL } from "./utils";
 import { AIInpaintingService } from "./AIInpaintingService";
 import { BleedFallbackFiller } from "./BleedFallbackFiller";
+import { applyDieLineBleed } from "./DieLineBleed";
+import { applyContourCut } from "./ContourCut";
+import { applyOfflineBleed } from "./OfflineBleed";
+import { CutPath } from "./CutPath";
 import { AIOutpaintingService } from "./AIOutpaintingService";
+import { chooseBleedStep, printRasterSize } from "../core/PrintLayout";
 
 export class ProcessingWorkflow {
   private imageRenderer: ImageRenderer;
   private aiBleedProcessor: AIBleedProcessor;
-  private cutLineRenderer: CutLineRenderer;
   private cancellationToken: CancellationToken;
   private onProgressUpdate?: (step: string, progress?: number) => void;
-  private ctx: CanvasRenderingContext2D;
-  private canvas: HTMLCanvasElement;
+  private ctx: ProcessingContext2D;
+  private canvas: ProcessingCanvas;
 
   constructor(
     canvasContext: CanvasContext,
@@ -31,7 +34,6 @@ export class ProcessingWorkflow {
 
     this.imageRenderer = new ImageRenderer(canvasContext);
     this.aiBleedProcessor = new AIBleedProcessor(canvasContext);
-    this.cutLineRenderer = new CutLineRenderer(this.ctx);
   }
 
   private updateProgress(step: string, progress?: number) {
@@ -41,7 +43,11 @@ export class ProcessingWorkflow {
     }
   }
 
-  async processImageWithNewWorkflow(img: HTMLImageElement, parameters: ProcessingParameters): Promise<ProcessingResult> {
+  async processImageWithNewWorkflow(
+    img: SourceImage,
+    parameters: ProcessingParameters,
+    sourceResolution?: number
+  ): Promise<ProcessingResult> {
     const originalDimensions = { width: img.width, height: img.height };
     console.log('=== NEW WORKFLOW IMAGE PROCESSING ===');
     console.log('[ProcessingWorkflow] Processing with streamlined workflow. Original dimensions:', originalDimensions);
@@ -49,12 +55,8 @@ export class ProcessingWorkflow {
     this.cancellationToken.throwIfCancelled();
     
     // Calculate dimensions with bleed
-    const finalWidth = mmToPixels(parameters.finalDimensions.width, parameters.dpi);
-    const finalHeight = mmToPixels(parameters.finalDimensions.height, parameters.dpi);
-    const bleedPixels = mmToPixels(parameters.bleedMargin, parameters.dpi);
-    
-    const canvasWidth = finalWidth + (bleedPixels * 2);
-    const canvasHeight = finalHeight + (bleedPixels * 2);
+    const size = printRasterSize(parameters);
+    const { finalWidth, finalHeight, bleedPixels, width: canvasWidth, height: canvasHeight } = size;
     
     console.log(`[ProcessingWorkflow] Target dimensions: ${finalWidth}x${finalHeight}px (${parameters.finalDimensions.width}x${parameters.finalDimensions.height}mm at ${parameters.dpi}DPI)`);
     console.log(`[ProcessingWorkflow] Canvas with bleed: ${canvasWidth}x${canvasHeight}px (includes ${bleedPixels}px bleed)`);
@@ -63,7 +65,9 @@ export class ProcessingWorkflow {
     console.log('=== STEP 1: CANVAS SETUP & RESIZE ===');
     this.updateProgress('Setting up canvas and resizing content', 20);
     this.imageRenderer.setupCanvas(canvasWidth, canvasHeight);
-    await this.imageRenderer.resizeAndPositionContent(img, finalWidth, finalHeight, bleedPixels);
+    const placement = await this.imageRenderer.resizeAndPositionContent(
+      img, finalWidth, finalHeight, bleedPixels, parameters, sourceResolution
+    );
     console.log('[ProcessingWorkflow] Content positioned successfully');
     
     this.cancellationToken.throwIfCancelled();
@@ -73,18 +77,26 @@ export class ProcessingWorkflow {
     
     // Check if AI outpainting is enabled
     const useAIOutpaint = (parameters as any).useAIOutpaint;
-    
-    if (useAIOutpaint) {
+    const bleedStep = chooseBleedStep(parameters, placement, size);
+    let cutPath: CutPath | undefined;
+    
+    if (bleedStep === 'contour') {
+      // The contour brings its own bleed, grown from the artwork outline
+      this.updateProgress('Tracing contour cut line', 40);
+      cutPath = applyContourCut(this.ctx, img, placement, parameters, bleedPixels);
+    } else if (bleedStep === 'artwork') {
+      // Cover and zoomed placements already run into the bleed with real artwork
+      console.log('[ProcessingWorkflow] Content covers the bleed, no bleed fill needed');
+    } else if (bleedStep !== 'auto') {
+      console.log(`[ProcessingWorkflow] Using offline ${bleedStep} bleed`);
+      this.updateProgress(`Generating ${bleedStep} bleed`, 40);
+      applyOfflineBleed(this.ctx, bleedStep, bleedPixels, finalWidth, finalHeight);
+    } else if (useAIOutpaint) {
       this.updateProgress('Using AI outpainting to extend image naturally', 40);
       console.log('[ProcessingWorkflow] Using AI outpainting for bleed areas');
       try {
         // Get current canvas as blob for outpainting
-        const canvasBlob = await new Promise<Blob>((resolve, reject) => {
-          this.canvas.toBlob((blob) => {
-            if (blob) resolve(blob);
-            else reject(new Error('Failed to get canvas blob'));
-          }, 'image/png');
-        });
+        const canvasBlob = await canvasToBlob(this.canvas);
 
         const outpaintingService = new AIOutpaintingService();
         const result = await outpaintingService.outpaintImage(
@@ -149,19 +161,14 @@ export class ProcessingWorkflow {
         BleedFallbackFiller.finalFillBleedFromEdge(this.ctx, bleedPixels, finalWidth, finalHeight);
       }
     }
+
+    // Shaped die-lines keep bleed only around the shape, not the whole rectangle
+    applyDieLineBleed(this.ctx, parameters, bleedPixels);
     
     this.cancellationToken.throwIfCancelled();
     
-    // Step 3: Add cut lines
-    console.log('=== STEP 3: ADDING CUT LINES ===');
-    this.updateProgress('Adding cut lines', 80);
-    this.cutLineRenderer.addCutLines(parameters, finalWidth, finalHeight, bleedPixels);
-    console.log('[ProcessingWorkflow] Cut lines added successfully');
-    
-    this.cancellationToken.throwIfCancelled();
-    
-    // Step 4: Export as high-resolution data
-    console.log('=== STEP 4: EXPORT HIGH-RESOLUTION ===');
+    // Step 3: Export as high-resolution data; the raster stays clean, cut lines are vectors in the PDF
+    console.log('=== STEP 3: EXPORT HIGH-RESOLUTION ===');
     this.updateProgress('Exporting high-resolution image', 90);
     
     const processedImageUrl = await Promise.race([
@@ -187,7 +194,8 @@ export class ProcessingWorkflow {
       processedImageUrl,
       originalDimensions,
       finalDimensions: { width: canvasWidth, height: canvasHeight },
-      appliedBleed: parameters.bleedMargin
+      appliedBleed: parameters.bleedMargin,
+      cutPath
     };
   }
 }
@@ -0,0 +1,428 @@
+import { CutPathCommand, DieLine } from "@/types/print";
+import { CutPath, ellipsePath, rectanglePath, roundedRectanglePath, transformPath } from "./CutPath";
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const SHAPES = 'path, rect, circle, ellipse, polygon, polyline, line';
+// Geometry under these is never drawn directly
+const HIDDEN_CONTAINERS = 'defs, clipPath, mask, symbol, pattern, marker';
+
+const multiply = ([a1, b1, c1, d1, e1, f1]: Matrix, [a2, b2, c2, d2, e2, f2]: Matrix): Matrix => [
+  a1 * a2 + c1 * b2,
+  b1 * a2 + d1 * b2,
+  a1 * c2 + c1 * d2,
+  b1 * c2 + d1 * d2,
+  a1 * e2 + c1 * f2 + e1,
+  b1 * e2 + d1 * f2 + f1,
+];
+
+const parseNumbers = (value: string | null): number[] =>
+  (value?.match(/[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g) ?? []).map(Number);
+
+const parseTransform = (value: string | null): Matrix => {
+  let matrix = IDENTITY;
+  if (!value) return matrix;
+
+  for (const [, name, args] of value.matchAll(/(\w+)\s*\(([^)]*)\)/g)) {
+    const n = parseNumbers(args);
+    let next: Matrix = IDENTITY;
+    switch (name) {
+      case 'matrix':
+        if (n.length === 6) next = n as Matrix;
+        break;
+      case 'translate':
+        next = [1, 0, 0, 1, n[0] ?? 0, n[1] ?? 0];
+        break;
+      case 'scale':
+        next = [n[0] ?? 1, 0, 0, n[1] ?? n[0] ?? 1, 0, 0];
+        break;
+      case 'rotate': {
+        const angle = ((n[0] ?? 0) * Math.PI) / 180;
+        const [cx, cy] = [n[1] ?? 0, n[2] ?? 0];
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        next = multiply(multiply([1, 0, 0, 1, cx, cy], [cos, sin, -sin, cos, 0, 0]), [1, 0, 0, 1, -cx, -cy]);
+        break;
+      }
+      case 'skewX':
+        next = [1, 0, Math.tan(((n[0] ?? 0) * Math.PI) / 180), 1, 0, 0];
+        break;
+      case 'skewY':
+        next = [1, Math.tan(((n[0] ?? 0) * Math.PI) / 180), 0, 1, 0, 0];
+        break;
+    }
+    matrix = multiply(matrix, next);
+  }
+  return matrix;
+};
+
+/**
+ * Converts one SVG elliptical arc (endpoint form) into cubic Béziers, using
+ * the centre parameterisation from the SVG implementation notes (F.6.5).
+ */
+const arcToCurves = (
+  x1: number, y1: number,
+  rxIn: number, ryIn: number,
+  rotationDeg: number,
+  largeArc: boolean,
+  sweep: boolean,
+  x2: number, y2: number
+): CutPathCommand[] => {
+  let rx = Math.abs(rxIn);
+  let ry = Math.abs(ryIn);
+  if (rx === 0 || ry === 0 || (x1 === x2 && y1 === y2)) {
+    return [{ op: 'L', x: x2, y: y2 }];
+  }
+
+  const phi = (rotationDeg * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const x1p = cos * dx + sin * dy;
+  const y1p = -sin * dx + cos * dy;
+
+  // Radii too small to reach the end point are scaled up
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cxp = (factor * rx * y1p) / ry;
+  const cyp = (-factor * ry * x1p) / rx;
+  const cx = cos * cxp - sin * cyp + (x1 + x2) / 2;
+  const cy = sin * cxp + cos * cyp + (y1 + y2) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) => {
+    const sign = ux * vy - uy * vx < 0 ? -1 : 1;
+    const dot = (ux * vx + uy * vy) / (Math.hypot(ux, uy) * Math.hypot(vx, vy));
+    return sign * Math.acos(Math.max(-1, Math.min(1, dot)));
+  };
+  const theta1 = angle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let delta = angle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  // At most a quarter turn per curve keeps the approximation tight
+  const segments = Math.ceil(Math.abs(delta) / (Math.PI / 2));
+  const step = delta / segments;
+  const k = (4 / 3) * Math.tan(step / 4);
+  const point = (t: number) => ({
+    x: cx + rx * Math.cos(t) * cos - ry * Math.sin(t) * sin,
+    y: cy + rx * Math.cos(t) * sin + ry * Math.sin(t) * cos,
+  });
+  const tangent = (t: number) => ({
+    x: -rx * Math.sin(t) * cos - ry * Math.cos(t) * sin,
+    y: -rx * Math.sin(t) * sin + ry * Math.cos(t) * cos,
+  });
+
+  const curves: CutPathCommand[] = [];
+  for (let i = 0; i < segments; i++) {
+    const t1 = theta1 + i * step;
+    const t2 = t1 + step;
+    const p1 = point(t1);
+    const p2 = point(t2);
+    const d1 = tangent(t1);
+    const d2 = tangent(t2);
+    curves.push({
+      op: 'C',
+      x1: p1.x + k * d1.x, y1: p1.y + k * d1.y,
+      x2: p2.x - k * d2.x, y2: p2.y - k * d2.y,
+      x: p2.x, y: p2.y,
+    });
+  }
+  // Land exactly on the requested end point
+  const last = curves[curves.length - 1];
+  if (last.op === 'C') {
+    last.x = x2;
+    last.y = y2;
+  }
+  return curves;
+};
+
+/**
+ * Parses SVG path data into absolute M/L/C/Z commands. Quadratic curves are
+ * raised to cubics and arcs are split into cubics.
+ */
+export const parseSVGPathData = (d: string): CutPath => {
+  const path: CutPath = [];
+  let index = 0;
+
+  const skipSeparators = () => {
+    while (index < d.length && /[\s,]/.test(d[index])) index++;
+  };
+  const hasNumber = () => {
+    skipSeparators();
+    return index < d.length && /[-+.\d]/.test(d[index]);
+  };
+  const readNumber = (): number => {
+    skipSeparators();
+    const match = /^[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/.exec(d.slice(index));
+    if (!match) {
+      throw new Error(`Invalid number in SVG path data at position ${index}`);
+    }
+    index += match[0].length;
+    return Number(match[0]);
+  };
+  // Arc flags may be written without separators, e.g. "a5 5 0 0110 10"
+  const readFlag = (): boolean => {
+    skipSeparators();
+    const flag = d[index++];
+    if (flag !== '0' && flag !== '1') {
+      throw new Error(`Invalid arc flag in SVG path data at position ${index - 1}`);
+    }
+    return flag === '1';
+  };
+
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  // Reflected control points for S and T
+  let lastCubic: { x: number; y: number } | null = null;
+  let lastQuad: { x: number; y: number } | null = null;
+  let command = '';
+
+  const cubic = (x1: number, y1: number, x2: number, y2: number, ex: number, ey: number) => {
+    path.push({ op: 'C', x1, y1, x2, y2, x: ex, y: ey });
+    lastCubic = { x: x2, y: y2 };
+    x = ex;
+    y = ey;
+  };
+  const quad = (qx: number, qy: number, ex: number, ey: number) => {
+    path.push({
+      op: 'C',
+      x1: x + (2 / 3) * (qx - x), y1: y + (2 / 3) * (qy - y),
+      x2: ex + (2 / 3) * (qx - ex), y2: ey + (2 / 3) * (qy - ey),
+      x: ex, y: ey,
+    });
+    lastQuad = { x: qx, y: qy };
+    x = ex;
+    y = ey;
+  };
+
+  skipSeparators();
+  while (index < d.length) {
+    if (/[a-zA-Z]/.test(d[index])) {
+      command = d[index++];
+    } else if (!command) {
+      throw new Error('SVG path data must start with a move command');
+    }
+
+    const relative = command === command.toLowerCase();
+    const ox = relative ? x : 0;
+    const oy = relative ? y : 0;
+    const upper = command.toUpperCase();
+    if (upper !== 'C' && upper !== 'S') lastCubic = null;
+    if (upper !== 'Q' && upper !== 'T') lastQuad = null;
+
+    switch (upper) {
+      case 'M': {
+        x = ox + readNumber();
+        y = oy + readNumber();
+        startX = x;
+        startY = y;
+        path.push({ op: 'M', x, y });
+        // Further pairs after a move are implicit line-tos
+        command = relative ? 'l' : 'L';
+        break;
+      }
+      case 'L':
+        x = ox + readNumber();
+        y = oy + readNumber();
+        path.push({ op: 'L', x, y });
+        break;
+      case 'H':
+        x = ox + readNumber();
+        path.push({ op: 'L', x, y });
+        break;
+      case 'V':
+        y = oy + readNumber();
+        path.push({ op: 'L', x, y });
+        break;
+      case 'C': {
+        const x1 = ox + readNumber();
+        const y1 = oy + readNumber();
+        const x2 = ox + readNumber();
+        const y2 = oy + readNumber();
+        cubic(x1, y1, x2, y2, ox + readNumber(), oy + readNumber());
+        break;
+      }
+      case 'S': {
+        const reflected: { x: number; y: number } = lastCubic ?? { x, y };
+        const x2 = ox + readNumber();
+        const y2 = oy + readNumber();
+        cubic(2 * x - reflected.x, 2 * y - reflected.y, x2, y2, ox + readNumber(), oy + readNumber());
+        break;
+      }
+      case 'Q': {
+        const qx = ox + readNumber();
+        const qy = oy + readNumber();
+        quad(qx, qy, ox + readNumber(), oy + readNumber());
+        break;
+      }
+      case 'T': {
+        const reflected: { x: number; y: number } = lastQuad ?? { x, y };
+        quad(2 * x - reflected.x, 2 * y - reflected.y, ox + readNumber(), oy + readNumber());
+        break;
+      }
+      case 'A': {
+        const rx = readNumber();
+        const ry = readNumber();
+        const rotation = readNumber();
+        const largeArc = readFlag();
+        const sweep = readFlag();
+        const ex = ox + readNumber();
+        const ey = oy + readNumber();
+        path.push(...arcToCurves(x, y, rx, ry, rotation, largeArc, sweep, ex, ey));
+        x = ex;
+        y = ey;
+        break;
+      }
+      case 'Z':
+        path.push({ op: 'Z' });
+        x = startX;
+        y = startY;
+        break;
+      default:
+        throw new Error(`Unsupported SVG path command "${command}"`);
+    }
+
+    // Z takes no arguments; anything else may repeat without the letter
+    if (upper === 'Z' && hasNumber()) {
+      throw new Error(`Unexpected number after Z in SVG path data at position ${index}`);
+    }
+    skipSeparators();
+  }
+
+  return path;
+};
+
+const attribute = (element: Element, name: string): number => Number(element.getAttribute(name) ?? 0) || 0;
+
+const pointsPath = (value: string | null, close: boolean): CutPath => {
+  const numbers = parseNumbers(value);
+  const path: CutPath = [];
+  for (let i = 0; i + 1 < numbers.length; i += 2) {
+    path.push({ op: i === 0 ? 'M' : 'L', x: numbers[i], y: numbers[i + 1] });
+  }
+  if (close && path.length > 0) path.push({ op: 'Z' });
+  return path;
+};
+
+const elementPath = (element: Element): CutPath => {
+  switch (element.tagName.toLowerCase()) {
+    case 'path':
+      return parseSVGPathData(element.getAttribute('d') ?? '');
+    case 'rect': {
+      const width = attribute(element, 'width');
+      const height = attribute(element, 'height');
+      const rx = element.hasAttribute('rx') ? attribute(element, 'rx') : attribute(element, 'ry');
+      return rx > 0
+        ? roundedRectanglePath(attribute(element, 'x'), attribute(element, 'y'), width, height, rx)
+        : rectanglePath(attribute(element, 'x'), attribute(element, 'y'), width, height);
+    }
+    case 'circle': {
+      const r = attribute(element, 'r');
+      return ellipsePath(attribute(element, 'cx'), attribute(element, 'cy'), r, r);
+    }
+    case 'ellipse':
+      return ellipsePath(attribute(element, 'cx'), attribute(element, 'cy'), attribute(element, 'rx'), attribute(element, 'ry'));
+    case 'polygon':
+      return pointsPath(element.getAttribute('points'), true);
+    case 'polyline':
+      return pointsPath(element.getAttribute('points'), false);
+    case 'line':
+      return [
+        { op: 'M', x: attribute(element, 'x1'), y: attribute(element, 'y1') },
+        { op: 'L', x: attribute(element, 'x2'), y: attribute(element, 'y2') },
+      ];
+    default:
+      return [];
+  }
+};
+
+/**
+ * Bounding box of a path. Curves are sampled, which is well within a
+ * printer's tolerance at the scale die-lines are drawn.
+ */
+export const pathBounds = (path: CutPath): DieLine['bounds'] => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  const add = (px: number, py: number) => {
+    minX = Math.min(minX, px);
+    minY = Math.min(minY, py);
+    maxX = Math.max(maxX, px);
+    maxY = Math.max(maxY, py);
+  };
+
+  let x = 0;
+  let y = 0;
+  for (const command of path) {
+    if (command.op === 'C') {
+      for (let i = 1; i <= 32; i++) {
+        const t = i / 32;
+        const mt = 1 - t;
+        add(
+          mt * mt * mt * x + 3 * mt * mt * t * command.x1 + 3 * mt * t * t * command.x2 + t * t * t * command.x,
+          mt * mt * mt * y + 3 * mt * mt * t * command.y1 + 3 * mt * t * t * command.y2 + t * t * t * command.y
+        );
+      }
+    }
+    if (command.op !== 'Z') {
+      x = command.x;
+      y = command.y;
+      add(x, y);
+    }
+  }
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+/**
+ * Reads every visible shape of an SVG file into one die-line, with element
+ * and group transforms applied. The result is scaled to the trim when used.
+ */
+export const parseSVGDieLine = async (file: File): Promise<DieLine> => {
+  const text = await file.text();
+  const document = new DOMParser().parseFromString(text, 'image/svg+xml');
+  const root = document.documentElement;
+  if (root.tagName.toLowerCase() !== 'svg' || document.querySelector('parsererror')) {
+    throw new Error(`${file.name} is not a valid SVG file`);
+  }
+
+  const path: CutPath = [];
+  for (const element of Array.from(root.querySelectorAll(SHAPES))) {
+    if (element.closest(HIDDEN_CONTAINERS)) continue;
+
+    // Compose transforms from the outermost group inwards
+    let matrix = IDENTITY;
+    const chain: Element[] = [];
+    for (let node: Element | null = element; node && node !== root; node = node.parentElement) {
+      chain.unshift(node);
+    }
+    for (const node of chain) {
+      matrix = multiply(matrix, parseTransform(node.getAttribute('transform')));
+    }
+
+    path.push(...transformPath(elementPath(element), matrix));
+  }
+
+  if (!path.some((command) => command.op !== 'M' && command.op !== 'Z')) {
+    throw new Error(`${file.name} contains no shapes to use as a die-line`);
+  }
+
+  const bounds = pathBounds(path);
+  if (bounds.width <= 0 || bounds.height <= 0) {
+    throw new Error(`The die-line in ${file.name} has no area`);
+  }
+
+  console.log(`[SVGDieLine] Parsed ${path.length} path commands from ${file.name}`, bounds);
+  return { name: file.name, path, bounds };
+};
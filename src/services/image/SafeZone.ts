@@ -0,0 +1,222 @@
+import { ProcessingParameters, UploadedFile } from "@/types/print";
+import { PixelBuffer, PixelRect, SourceImage } from "./types";
+import { createCanvas, getContext2D } from "./utils";
+import { cutPathFromParameters, cutPathToSVG } from "./CutPath";
+import { fitContent } from "./ContentFit";
+import { CanvasManager } from "./CanvasManager";
+import { ImageRenderer } from "./ImageRenderer";
+import { FileProcessor } from "./FileProcessor";
+import { PDF_RENDER_DPI } from "./PDFProcessor";
+
+// Checked when no safe margin is set, the usual minimum for trimmed print
+export const DEFAULT_SAFE_ZONE_MM = 3;
+
+// Analysis resolution; text a few mm high is still several pixels tall
+const ANALYSIS_PX_PER_MM = 4;
+const MAX_ANALYSIS_SIDE = 1600;
+const CELL_MM = 2;
+// Sobel response (|gx| + |gy| on 0-255 luminance) of a high-contrast edge
+const EDGE_THRESHOLD = 256;
+// Share of edge pixels that makes a cell detailed, as text and line art are
+const DENSITY_THRESHOLD = 0.1;
+// Cells with fewer band pixels than this share are too thin a sliver to judge
+const MIN_BAND_SHARE = 0.2;
+const MAX_REGIONS = 12;
+
+export interface SafeZoneRegion extends PixelRect {
+  /** Share of edge pixels across the region, 0-1 */
+  density: number;
+}
+
+/**
+ * Groups detailed cells into rectangles: runs along each row of cells, and
+ * runs with the same extent in consecutive rows grow into one rectangle.
+ */
+const mergeCells = (flagged: Float32Array, columns: number, rows: number): SafeZoneRegion[] => {
+  const regions: (SafeZoneRegion & { cells: number })[] = [];
+  let open = new Map<string, SafeZoneRegion & { cells: number }>();
+
+  for (let row = 0; row < rows; row++) {
+    const next = new Map<string, SafeZoneRegion & { cells: number }>();
+    let column = 0;
+    while (column < columns) {
+      if (flagged[row * columns + column] <= 0) {
+        column++;
+        continue;
+      }
+      const start = column;
+      let density = 0;
+      while (column < columns && flagged[row * columns + column] > 0) {
+        density += flagged[row * columns + column];
+        column++;
+      }
+
+      const key = `${start}:${column}`;
+      const above = open.get(key);
+      if (above) {
+        above.height++;
+        above.density += density;
+        above.cells += column - start;
+        next.set(key, above);
+      } else {
+        const region = { x: start, y: row, width: column - start, height: 1, density, cells: column - start };
+        regions.push(region);
+        next.set(key, region);
+      }
+    }
+    open = next;
+  }
+
+  return regions.map(({ cells, ...region }) => ({ ...region, density: region.density / cells }));
+};
+
+/**
+ * Finds clusters of high-contrast detail (text, line art, logos) inside
+ * `band`, a mask of the pixels that are part of the safe zone. Works on any
+ * pixel buffer and returns rectangles in pixels, densest first.
+ */
+export const findSafeZoneDetail = (image: PixelBuffer, band: Uint8Array, cellPx: number): SafeZoneRegion[] => {
+  const { data, width, height } = image;
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+  }
+  const at = (x: number, y: number) =>
+    luma[Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))];
+
+  const columns = Math.ceil(width / cellPx);
+  const rows = Math.ceil(height / cellPx);
+  const edgeCount = new Uint32Array(columns * rows);
+  const bandCount = new Uint32Array(columns * rows);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!band[y * width + x]) continue;
+      const cell = Math.floor(y / cellPx) * columns + Math.floor(x / cellPx);
+      bandCount[cell]++;
+
+      const gx =
+        at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1) -
+        at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1);
+      const gy =
+        at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1) -
+        at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1);
+      if (Math.abs(gx) + Math.abs(gy) >= EDGE_THRESHOLD) {
+        edgeCount[cell]++;
+      }
+    }
+  }
+
+  // Density per detailed cell, 0 for the rest
+  const flagged = new Float32Array(columns * rows);
+  const minBand = cellPx * cellPx * MIN_BAND_SHARE;
+  for (let cell = 0; cell < flagged.length; cell++) {
+    if (bandCount[cell] < minBand) continue;
+    const density = edgeCount[cell] / bandCount[cell];
+    if (density >= DENSITY_THRESHOLD) flagged[cell] = density;
+  }
+
+  return mergeCells(flagged, columns, rows)
+    .map((region) => {
+      const x = region.x * cellPx;
+      const y = region.y * cellPx;
+      return {
+        x,
+        y,
+        width: Math.min(width, x + region.width * cellPx) - x,
+        height: Math.min(height, y + region.height * cellPx) - y,
+        density: region.density,
+      };
+    })
+    .sort((a, b) => b.density - a.density);
+};
+
+/**
+ * Renders the artwork where processing will place it and looks for text and
+ * fine detail between the cut line and the safe margin inside it. Regions
+ * come back in mm from the trim's top-left corner.
+ *
+ * `sourceResolution` is the source's pixels per inch when known (rendered
+ * PDF pages), for actual-size placement.
+ */
+export const analyzeSafeZone = (
+  img: SourceImage,
+  parameters: ProcessingParameters,
+  sourceResolution?: number
+): SafeZoneRegion[] => {
+  const { width: trimWidth, height: trimHeight } = parameters.finalDimensions;
+  const safeMargin = parameters.safeMargin || DEFAULT_SAFE_ZONE_MM;
+  const pxPerMm = Math.min(ANALYSIS_PX_PER_MM, MAX_ANALYSIS_SIDE / Math.max(trimWidth, trimHeight));
+  const width = Math.max(1, Math.round(trimWidth * pxPerMm));
+  const height = Math.max(1, Math.round(trimHeight * pxPerMm));
+
+  const canvas = createCanvas(width, height);
+  const ctx = getContext2D(canvas);
+  if (!ctx) {
+    throw new Error('Failed to get safe zone canvas context');
+  }
+
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, width, height);
+  const fit = fitContent(
+    { width: img.width, height: img.height },
+    parameters.finalDimensions,
+    parameters,
+    1,
+    25.4 / (sourceResolution ?? parameters.dpi)
+  );
+  ctx.drawImage(img, fit.x * pxPerMm, fit.y * pxPerMm, fit.width * pxPerMm, fit.height * pxPerMm);
+  const pixels = ctx.getImageData(0, 0, width, height);
+
+  // The band is inside the cut shape and within the safe margin of its outline
+  const shape = new Path2D(cutPathToSVG(cutPathFromParameters(parameters)));
+  ctx.clearRect(0, 0, width, height);
+  ctx.setTransform(pxPerMm, 0, 0, pxPerMm, 0, 0);
+  ctx.fillStyle = '#FF0000';
+  ctx.fill(shape);
+  ctx.globalCompositeOperation = 'source-atop';
+  ctx.strokeStyle = '#FFFFFF';
+  ctx.lineWidth = safeMargin * 2;
+  ctx.lineJoin = 'round';
+  ctx.stroke(shape);
+  const { data: bandData } = ctx.getImageData(0, 0, width, height);
+  canvas.width = 0;
+  canvas.height = 0;
+
+  const band = new Uint8Array(width * height);
+  for (let i = 0; i < band.length; i++) {
+    // Only the stroke inside the filled shape is white
+    band[i] = bandData[i * 4 + 1] >= 128 ? 1 : 0;
+  }
+
+  const regions = findSafeZoneDetail(pixels, band, Math.max(2, Math.round(CELL_MM * pxPerMm)))
+    .slice(0, MAX_REGIONS)
+    .map((region) => ({
+      x: region.x / pxPerMm,
+      y: region.y / pxPerMm,
+      width: region.width / pxPerMm,
+      height: region.height / pxPerMm,
+      density: region.density,
+    }));
+  console.log(`[SafeZone] ${regions.length} detailed region(s) within the ${safeMargin}mm safe zone`);
+  return regions;
+};
+
+/**
+ * Loads the first page of the file the way processing does and checks its
+ * safe zone.
+ */
+export const checkSafeZone = async (
+  file: UploadedFile,
+  parameters: ProcessingParameters
+): Promise<SafeZoneRegion[]> => {
+  const canvasManager = new CanvasManager();
+  const fileProcessor = new FileProcessor(new ImageRenderer(canvasManager.getCanvasContext()));
+  try {
+    const img = await fileProcessor.processFile(file, parameters, 1);
+    return analyzeSafeZone(img, parameters, file.type === 'pdf' ? PDF_RENDER_DPI : undefined);
+  } finally {
+    fileProcessor.destroy();
+    canvasManager.destroy();
+  }
+};
@@ -0,0 +1,64 @@
+import { PDFDocument, PDFName, PDFNumber, PDFOperator, PDFOperatorNames as Ops, PDFPage, PDFRef } from 'pdf-lib';
+import { addPageResource } from "./PDFResources";
+
+/**
+ * A named ink, written as a Separation colour space. `cmyk` (0-1) is the
+ * alternate used by anything that does not know the ink.
+ */
+export interface SpotColor {
+  name: string;
+  cmyk: [number, number, number, number];
+}
+
+/**
+ * The registration colour: "All" prints on every separation.
+ */
+export const REGISTRATION_COLOR: SpotColor = { name: 'All', cmyk: [1, 1, 1, 1] };
+
+const colorSpaceRefs = new WeakMap<PDFDocument, Map<string, PDFRef>>();
+
+/**
+ * Registers `[/Separation /Name /DeviceCMYK tint-transform]` once per document.
+ */
+export const getSpotColorSpaceRef = (pdfDoc: PDFDocument, spot: SpotColor): PDFRef => {
+  let refs = colorSpaceRefs.get(pdfDoc);
+  if (!refs) {
+    refs = new Map();
+    colorSpaceRefs.set(pdfDoc, refs);
+  }
+
+  let ref = refs.get(spot.name);
+  if (!ref) {
+    // Linear interpolation from no ink to the alternate CMYK values
+    const tintTransform = pdfDoc.context.obj({
+      FunctionType: 2,
+      Domain: [0, 1],
+      C0: [0, 0, 0, 0],
+      C1: spot.cmyk,
+      N: 1,
+    });
+    ref = pdfDoc.context.register(
+      pdfDoc.context.obj([PDFName.of('Separation'), PDFName.of(spot.name), PDFName.of('DeviceCMYK'), tintTransform])
+    );
+    refs.set(spot.name, ref);
+  }
+  return ref;
+};
+
+/**
+ * Operators that select the spot colour (at the given tint) for stroking and
+ * filling on this page.
+ */
+export const spotColorOperators = (page: PDFPage, spot: SpotColor, tint = 1) => {
+  const key = addPageResource(page, 'ColorSpace', 'CS', getSpotColorSpaceRef(page.doc, spot));
+  return {
+    stroke: [
+      PDFOperator.of(Ops.StrokingColorspace, [key]),
+      PDFOperator.of(Ops.StrokingColorN, [PDFNumber.of(tint)]),
+    ],
+    fill: [
+      PDFOperator.of(Ops.NonStrokingColorspace, [key]),
+      PDFOperator.of(Ops.NonStrokingColorN, [PDFNumber.of(tint)]),
+    ],
+  };
+};
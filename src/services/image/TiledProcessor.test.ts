@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PDFDict, PDFDocument, PDFName, PDFRawStream } from "pdf-lib";
+import { ProcessingParameters, UploadedFile } from "@/types/print";
+import { DEFAULT_PROCESSING_PARAMETERS } from "@/services/presets/defaults";
+import { TILE_SIZE, TiledProcessor, needsTiledProcessing } from "./TiledProcessor";
+import { mmToPixels } from "./utils";
+
+// A roll-up banner: 850 x 2000 mm at 150 DPI with 3 mm bleed, about 60 megapixels
+const DPI = 150;
+const WIDTH_MM = 850;
+const HEIGHT_MM = 2000;
+const BLEED_MM = 3;
+const CANVAS_WIDTH = mmToPixels(WIDTH_MM + BLEED_MM * 2, DPI);
+const CANVAS_HEIGHT = mmToPixels(HEIGHT_MM + BLEED_MM * 2, DPI);
+const FULL_PAGE_BYTES = CANVAS_WIDTH * CANVAS_HEIGHT * 4;
+
+// PDF.js does not load under Node 20 and images never reach it
+vi.mock("./PDFProcessor", () => ({
+  PDFProcessor: class {
+    destroy() {}
+  },
+}));
+
+// The source is decoded by <img> and drawn on canvases; these stand-ins hand
+// out grey pixels and record how large a region was ever read back.
+class FakeImage {
+  width = 4000;
+  height = 9400;
+  crossOrigin = "";
+  onload: () => void = () => {};
+  onerror: (error: unknown) => void = () => {};
+
+  set src(_url: string) {
+    queueMicrotask(() => this.onload());
+  }
+
+  removeAttribute() {}
+}
+
+let largestRead = 0;
+let peakArrayBuffers = 0;
+
+const sampleMemory = () => {
+  peakArrayBuffers = Math.max(peakArrayBuffers, process.memoryUsage().arrayBuffers);
+};
+
+const fakeCanvas = () => {
+  const canvas = {
+    width: 0,
+    height: 0,
+    getContext: () => context,
+    toDataURL: () => "data:image/png;base64,",
+  };
+  const context = {
+    canvas,
+    fillStyle: "",
+    imageSmoothingEnabled: true,
+    imageSmoothingQuality: "low",
+    fillRect: () => {},
+    clearRect: () => {},
+    drawImage: () => {},
+    putImageData: sampleMemory,
+    getImageData: (_x: number, _y: number, width: number, height: number) => {
+      largestRead = Math.max(largestRead, width * height);
+      sampleMemory();
+      return { data: new Uint8ClampedArray(width * height * 4).fill(128), width, height };
+    },
+  };
+  return canvas;
+};
+
+const parameters = (): ProcessingParameters => ({
+  ...DEFAULT_PROCESSING_PARAMETERS,
+  finalDimensions: { width: WIDTH_MM, height: HEIGHT_MM },
+  bleedMargin: BLEED_MM,
+  dpi: DPI,
+  safeMargin: 0,
+  printerMarks: { ...DEFAULT_PROCESSING_PARAMETERS.printerMarks!, enabled: false },
+});
+
+const upload: UploadedFile = {
+  file: new File([new Uint8Array(16)], "rollup.jpg", { type: "image/jpeg" }),
+  type: "image",
+};
+
+describe("TiledProcessor", () => {
+  beforeEach(() => {
+    largestRead = 0;
+    peakArrayBuffers = 0;
+    vi.stubGlobal("Image", FakeImage);
+    vi.stubGlobal("document", { createElement: () => fakeCanvas() });
+    vi.spyOn(URL, "createObjectURL").mockReturnValue("fake:rollup");
+    vi.spyOn(URL, "revokeObjectURL").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("exports a roll-up banner tile by tile without a full-size raster", async () => {
+    expect(needsTiledProcessing(parameters())).toBe(true);
+    const processor = new TiledProcessor();
+
+    const { pdf, pageCount } = await processor.process(upload, parameters(), []);
+    processor.destroy();
+    sampleMemory();
+
+    expect(pageCount).toBe(1);
+    const pdfDoc = await PDFDocument.load(new Uint8Array(await pdf.arrayBuffer()));
+    const xObjects = pdfDoc.getPage(0).node.Resources()!.lookup(PDFName.of("XObject"), PDFDict);
+    const tiles = xObjects
+      .entries()
+      .map(([, ref]) => pdfDoc.context.lookup(ref))
+      .filter((stream): stream is PDFRawStream => stream instanceof PDFRawStream);
+    expect(tiles).toHaveLength(Math.ceil(CANVAS_WIDTH / TILE_SIZE) * Math.ceil(CANVAS_HEIGHT / TILE_SIZE));
+
+    // No read-back is larger than a tile with its halo on every side
+    const halo = mmToPixels(BLEED_MM, DPI) * 2 + 1;
+    expect(largestRead).toBeLessThanOrEqual((TILE_SIZE + halo * 2) ** 2);
+    // Tiles are compressed as they are embedded, and the working set (garbage
+    // not yet collected included) stays below one uncompressed copy of the page
+    expect(pdf.size).toBeLessThan(FULL_PAGE_BYTES / 20);
+    expect(peakArrayBuffers).toBeLessThan(FULL_PAGE_BYTES * 0.75);
+  }, 120_000);
+});
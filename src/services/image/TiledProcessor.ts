@@ -0,0 +1,375 @@
+import { PDFDocument, PDFPage } from 'pdf-lib';
+import { BleedMethod, ProcessingParameters, UploadedFile } from "@/types/print";
+import {
+  ContentPlacement,
+  PageProgress,
+  PixelRect,
+  ProcessingCanvas,
+  ProcessingContext2D,
+  ProgressCallback,
+  TiledProcessingResult,
+} from "./types";
+import { CancellationToken } from "./CancellationToken";
+import { CanvasManager } from "./CanvasManager";
+import { ImageRenderer } from "./ImageRenderer";
+import { coversCanvas, placeContent, visibleSourceRegion } from "./ContentFit";
+import { FileProcessor } from "./FileProcessor";
+import { PDFProcessor } from "./PDFProcessor";
+import { fillOfflineBleed } from "./OfflineBleed";
+import { applyDieLineBleed } from "./DieLineBleed";
+import { PageBoxes, applyPageBoxes, pageBoxesFromParameters } from "./PageBoxes";
+import { PDFExportOptions, createPrintDocument, embedPixels, placeImage, savePrintDocument } from "./PDFExporter";
+import { prepareExportOptions } from "./OutputExporter";
+import { shouldPreserveVectors } from "./VectorPDFComposer";
+import { drawCutContour } from "./CutContour";
+import { drawPrinterMarks } from "./PrinterMarks";
+import { canvasToDataURL, createCanvas, getContext2D, mapPageProgress, mmToPixels } from "./utils";
+
+// Safari refuses canvases above 16.7M pixels; other browsers cap each side
+const MAX_CANVAS_AREA = 16_777_216;
+const MAX_CANVAS_SIDE = 16_384;
+export const TILE_SIZE = 2048;
+// Neighbouring tiles overlap by a pixel so viewers show no hairline between them
+const TILE_OVERLAP_PX = 1;
+const PREVIEW_MAX_SIDE = 2048;
+
+interface TiledLayout {
+  finalWidth: number;
+  finalHeight: number;
+  bleedPixels: number;
+  canvasWidth: number;
+  canvasHeight: number;
+}
+
+/** Something that can draw its content into any region of the page */
+interface TileSource {
+  width: number;
+  height: number;
+  /** Source units per inch when known: points for PDF pages */
+  resolution?: number;
+  draw(ctx: ProcessingContext2D, placement: ContentPlacement, origin: PixelRect): Promise<void>;
+  close(): void;
+}
+
+const tiledLayout = (parameters: ProcessingParameters): TiledLayout => {
+  const finalWidth = mmToPixels(parameters.finalDimensions.width, parameters.dpi);
+  const finalHeight = mmToPixels(parameters.finalDimensions.height, parameters.dpi);
+  const bleedPixels = mmToPixels(parameters.bleedMargin, parameters.dpi);
+  return {
+    finalWidth,
+    finalHeight,
+    bleedPixels,
+    canvasWidth: finalWidth + bleedPixels * 2,
+    canvasHeight: finalHeight + bleedPixels * 2,
+  };
+};
+
+/**
+ * True when the page with bleed is too large for a single canvas in some
+ * browsers, so it has to go through the tiled pipeline.
+ */
+export const needsTiledProcessing = (parameters: ProcessingParameters): boolean => {
+  const { canvasWidth, canvasHeight } = tiledLayout(parameters);
+  return canvasWidth > MAX_CANVAS_SIDE ||
+    canvasHeight > MAX_CANVAS_SIDE ||
+    canvasWidth * canvasHeight > MAX_CANVAS_AREA;
+};
+
+/**
+ * AI bleed needs the whole image at once, so tiles use the edge fill instead.
+ */
+const tiledBleedMethod = (parameters: ProcessingParameters): Exclude<BleedMethod, 'auto'> => {
+  const method = parameters.bleedMethod ?? 'auto';
+  if (method === 'auto') {
+    console.log('[TiledProcessor] AI bleed is not available for tiles, using the edge fill');
+    return 'edge';
+  }
+  return method;
+};
+
+const intersect = (a: PixelRect, b: PixelRect): PixelRect => {
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(a.x + a.width, b.x + b.width) - x),
+    height: Math.max(0, Math.min(a.y + a.height, b.y + b.height) - y),
+  };
+};
+
+const nextFrame = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Processes pages that are too large for one canvas. Each page is rendered,
+ * bled and exported in square tiles that go straight into the PDF as
+ * separate images, so no full-size canvas or image is ever allocated.
+ *
+ * Memory: one tile with its halo is held uncompressed at a time. Each tile is
+ * deflated as it is embedded and its pixels are released, but the compressed
+ * tiles stay in the document until it is saved, and saving builds the whole
+ * file in memory. The peak is therefore about the working tile plus two to
+ * three times the compressed output (photographic content deflates to roughly
+ * half or two thirds of its RGB size).
+ *
+ * Every tile is rendered with a halo twice the bleed deep around it, which
+ * gives the bleed fill the same neighbourhood it would have on the full page:
+ * edge, mirror and smear bleed come out identical to an untiled run. Contour
+ * cuts and AI bleed need the whole image at once and are not available here.
+ */
+export class TiledProcessor {
+  private canvasManager: CanvasManager;
+  private imageRenderer: ImageRenderer;
+  private fileProcessor: FileProcessor;
+  private pdfProcessor: PDFProcessor;
+  private cancellationToken: CancellationToken;
+  private onProgressUpdate?: ProgressCallback;
+  private currentPage?: PageProgress;
+
+  constructor(onProgressUpdate?: ProgressCallback) {
+    this.onProgressUpdate = onProgressUpdate;
+    this.cancellationToken = new CancellationToken();
+    this.canvasManager = new CanvasManager();
+    this.imageRenderer = new ImageRenderer(this.canvasManager.getCanvasContext());
+    this.fileProcessor = new FileProcessor(this.imageRenderer);
+    this.pdfProcessor = new PDFProcessor(this.imageRenderer);
+  }
+
+  cancel(reason?: string): void {
+    console.log('[TiledProcessor] Cancelling tiled processing:', reason);
+    this.cancellationToken.cancel(reason);
+  }
+
+  private updateProgress(step: string, progress?: number) {
+    const page = this.currentPage;
+    const { label, overall } = mapPageProgress(step, progress, page);
+
+    console.log(`[TiledProcessor] ${label}${overall !== undefined ? ` (${overall.toFixed(1)}%)` : ''}`);
+    if (this.onProgressUpdate) {
+      this.onProgressUpdate(label, overall, page);
+    }
+  }
+
+  private async loadSource(file: UploadedFile, pageNumber: number): Promise<TileSource> {
+    if (file.type !== 'pdf') {
+      const img = await this.fileProcessor.loadImageFile(file);
+      return {
+        width: img.width,
+        height: img.height,
+        draw: async (ctx, placement, origin) => {
+          // Only the source pixels that land on the region are scaled
+          const shifted = { ...placement, x: placement.x - origin.x, y: placement.y - origin.y };
+          const visible = visibleSourceRegion(img.width, img.height, shifted, origin.width, origin.height);
+          if (!visible) return;
+          const { source, target } = visible;
+          ctx.drawImage(
+            img,
+            source.x, source.y, source.width, source.height,
+            target.x, target.y, target.width, target.height
+          );
+        },
+        close: () => img.removeAttribute('src'),
+      };
+    }
+
+    // PDF pages are rendered region by region at the final resolution: the
+    // viewport is offset so the region starts at the canvas origin, and the
+    // region-sized canvas is all PDF.js paints into
+    const page = await this.pdfProcessor.getPage(file, pageNumber);
+    const unscaled = page.getViewport({ scale: 1 });
+    return {
+      width: unscaled.width,
+      height: unscaled.height,
+      resolution: 72,
+      draw: async (ctx, placement, origin) => {
+        await page.render({
+          canvasContext: ctx as CanvasRenderingContext2D,
+          viewport: page.getViewport({
+            scale: placement.width / unscaled.width,
+            offsetX: placement.x - origin.x,
+            offsetY: placement.y - origin.y,
+          }),
+          intent: 'print',
+        }).promise;
+      },
+      close: () => page.cleanup(),
+    };
+  }
+
+  /**
+   * Renders one page tile by tile into `page`, filling the bleed of every
+   * tile and drawing a downscaled copy into `preview` when given.
+   */
+  private async renderTiles(
+    pdfDoc: PDFDocument,
+    page: PDFPage,
+    boxes: PageBoxes,
+    source: TileSource,
+    parameters: ProcessingParameters,
+    layout: TiledLayout,
+    exportOptions: PDFExportOptions,
+    preview: { canvas: ProcessingCanvas; ctx: ProcessingContext2D; scale: number } | null
+  ): Promise<void> {
+    const { canvasWidth, canvasHeight, bleedPixels, finalWidth, finalHeight } = layout;
+    const { canvas, ctx } = this.canvasManager.getCanvasContext();
+    const bleedMethod = tiledBleedMethod(parameters);
+    const placement = placeContent(
+      source.width, source.height, finalWidth, finalHeight, bleedPixels, parameters, source.resolution
+    );
+    // Content that runs past every edge is its own bleed
+    const fillBleed = bleedPixels > 0 && !coversCanvas(placement, canvasWidth, canvasHeight);
+    const trim = { x: bleedPixels, y: bleedPixels, width: finalWidth, height: finalHeight };
+    const bounds = { x: 0, y: 0, width: canvasWidth, height: canvasHeight };
+    const halo = bleedPixels * 2;
+
+    const { bleedBox } = boxes;
+    const scaleX = bleedBox.width / canvasWidth;
+    const scaleY = bleedBox.height / canvasHeight;
+
+    const columns = Math.ceil(canvasWidth / TILE_SIZE);
+    const rows = Math.ceil(canvasHeight / TILE_SIZE);
+    const total = columns * rows;
+
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        this.cancellationToken.throwIfCancelled();
+        const index = row * columns + column;
+        this.updateProgress(`Rendering tile ${index + 1}/${total}`, 5 + (index / total) * 90);
+
+        const core = intersect({ x: column * TILE_SIZE, y: row * TILE_SIZE, width: TILE_SIZE, height: TILE_SIZE }, bounds);
+        const emitted = intersect({ ...core, width: core.width + TILE_OVERLAP_PX, height: core.height + TILE_OVERLAP_PX }, bounds);
+        const region = intersect(
+          { x: core.x - halo, y: core.y - halo, width: core.width + halo * 2, height: core.height + halo * 2 },
+          bounds
+        );
+
+        this.imageRenderer.setupCanvas(region.width, region.height);
+        ctx.imageSmoothingEnabled = true;
+        ctx.imageSmoothingQuality = 'high';
+        // Tiles entirely in the bleed have nothing of the source to draw
+        const drawn = intersect(placement, region);
+        if (drawn.width > 0 && drawn.height > 0) {
+          await source.draw(ctx, placement, region);
+        }
+
+        // The part of the trim inside this region, in region pixels
+        const content = intersect(trim, region);
+        content.x -= region.x;
+        content.y -= region.y;
+        const touchesBleed = content.width < region.width || content.height < region.height;
+        if (fillBleed && touchesBleed && content.width > 0 && content.height > 0) {
+          const imageData = ctx.getImageData(0, 0, region.width, region.height);
+          fillOfflineBleed(imageData, bleedMethod, content, bleedPixels);
+          ctx.putImageData(imageData, 0, 0);
+        }
+        applyDieLineBleed(ctx, parameters, bleedPixels, region);
+
+        const tile = ctx.getImageData(emitted.x - region.x, emitted.y - region.y, emitted.width, emitted.height);
+        const imageRef = embedPixels(pdfDoc, tile, exportOptions);
+        placeImage(
+          page,
+          imageRef,
+          bleedBox.x + emitted.x * scaleX,
+          bleedBox.y + (canvasHeight - emitted.y - emitted.height) * scaleY,
+          emitted.width * scaleX,
+          emitted.height * scaleY
+        );
+
+        if (preview) {
+          preview.ctx.drawImage(
+            canvas,
+            core.x - region.x, core.y - region.y, core.width, core.height,
+            core.x * preview.scale, core.y * preview.scale, core.width * preview.scale, core.height * preview.scale
+          );
+        }
+
+        // Let the page repaint and take a cancel click between tiles
+        await nextFrame();
+      }
+    }
+    console.log(`[TiledProcessor] Streamed ${total} tile(s) of ${canvasWidth}x${canvasHeight}px into the PDF`);
+  }
+
+  async process(
+    file: UploadedFile,
+    parameters: ProcessingParameters,
+    pageNumbers: number[],
+    options: PDFExportOptions = {}
+  ): Promise<TiledProcessingResult> {
+    console.log('=== TILED PROCESSING START ===');
+    if (parameters.cutLineType === 'contour') {
+      throw new Error('Contour cut lines are not available for very large formats. Choose another cut line type or a lower DPI.');
+    }
+    if (shouldPreserveVectors(file, parameters)) {
+      console.warn('[TiledProcessor] Very large formats are always rasterised; vector content is not preserved');
+    }
+
+    const pages = file.type === 'pdf' && pageNumbers.length > 0 ? pageNumbers : [1];
+    const layout = tiledLayout(parameters);
+    const boxes = pageBoxesFromParameters(parameters);
+    const exportOptions = await prepareExportOptions(parameters, options);
+    if (exportOptions.imageEncoding === 'jpeg') {
+      console.log('[TiledProcessor] Tiles are always stored with Flate');
+    }
+    console.log(`[TiledProcessor] ${layout.canvasWidth}x${layout.canvasHeight}px per page, ${pages.length} page(s)`);
+
+    try {
+      const pdfDoc = await createPrintDocument(exportOptions);
+      let previewUrl = '';
+
+      for (let index = 0; index < pages.length; index++) {
+        this.cancellationToken.throwIfCancelled();
+        this.currentPage = { current: index + 1, total: pages.length, pageNumber: pages[index] };
+        this.updateProgress(file.type === 'pdf' ? 'Loading PDF page' : 'Loading image', 2);
+        const source = await this.loadSource(file, pages[index]);
+
+        const preview = index === 0 ? this.createPreview(layout) : null;
+        const page = pdfDoc.addPage([boxes.mediaBox.width, boxes.mediaBox.height]);
+        applyPageBoxes(page, boxes);
+
+        try {
+          await this.renderTiles(pdfDoc, page, boxes, source, parameters, layout, exportOptions, preview);
+        } finally {
+          source.close();
+        }
+
+        drawCutContour(page, boxes, parameters, exportOptions.pdfStandard);
+        drawPrinterMarks(page, boxes, parameters, { label: options.title, pdfStandard: exportOptions.pdfStandard });
+
+        if (preview) {
+          previewUrl = await canvasToDataURL(preview.canvas);
+          preview.canvas.width = 0;
+          preview.canvas.height = 0;
+        }
+      }
+
+      this.currentPage = undefined;
+      this.updateProgress('Saving PDF', 98);
+      const pdf = await savePrintDocument(pdfDoc, exportOptions);
+      console.log('=== TILED PROCESSING COMPLETE ===', 'size:', pdf.size);
+      return { pdf, previewUrl, pageCount: pages.length };
+    } finally {
+      this.currentPage = undefined;
+      exportOptions.cmyk?.dispose();
+    }
+  }
+
+  private createPreview({ canvasWidth, canvasHeight }: TiledLayout) {
+    const scale = Math.min(1, PREVIEW_MAX_SIDE / Math.max(canvasWidth, canvasHeight));
+    const canvas = createCanvas(Math.round(canvasWidth * scale), Math.round(canvasHeight * scale));
+    const ctx = getContext2D(canvas);
+    if (!ctx) {
+      throw new Error('Failed to get preview canvas context');
+    }
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    return { canvas, ctx, scale };
+  }
+
+  destroy() {
+    this.cancel('Processor destroyed');
+    this.pdfProcessor.destroy();
+    this.fileProcessor.destroy();
+    this.canvasManager.destroy();
+  }
+}
@@ -0,0 +1,209 @@
+import {
+  PDFDocument,
+  PDFEmbeddedPage,
+  PDFPage,
+  clip,
+  degrees,
+  endPath,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+} from 'pdf-lib';
+import { ProcessingParameters, UploadedFile } from "@/types/print";
+import { mmToPixels } from "./utils";
+import { PageBoxes, PDFBox, applyPageBoxes, pageBoxesFromParameters } from "./PageBoxes";
+import { drawPrinterMarks } from "./PrinterMarks";
+import { drawCutContour } from "./CutContour";
+import { CutPath } from "./CutPath";
+import { fitContent } from "./ContentFit";
+import {
+  PDFExportOptions,
+  createPrintDocument,
+  embedImageRegion,
+  loadImage,
+  placeImage,
+  savePrintDocument,
+} from "./PDFExporter";
+
+// Raster strips reach this many pixels under the vector page so no hairline gap shows at the trim
+const STRIP_OVERLAP_PX = 1;
+
+/**
+ * Vector output only makes sense when the source already is a PDF.
+ */
+export const shouldPreserveVectors = (file: UploadedFile, parameters: ProcessingParameters): boolean =>
+  file.type === 'pdf' && !!parameters.preserveVectors;
+
+/**
+ * Places the top, bottom, left and right bleed strips of the processed raster.
+ * The trim area itself is left to the vector page drawn on top.
+ */
+const placeBleedStrips = async (
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  img: HTMLImageElement,
+  boxes: PageBoxes,
+  parameters: ProcessingParameters,
+  options: PDFExportOptions
+): Promise<void> => {
+  const bleedPx = mmToPixels(parameters.bleedMargin, parameters.dpi);
+  if (bleedPx === 0) {
+    console.log('[VectorPDFComposer] No bleed margin, skipping raster strips');
+    return;
+  }
+
+  const finalWidthPx = img.width - bleedPx * 2;
+  const finalHeightPx = img.height - bleedPx * 2;
+  const stripDepth = bleedPx + STRIP_OVERLAP_PX;
+  const strips = [
+    { x: 0, y: 0, width: img.width, height: stripDepth },
+    { x: 0, y: bleedPx + finalHeightPx - STRIP_OVERLAP_PX, width: img.width, height: stripDepth },
+    { x: 0, y: bleedPx, width: stripDepth, height: finalHeightPx },
+    { x: bleedPx + finalWidthPx - STRIP_OVERLAP_PX, y: bleedPx, width: stripDepth, height: finalHeightPx },
+  ];
+
+  const { bleedBox } = boxes;
+  const scaleX = bleedBox.width / img.width;
+  const scaleY = bleedBox.height / img.height;
+
+  for (const strip of strips) {
+    const imageRef = await embedImageRegion(pdfDoc, img, options, strip);
+    placeImage(
+      page,
+      imageRef,
+      bleedBox.x + strip.x * scaleX,
+      bleedBox.y + (img.height - strip.y - strip.height) * scaleY,
+      strip.width * scaleX,
+      strip.height * scaleY
+    );
+  }
+  console.log(`[VectorPDFComposer] Placed ${strips.length} raster bleed strips (${bleedPx}px deep)`);
+};
+
+/**
+ * Places the source page in the trim box the same way ImageRenderer places
+ * the rasterised page (fit mode, anchor, manual offset and scale), honouring
+ * the page's /Rotate entry. Anything past the bleed box is clipped away.
+ */
+const placeSourcePage = (
+  page: PDFPage,
+  sourcePage: PDFPage,
+  embeddedPage: PDFEmbeddedPage,
+  boxes: PageBoxes,
+  parameters: ProcessingParameters
+): void => {
+  const { trimBox, bleedBox } = boxes;
+  const cropBox = sourcePage.getCropBox();
+  const rotation = ((sourcePage.getRotation().angle % 360) + 360) % 360;
+  const isSideways = rotation === 90 || rotation === 270;
+
+  const displayWidth = isSideways ? cropBox.height : cropBox.width;
+  const displayHeight = isSideways ? cropBox.width : cropBox.height;
+  // Both sides are in points, so actual size is a scale of 1
+  const fit = fitContent(
+    { width: displayWidth, height: displayHeight },
+    trimBox,
+    parameters,
+    72 / 25.4
+  );
+  const scaleX = fit.width / displayWidth;
+  const scaleY = fit.height / displayHeight;
+
+  // fitContent() measures y down from the top of the trim
+  const x = trimBox.x + fit.x;
+  const y = trimBox.y + trimBox.height - fit.y - fit.height;
+
+  // drawPage rotates counter-clockwise around (x, y); /Rotate is clockwise
+  const offsets: Record<number, [number, number]> = {
+    0: [0, 0],
+    90: [0, cropBox.width * scaleY],
+    180: [cropBox.width * scaleX, cropBox.height * scaleY],
+    270: [cropBox.height * scaleX, 0],
+  };
+  const [dx, dy] = offsets[rotation] ?? [0, 0];
+
+  page.pushOperators(
+    pushGraphicsState(),
+    rectangle(bleedBox.x, bleedBox.y, bleedBox.width, bleedBox.height),
+    clip(),
+    endPath()
+  );
+  page.drawPage(embeddedPage, {
+    x: x + dx,
+    y: y + dy,
+    // The page's own axes turn with it
+    xScale: isSideways ? scaleY : scaleX,
+    yScale: isSideways ? scaleX : scaleY,
+    rotate: degrees(-rotation),
+  });
+  page.pushOperators(popGraphicsState());
+  console.log(`[VectorPDFComposer] Source page placed at scale ${scaleX.toFixed(3)}×${scaleY.toFixed(3)} (rotation ${rotation}°)`);
+};
+
+export interface VectorPageSource {
+  /** 1-based page of the source PDF */
+  pageNumber: number;
+  /** Processed raster of that page, used only for its bleed strips */
+  processedImageUrl: string;
+  /** Cut path traced for this page; the parameters' cut line otherwise */
+  cutPath?: CutPath;
+}
+
+/**
+ * Builds the output PDF from the original vector pages instead of their
+ * rasters: each source page is embedded as a Form XObject inside the trim box
+ * and only the bleed strips around it come from the processed raster.
+ */
+export const createVectorPreservingPDF = async (
+  sourceFile: File,
+  pages: VectorPageSource[],
+  parameters: ProcessingParameters,
+  options: PDFExportOptions = {}
+): Promise<Blob> => {
+  console.log('=== VECTOR PDF EXPORT START ===');
+  const sourceBytes = new Uint8Array(await sourceFile.arrayBuffer());
+
+  let sourceDoc: PDFDocument;
+  try {
+    sourceDoc = await PDFDocument.load(sourceBytes);
+  } catch (error) {
+    throw new Error(
+      'Could not read the source PDF for vector output: ' +
+      (error instanceof Error ? error.message : String(error))
+    );
+  }
+
+  const pdfDoc = await createPrintDocument(options);
+  const boxes = pageBoxesFromParameters(parameters);
+
+  for (const { pageNumber, processedImageUrl, cutPath } of pages) {
+    options.cancellationToken?.throwIfCancelled();
+    if (pageNumber < 1 || pageNumber > sourceDoc.getPageCount()) {
+      throw new Error(`Page ${pageNumber} does not exist in the source PDF (${sourceDoc.getPageCount()} pages)`);
+    }
+
+    const sourcePage = sourceDoc.getPage(pageNumber - 1);
+    const cropBox = sourcePage.getCropBox();
+
+    const page = pdfDoc.addPage([boxes.mediaBox.width, boxes.mediaBox.height]);
+    applyPageBoxes(page, boxes);
+
+    const img = await loadImage(processedImageUrl);
+    await placeBleedStrips(pdfDoc, page, img, boxes, parameters, options);
+
+    const embeddedPage = await pdfDoc.embedPage(sourcePage, {
+      left: cropBox.x,
+      bottom: cropBox.y,
+      right: cropBox.x + cropBox.width,
+      top: cropBox.y + cropBox.height,
+    });
+    placeSourcePage(page, sourcePage, embeddedPage, boxes, parameters);
+    drawCutContour(page, boxes, parameters, options.pdfStandard, cutPath);
+    drawPrinterMarks(page, boxes, parameters, { label: options.title, pdfStandard: options.pdfStandard });
+  }
+
+  options.cancellationToken?.throwIfCancelled();
+  const pdfBlob = await savePrintDocument(pdfDoc, options);
+  console.log('=== VECTOR PDF EXPORT SUCCESS ===', `${pages.length} page(s), size:`, pdfBlob.size);
+  return pdfBlob;
+};
@@ -0,0 +1,234 @@
+import { ProcessingParameters, UploadedFile } from "@/types/print";
+import { ProcessingResult, PageProgress, ProgressCallback } from "./types";
+import { CancellationToken } from "./CancellationToken";
+import { CanvasManager } from "./CanvasManager";
+import { FileProcessor } from "./FileProcessor";
+import { ImageRenderer } from "./ImageRenderer";
+import { ImageProcessor } from "./ImageProcessor";
+import { PDF_RENDER_DPI } from "./PDFProcessor";
+import { AIInpaintingService } from "./AIInpaintingService";
+import { WorkerRequest, WorkerResponse } from "./worker/protocol";
+import { mapPageProgress } from "./utils";
+
+interface PendingJob {
+  jobId: number;
+  resolve: (result: ProcessingResult) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Same interface as ImageProcessor, but the workflow runs in a Web Worker on
+ * an OffscreenCanvas so the UI stays responsive. Files are decoded on the
+ * main thread (PDF.js needs it) and each page is transferred to the worker
+ * as an ImageBitmap.
+ *
+ * Jobs that call the AI services stay on the main thread, since those need
+ * localStorage and DOM images; so does everything when the browser has no
+ * OffscreenCanvas.
+ */
+export class WorkerImageProcessor {
+  private worker?: Worker;
+  private canvasManager: CanvasManager;
+  private fileProcessor: FileProcessor;
+  private fallbackProcessor?: ImageProcessor;
+  private cancellationToken: CancellationToken;
+  private onProgressUpdate?: ProgressCallback;
+  private currentPage?: PageProgress;
+  private pendingJob?: PendingJob;
+  private nextJobId = 1;
+
+  constructor(onProgressUpdate?: ProgressCallback) {
+    this.onProgressUpdate = onProgressUpdate;
+    this.cancellationToken = new CancellationToken();
+    this.canvasManager = new CanvasManager();
+    this.fileProcessor = new FileProcessor(new ImageRenderer(this.canvasManager.getCanvasContext()));
+  }
+
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined' &&
+      typeof OffscreenCanvas !== 'undefined' &&
+      typeof createImageBitmap !== 'undefined';
+  }
+
+  /**
+   * Mirrors the bleed branches of ProcessingWorkflow: only the 'auto' method
+   * reaches the AI services, and only with outpainting on or an API key set.
+   */
+  private static usesAIServices(parameters: ProcessingParameters): boolean {
+    if (parameters.cutLineType === 'contour' || (parameters.bleedMethod ?? 'auto') !== 'auto') {
+      return false;
+    }
+    const { useAIOutpaint } = parameters as ProcessingParameters & { useAIOutpaint?: boolean };
+    return !!useAIOutpaint || AIInpaintingService.getApiConfiguration().hasAnyKey;
+  }
+
+  private getFallbackProcessor(parameters: ProcessingParameters): ImageProcessor | null {
+    if (WorkerImageProcessor.isSupported() && !WorkerImageProcessor.usesAIServices(parameters)) {
+      return null;
+    }
+    if (!this.fallbackProcessor) {
+      console.log('[WorkerImageProcessor] Processing on the main thread');
+      this.fallbackProcessor = new ImageProcessor(this.onProgressUpdate);
+    }
+    return this.fallbackProcessor;
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./worker/processing.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleMessage(event.data);
+      this.worker.onerror = (event) => {
+        console.error('[WorkerImageProcessor] Worker error:', event);
+        this.settle(undefined, new Error(event.message || 'Processing worker failed'));
+      };
+    }
+    return this.worker;
+  }
+
+  private handleMessage(message: WorkerResponse) {
+    // Ignore anything still in flight from a cancelled job
+    if (!this.pendingJob || this.pendingJob.jobId !== message.jobId) return;
+
+    switch (message.type) {
+      case 'progress':
+        this.updateProgress(message.step, message.progress);
+        break;
+      case 'result':
+        this.settle(message.result);
+        break;
+      case 'error':
+        this.settle(undefined, new Error(message.message));
+        break;
+    }
+  }
+
+  private settle(result?: ProcessingResult, error?: Error) {
+    const job = this.pendingJob;
+    if (!job) return;
+    this.pendingJob = undefined;
+    if (error) {
+      job.reject(error);
+    } else {
+      job.resolve(result!);
+    }
+  }
+
+  /**
+   * Stops the current job at once. The worker may be in the middle of a long
+   * synchronous step where it cannot see the cancel message, so it is also
+   * terminated; the next job starts a fresh one.
+   */
+  cancel(reason?: string): void {
+    console.log('[WorkerImageProcessor] Cancelling processing:', reason);
+    this.cancellationToken.cancel(reason);
+    this.fallbackProcessor?.cancel(reason);
+
+    if (this.worker && this.pendingJob) {
+      const request: WorkerRequest = { type: 'cancel', jobId: this.pendingJob.jobId, reason };
+      this.worker.postMessage(request);
+      this.worker.terminate();
+      this.worker = undefined;
+      this.settle(undefined, new Error(`Processing cancelled${reason ? `: ${reason}` : ''}`));
+    }
+  }
+
+  private updateProgress(step: string, progress?: number) {
+    const page = this.currentPage;
+    const { label, overall } = mapPageProgress(step, progress, page);
+
+    console.log(`[WorkerImageProcessor] ${label}${overall !== undefined ? ` (${overall.toFixed(1)}%)` : ''}`);
+    if (this.onProgressUpdate) {
+      this.onProgressUpdate(label, overall, page);
+    }
+  }
+
+  private async decodePage(file: UploadedFile, parameters: ProcessingParameters, pageNumber: number): Promise<ImageBitmap> {
+    if (file.type === 'pdf') {
+      const img = await this.fileProcessor.processFile(file, parameters, pageNumber);
+      return createImageBitmap(img);
+    }
+    try {
+      return await createImageBitmap(file.file);
+    } catch (error) {
+      console.error('Failed to load image:', error);
+      throw new Error('Failed to load image - the file may be corrupted');
+    }
+  }
+
+  private runInWorker(
+    image: ImageBitmap,
+    parameters: ProcessingParameters,
+    sourceResolution?: number
+  ): Promise<ProcessingResult> {
+    const jobId = this.nextJobId++;
+    return new Promise<ProcessingResult>((resolve, reject) => {
+      this.pendingJob = { jobId, resolve, reject };
+      const request: WorkerRequest = { type: 'start', jobId, image, parameters, sourceResolution };
+      this.getWorker().postMessage(request, [image]);
+    });
+  }
+
+  async processFile(
+    file: UploadedFile,
+    parameters: ProcessingParameters,
+    pageNumber: number = 1
+  ): Promise<ProcessingResult> {
+    const fallback = this.getFallbackProcessor(parameters);
+    if (fallback) {
+      return fallback.processFile(file, parameters, pageNumber);
+    }
+
+    this.cancellationToken.throwIfCancelled();
+
+    this.updateProgress(file.type === 'pdf' ? 'Converting PDF to high-quality PNG' : 'Loading image', 10);
+    const image = await this.decodePage(file, parameters, pageNumber);
+
+    if (this.cancellationToken.isCancelled) {
+      image.close();
+      this.cancellationToken.throwIfCancelled();
+    }
+
+    const sourceResolution = file.type === 'pdf' ? PDF_RENDER_DPI : undefined;
+    const result = await this.runInWorker(image, parameters, sourceResolution);
+    return { ...result, pageNumber };
+  }
+
+  /**
+   * Runs every requested page through the worker, one after another.
+   */
+  async processPages(
+    file: UploadedFile,
+    parameters: ProcessingParameters,
+    pageNumbers: number[]
+  ): Promise<ProcessingResult[]> {
+    const fallback = this.getFallbackProcessor(parameters);
+    if (fallback) {
+      return fallback.processPages(file, parameters, pageNumbers);
+    }
+
+    const pages = file.type === 'pdf' && pageNumbers.length > 0 ? pageNumbers : [1];
+    const results: ProcessingResult[] = [];
+
+    try {
+      for (let index = 0; index < pages.length; index++) {
+        this.cancellationToken.throwIfCancelled();
+        this.currentPage = { current: index + 1, total: pages.length, pageNumber: pages[index] };
+        results.push(await this.processFile(file, parameters, pages[index]));
+      }
+    } finally {
+      this.currentPage = undefined;
+    }
+
+    console.log(`[WorkerImageProcessor] Processed ${results.length} page(s) in the worker`);
+    return results;
+  }
+
+  destroy() {
+    this.cancel('Processor destroyed');
+    this.worker?.terminate();
+    this.worker = undefined;
+    this.fallbackProcessor?.destroy();
+    this.fileProcessor.destroy();
+    this.canvasManager.destroy();
+  }
+}
@@ -0,0 +1,45 @@
+import { zip, Zippable } from 'fflate';
+
+export interface ZipEntry {
+  name: string;
+  data: Blob;
+}
+
+/**
+ * Gives every entry a unique name: "card.pdf", "card (2).pdf", ...
+ */
+const uniqueName = (name: string, used: Set<string>): string => {
+  const dot = name.lastIndexOf('.');
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot) : '';
+
+  let candidate = name;
+  for (let counter = 2; used.has(candidate.toLowerCase()); counter++) {
+    candidate = `${base} (${counter})${extension}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+/**
+ * Packs the given files into a single ZIP archive. PDFs are already
+ * compressed, so entries are stored rather than deflated again.
+ */
+export const createZipArchive = async (entries: ZipEntry[]): Promise<Blob> => {
+  const used = new Set<string>();
+  const files: Zippable = {};
+
+  for (const entry of entries) {
+    files[uniqueName(entry.name, used)] = new Uint8Array(await entry.data.arrayBuffer());
+  }
+
+  const archive = await new Promise<Uint8Array>((resolve, reject) => {
+    zip(files, { level: 0 }, (error, data) => {
+      if (error) reject(error);
+      else resolve(data);
+    });
+  });
+
+  console.log(`[ZipExporter] Archived ${entries.length} file(s), size:`, archive.length);
+  return new Blob([archive], { type: 'application/zip' });
+};
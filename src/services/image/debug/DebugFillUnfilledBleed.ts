@@ -1,6 +1,7 @@
+import { ProcessingContext2D } from "../types";
 
 export function debugFillUnfilledBleed(
-  ctx: CanvasRenderingContext2D,
+  ctx: ProcessingContext2D,
   bleedPixels: number,
   finalWidth: number,
   finalHeight: number
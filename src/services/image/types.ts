@@ -1,12 +1,78 @@
+import { ProcessingParameters, UploadedFile } from "@/types/print";
+import { CutPath } from "./CutPath";
 
 export interface ProcessingResult {
   processedImageUrl: string;
   originalDimensions: { width: number; height: number };
   finalDimensions: { width: number; height: number };
   appliedBleed: number;
+  /** Source page (1-based) for multi-page PDF input */
+  pageNumber?: number;
+  /** Cut path traced from the artwork (contour cut), in trim mm */
+  cutPath?: CutPath;
 }
 
+/** Output of the tiled pipeline, which writes the PDF itself */
+export interface TiledProcessingResult {
+  pdf: Blob;
+  /** Downscaled rendering of the first page for the preview */
+  previewUrl: string;
+  pageCount: number;
+}
+
+export interface PageProgress {
+  current: number;
+  total: number;
+  pageNumber: number;
+}
+
+export type ProgressCallback = (step: string, progress?: number, page?: PageProgress) => void;
+
+/** RGBA pixels, laid out like ImageData */
+export interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface PixelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Where the source content was drawn on the processing canvas, in pixels */
+export interface ContentPlacement {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Processing canvas: a DOM canvas on the main thread, an OffscreenCanvas in the worker */
+export type ProcessingCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type ProcessingContext2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/** Decoded source artwork; the worker receives ImageBitmaps */
+export type SourceImage = HTMLImageElement | ImageBitmap;
+
 export interface CanvasContext {
-  canvas: HTMLCanvasElement;
-  ctx: CanvasRenderingContext2D;
+  canvas: ProcessingCanvas;
+  ctx: ProcessingContext2D;
+}
+
+export type BatchItemStatus = 'queued' | 'processing' | 'done' | 'error' | 'cancelled';
+
+export interface BatchItem {
+  id: string;
+  file: UploadedFile;
+  /** Per-file changes on top of the batch parameters */
+  overrides?: Partial<ProcessingParameters>;
+  status: BatchItemStatus;
+  progress: number;
+  step?: string;
+  error?: string;
+  /** Finished print PDF */
+  output?: Blob;
 }
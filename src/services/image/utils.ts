@@ -1,8 +1,72 @@
+import { PageProgress, ProcessingCanvas, ProcessingContext2D } from "./types";
 
 export const mmToPixels = (mm: number, dpi: number): number => {
   return Math.round((mm * dpi) / 25.4);
 };
 
-export const canvasToDataURL = async (canvas: HTMLCanvasElement): Promise<string> => {
-  return canvas.toDataURL('image/png', 1.0);
+export const mmToPoints = (mm: number): number => {
+  return (mm * 72) / 25.4;
+};
+
+/**
+ * Creates a canvas that works both on the main thread and inside the
+ * processing worker, where there is no document.
+ */
+export const createCanvas = (width: number, height: number): ProcessingCanvas => {
+  if (typeof document === 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+export const getContext2D = (canvas: ProcessingCanvas): ProcessingContext2D | null => {
+  return canvas.getContext('2d');
+};
+
+export const canvasToBlob = async (canvas: ProcessingCanvas): Promise<Blob> => {
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type: 'image/png' });
+  }
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) resolve(blob);
+      else reject(new Error('Failed to get canvas blob'));
+    }, 'image/png');
+  });
+};
+
+const blobToDataURL = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read image data'));
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const canvasToDataURL = async (canvas: ProcessingCanvas): Promise<string> => {
+  if ('toDataURL' in canvas) {
+    return canvas.toDataURL('image/png', 1.0);
+  }
+  // OffscreenCanvas has no toDataURL
+  return blobToDataURL(await canvasToBlob(canvas));
+};
+
+/**
+ * Maps a step of one page onto the whole job: the step is prefixed with the
+ * page and the percentage covers all pages.
+ */
+export const mapPageProgress = (
+  step: string,
+  progress: number | undefined,
+  page?: PageProgress
+): { label: string; overall?: number } => {
+  const label = page && page.total > 1 ? `Page ${page.current}/${page.total}: ${step}` : step;
+  const overall = page && progress !== undefined
+    ? ((page.current - 1) + progress / 100) / page.total * 100
+    : progress;
+  return { label, overall };
 };
@@ -0,0 +1,51 @@
+import { CanvasManager } from "../CanvasManager";
+import { CancellationToken } from "../CancellationToken";
+import { ProcessingWorkflow } from "../ProcessingWorkflow";
+import { WorkerRequest, WorkerResponse } from "./protocol";
+
+// The app compiles against the DOM lib only, so type the worker scope by hand
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage(message: WorkerResponse): void;
+}
+
+const scope = self as unknown as WorkerScope;
+const canvasManager = new CanvasManager();
+let currentJob: { jobId: number; cancellationToken: CancellationToken } | undefined;
+
+const runJob = async ({ jobId, image, parameters, sourceResolution }: Extract<WorkerRequest, { type: 'start' }>) => {
+  const cancellationToken = new CancellationToken();
+  currentJob = { jobId, cancellationToken };
+
+  const workflow = new ProcessingWorkflow(
+    canvasManager.getCanvasContext(),
+    cancellationToken,
+    (step, progress) => scope.postMessage({ type: 'progress', jobId, step, progress })
+  );
+
+  try {
+    const result = await workflow.processImageWithNewWorkflow(image, parameters, sourceResolution);
+    scope.postMessage({ type: 'result', jobId, result });
+  } catch (error) {
+    console.error('[ProcessingWorker] Job failed:', error);
+    scope.postMessage({ type: 'error', jobId, message: error instanceof Error ? error.message : String(error) });
+  } finally {
+    image.close();
+    if (currentJob?.jobId === jobId) {
+      currentJob = undefined;
+    }
+  }
+};
+
+scope.onmessage = ({ data }) => {
+  switch (data.type) {
+    case 'start':
+      runJob(data);
+      break;
+    case 'cancel':
+      if (currentJob?.jobId === data.jobId) {
+        currentJob.cancellationToken.cancel(data.reason);
+      }
+      break;
+  }
+};
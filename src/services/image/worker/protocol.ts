@@ -0,0 +1,24 @@
+import { ProcessingParameters } from "@/types/print";
+import { ProcessingResult } from "../types";
+
+/**
+ * Messages between WorkerImageProcessor and processing.worker. Every message
+ * carries the id of the job it belongs to, so late messages from a cancelled
+ * job can be told apart from the current one.
+ */
+export type WorkerRequest =
+  | {
+      type: 'start';
+      jobId: number;
+      /** Decoded page, transferred to the worker */
+      image: ImageBitmap;
+      parameters: ProcessingParameters;
+      /** Pixels per inch of the image when known, for actual-size placement */
+      sourceResolution?: number;
+    }
+  | { type: 'cancel'; jobId: number; reason?: string };
+
+export type WorkerResponse =
+  | { type: 'progress'; jobId: number; step: string; progress?: number }
+  | { type: 'result'; jobId: number; result: ProcessingResult }
+  | { type: 'error'; jobId: number; message: string };
@@ -1,7 +1,37 @@
 
 // Re-export the main classes and functions from the refactored structure
 export { ImageProcessor } from "./image/ImageProcessor";
-export { createPDFFromProcessedImage } from "./image/PDFExporter";
+export { WorkerImageProcessor } from "./image/WorkerImageProcessor";
+export { TiledProcessor, needsTiledProcessing } from "./image/TiledProcessor";
+export { BatchProcessor, DEFAULT_BATCH_CONCURRENCY, batchOutputFileName, resolveItemParameters } from "./image/BatchProcessor";
+export { createPDFFromProcessedImage, createPDFFromProcessedImages } from "./image/PDFExporter";
+export { createVectorPreservingPDF, shouldPreserveVectors } from "./image/VectorPDFComposer";
+export { createOutputPDF } from "./image/OutputExporter";
+export { createZipArchive } from "./image/ZipExporter";
+export {
+  DEFAULT_ICC_PROFILE_ID,
+  getICCProfileInfo,
+  listICCProfiles,
+  loadICCProfile,
+  registerCustomICCProfile,
+} from "./image/ColorManagement";
+export { PDFXConformanceError, getPDFXRules } from "./image/PDFXConformance";
+export { DEFAULT_PRINTER_MARKS, drawPrinterMarks } from "./image/PrinterMarks";
+export { CUT_CONTOUR_NAMES, DEFAULT_CUT_CONTOUR_NAME, drawCutContour, getCutContourColor } from "./image/CutContour";
+export { cutPathFromParameters, cutPathToSVG } from "./image/CutPath";
+export { parseSVGDieLine } from "./image/SVGDieLine";
+export { DEFAULT_CONTOUR_OFFSET } from "./image/ContourCut";
+export { parsePageRange } from "./image/PageRange";
+export { getPDFInfo, getPDFPageCount } from "./image/PDFProcessor";
+export { DEFAULT_FIT_ANCHOR, DEFAULT_FIT_MODE, fitContent } from "./image/ContentFit";
+export { DEFAULT_SAFE_ZONE_MM, checkSafeZone } from "./image/SafeZone";
+export { MIN_EFFECTIVE_PPI, measureEffectiveResolution, resolutionIssueType } from "./image/EffectiveResolution";
 
 // Re-export types for backward compatibility
-export type { ProcessingResult } from "./image/types";
+export type { ProcessingResult, PageProgress, BatchItem, BatchItemStatus, TiledProcessingResult } from "./image/types";
+export type { PDFExportOptions, PDFImageEncoding, ProcessedPageSource } from "./image/PDFExporter";
+export type { ZipEntry } from "./image/ZipExporter";
+export type { ICCProfileInfo } from "./image/ColorManagement";
+export type { CutPath } from "./image/CutPath";
+export type { SafeZoneRegion } from "./image/SafeZone";
+export type { ImageResolution } from "./image/EffectiveResolution";
@@ -0,0 +1,199 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { ProcessingParameters, UploadedFile } from "@/types/print";
+import { getPDFInfo } from "./image/PDFProcessor";
+
+// Private bucket; every object lives under the owner's user id, as its policies require
+export const PROCESSED_FILES_BUCKET = 'processed-files';
+
+// Download links are created on click, so they only need to outlive the request
+const SIGNED_URL_SECONDS = 60;
+
+export type ProcessedFileRecord = Tables<'processed_files'>;
+
+/** Everything a job was processed with, enough to run it again */
+export interface JobSettings {
+  parameters: ProcessingParameters;
+  bleedPrompt: string;
+  useAIOutpaint: boolean;
+  pageRange: string;
+}
+
+export interface CompletedJob extends JobSettings {
+  source: UploadedFile;
+  output: Blob;
+  outputFilename: string;
+  pageCount: number;
+}
+
+const fileExtension = (name: string) => name.match(/\.[^./]+$/)?.[0].toLowerCase() ?? '';
+
+const getUserId = async (): Promise<string | null> => {
+  const { data } = await supabase.auth.getUser();
+  return data.user?.id ?? null;
+};
+
+/**
+ * Builds an UploadedFile the way the upload area does: a preview and the
+ * natural size for images, the page count and first page size for PDFs.
+ */
+export const toUploadedFile = async (file: File): Promise<UploadedFile> => {
+  if (file.type === 'application/pdf') {
+    try {
+      const { pages, pageSize } = await getPDFInfo(file);
+      return { file, type: 'pdf', pages, dimensions: pageSize };
+    } catch (error) {
+      console.warn('[JobHistory] Could not count PDF pages, assuming a single page:', error);
+      return { file, type: 'pdf', pages: 1 };
+    }
+  }
+
+  const preview = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+  const bitmap = await createImageBitmap(file);
+  const dimensions = { width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  return { file, type: 'image', preview, dimensions };
+};
+
+/**
+ * Uploads the original and the output of a finished job to the user's folder
+ * and records it in processed_files. Returns null without saving anything
+ * when nobody is signed in.
+ */
+export const saveJob = async (job: CompletedJob): Promise<ProcessedFileRecord | null> => {
+  const userId = await getUserId();
+  if (!userId) {
+    console.log('[JobHistory] Not signed in, job not saved');
+    return null;
+  }
+
+  const id = crypto.randomUUID();
+  const folder = `${userId}/${id}`;
+  const sourcePath = `${folder}/original${fileExtension(job.source.file.name)}`;
+  const outputPath = `${folder}/print.pdf`;
+  const storage = supabase.storage.from(PROCESSED_FILES_BUCKET);
+
+  const uploads = await Promise.all([
+    storage.upload(sourcePath, job.source.file, { contentType: job.source.file.type }),
+    storage.upload(outputPath, job.output, { contentType: 'application/pdf' }),
+  ]);
+  const uploadError = uploads.find(({ error }) => error)?.error;
+  if (uploadError) {
+    await storage.remove([sourcePath, outputPath]);
+    throw new Error(`Could not upload job files: ${uploadError.message}`);
+  }
+
+  const { parameters, bleedPrompt, useAIOutpaint, pageRange } = job;
+  const { data, error } = await supabase
+    .from('processed_files')
+    .insert({
+      id,
+      user_id: userId,
+      original_filename: job.source.file.name,
+      output_filename: job.outputFilename,
+      format: 'pdf',
+      dpi: parameters.dpi,
+      width_mm: parameters.finalDimensions.width,
+      height_mm: parameters.finalDimensions.height,
+      bleed_mm: parameters.bleedMargin,
+      cut_line_type: parameters.cutLineType,
+      file_url: outputPath,
+      source_path: sourcePath,
+      processing_status: 'completed',
+      parameters: { ...parameters, bleedPrompt, useAIOutpaint } as unknown as Json,
+      page_range: pageRange || null,
+      page_count: job.pageCount,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    await storage.remove([sourcePath, outputPath]);
+    throw new Error(`Could not record job: ${error.message}`);
+  }
+
+  console.log(`[JobHistory] Saved job ${id} for ${job.source.file.name}`);
+  return data;
+};
+
+/** The signed-in user's jobs, newest first */
+export const listJobs = async (): Promise<ProcessedFileRecord[]> => {
+  const { data, error } = await supabase
+    .from('processed_files')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Could not load job history: ${error.message}`);
+  }
+  return data;
+};
+
+export const getJob = async (id: string): Promise<ProcessedFileRecord> => {
+  const { data, error } = await supabase.from('processed_files').select('*').eq('id', id).single();
+  if (error) {
+    throw new Error(`Could not load job: ${error.message}`);
+  }
+  return data;
+};
+
+/** A short-lived link that downloads the job's output under its original name */
+export const getJobDownloadUrl = async (job: ProcessedFileRecord): Promise<string> => {
+  const { data, error } = await supabase.storage
+    .from(PROCESSED_FILES_BUCKET)
+    .createSignedUrl(job.file_url, SIGNED_URL_SECONDS, { download: job.output_filename });
+
+  if (error) {
+    throw new Error(`Could not create download link: ${error.message}`);
+  }
+  return data.signedUrl;
+};
+
+/**
+ * Downloads a job's original and returns it with the settings it was
+ * processed with, ready to run again.
+ */
+export const loadJob = async (job: ProcessedFileRecord): Promise<JobSettings & { source: UploadedFile }> => {
+  if (!job.source_path || !job.parameters) {
+    throw new Error('This job was saved without its original file and cannot be re-run');
+  }
+
+  const { data, error } = await supabase.storage.from(PROCESSED_FILES_BUCKET).download(job.source_path);
+  if (error) {
+    throw new Error(`Could not download the original file: ${error.message}`);
+  }
+
+  const { bleedPrompt, useAIOutpaint, ...parameters } = job.parameters as unknown as ProcessingParameters & {
+    bleedPrompt?: string;
+    useAIOutpaint?: boolean;
+  };
+  // The blob carries the content type the original was uploaded with
+  const file = new File([data], job.original_filename, { type: data.type });
+  return {
+    source: await toUploadedFile(file),
+    parameters,
+    bleedPrompt: bleedPrompt ?? '',
+    useAIOutpaint: useAIOutpaint ?? false,
+    pageRange: job.page_range ?? '',
+  };
+};
+
+/** Removes a job's files and its record */
+export const deleteJob = async (job: ProcessedFileRecord): Promise<void> => {
+  const paths = [job.file_url, job.source_path].filter((path): path is string => !!path);
+  const { error: storageError } = await supabase.storage.from(PROCESSED_FILES_BUCKET).remove(paths);
+  if (storageError) {
+    throw new Error(`Could not delete job files: ${storageError.message}`);
+  }
+
+  const { error } = await supabase.from('processed_files').delete().eq('id', job.id);
+  if (error) {
+    throw new Error(`Could not delete job: ${error.message}`);
+  }
+  console.log(`[JobHistory] Deleted job ${job.id}`);
+};
@@ -0,0 +1,12 @@
+// Preflight engine and its built-in rules
+export {
+  getPreflightProfile,
+  listPreflightProfiles,
+  listPreflightRules,
+  registerPreflightProfile,
+  registerPreflightRule,
+  runPreflight,
+} from "./preflight/PreflightEngine";
+export { DEFAULT_PREFLIGHT_PROFILE_ID } from "./preflight/profiles";
+
+export type { PreflightContext, PreflightIssue, PreflightProfile, PreflightRule } from "./preflight/types";
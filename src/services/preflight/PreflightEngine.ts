@@ -0,0 +1,97 @@
+import { PDFDocument } from 'pdf-lib';
+import { ProcessingParameters, UploadedFile, ValidationIssue, ValidationResult } from "@/types/print";
+import { PreflightContext, PreflightProfile, PreflightRule } from "./types";
+import { DEFAULT_PREFLIGHT_PROFILE_ID, PREFLIGHT_PROFILES } from "./profiles";
+import { BUILT_IN_RULES } from "./rules";
+
+const rules = new Map<string, PreflightRule>();
+const profiles = new Map<string, PreflightProfile>();
+
+/**
+ * Adds a rule, or replaces the one with the same id. Profiles refer to rules
+ * by id, so a rule has to be registered before a profile listing it runs.
+ */
+export const registerPreflightRule = (rule: PreflightRule): void => {
+  if (rules.has(rule.id)) {
+    console.warn(`[Preflight] Replacing rule "${rule.id}"`);
+  }
+  rules.set(rule.id, rule);
+};
+
+export const listPreflightRules = (): PreflightRule[] => Array.from(rules.values());
+
+export const registerPreflightProfile = (profile: PreflightProfile): void => {
+  profiles.set(profile.id, profile);
+};
+
+export const listPreflightProfiles = (): PreflightProfile[] => Array.from(profiles.values());
+
+export const getPreflightProfile = (id: string): PreflightProfile | undefined => profiles.get(id);
+
+BUILT_IN_RULES.forEach(registerPreflightRule);
+PREFLIGHT_PROFILES.forEach(registerPreflightProfile);
+
+const createContext = (file: UploadedFile, parameters: ProcessingParameters): PreflightContext => {
+  let pdf: Promise<PDFDocument | null> | undefined;
+  return {
+    file,
+    parameters,
+    getPDF: () => {
+      pdf ??= file.type === 'pdf'
+        ? file.file.arrayBuffer().then((bytes) =>
+            PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false }))
+        : Promise.resolve(null);
+      return pdf;
+    },
+  };
+};
+
+/**
+ * Runs the rules of a profile against the file and sorts what they find by
+ * severity. A rule that fails is reported as a warning instead of failing
+ * the whole check.
+ */
+export const runPreflight = async (
+  file: UploadedFile,
+  parameters: ProcessingParameters,
+  profileId: string = DEFAULT_PREFLIGHT_PROFILE_ID
+): Promise<ValidationResult> => {
+  const profile = profiles.get(profileId) ?? profiles.get(DEFAULT_PREFLIGHT_PROFILE_ID)!;
+  const context = createContext(file, parameters);
+  const escalate = new Set(profile.escalate ?? []);
+  const issues: ValidationIssue[] = [];
+
+  for (const ruleId of profile.rules) {
+    const rule = rules.get(ruleId);
+    if (!rule) {
+      console.warn(`[Preflight] Profile "${profile.id}" lists unknown rule "${ruleId}"`);
+      continue;
+    }
+
+    const started = performance.now();
+    try {
+      for (const issue of await rule.run(context)) {
+        const type = issue.type === 'warning' && escalate.has(rule.id) ? 'error' : issue.type;
+        issues.push({ ...issue, type, ruleId: rule.id });
+      }
+    } catch (error) {
+      console.warn(`[Preflight] Rule "${rule.id}" failed:`, error);
+      issues.push({
+        type: 'warning',
+        message: `${rule.name} could not be checked for this file.`,
+        category: rule.category,
+        ruleId: rule.id,
+      });
+    }
+    console.log(`[Preflight] ${rule.id} took ${(performance.now() - started).toFixed(0)}ms`);
+  }
+
+  const errors = issues.filter((issue) => issue.type === 'error');
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings: issues.filter((issue) => issue.type === 'warning'),
+    info: issues.filter((issue) => issue.type === 'info'),
+    profile: profile.id,
+  };
+};
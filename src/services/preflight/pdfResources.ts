@@ -0,0 +1,60 @@
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFObject, PDFStream } from 'pdf-lib';
+
+export const nameText = (value: PDFObject | undefined): string | undefined =>
+  value instanceof PDFName ? value.decodeText() : undefined;
+
+export interface PageResources {
+  /** 1-based page the resources are used on */
+  pageNumber: number;
+  resources: PDFDict;
+}
+
+/**
+ * Every resource dictionary of the document: each page's and, recursively,
+ * those of the form XObjects it draws. Shared forms are visited once.
+ */
+export const collectResources = (pdfDoc: PDFDocument): PageResources[] => {
+  const { context } = pdfDoc;
+  const seen = new Set<PDFObject>();
+  const found: PageResources[] = [];
+
+  const visit = (resources: PDFDict | undefined, pageNumber: number) => {
+    if (!resources || seen.has(resources)) return;
+    seen.add(resources);
+    found.push({ pageNumber, resources });
+
+    const xobjects = resources.lookupMaybe(PDFName.of('XObject'), PDFDict);
+    for (const [, value] of xobjects?.entries() ?? []) {
+      const xobject = context.lookup(value);
+      if (!(xobject instanceof PDFStream) || seen.has(xobject)) continue;
+      seen.add(xobject);
+      if (nameText(xobject.dict.get(PDFName.of('Subtype'))) === 'Form') {
+        visit(xobject.dict.lookupMaybe(PDFName.of('Resources'), PDFDict), pageNumber);
+      }
+    }
+  };
+
+  pdfDoc.getPages().forEach((page, index) => visit(page.node.Resources(), index + 1));
+  return found;
+};
+
+/** Entries of a resource category (XObject, Font, ExtGState, ...) with their objects resolved */
+export const resourceEntries = (
+  pdfDoc: PDFDocument,
+  resources: PDFDict,
+  category: string
+): [string, PDFObject][] => {
+  const dict = resources.lookupMaybe(PDFName.of(category), PDFDict);
+  return Array.from(dict?.entries() ?? [], ([key, value]) => [key.decodeText(), pdfDoc.context.lookup(value)]);
+};
+
+/**
+ * Family name of a colour space object: the name itself, or the first entry
+ * of an array such as [/ICCBased 12 0 R] or [/Separation /Gold ...].
+ */
+export const colorSpaceFamily = (pdfDoc: PDFDocument, value: PDFObject | undefined): string | undefined => {
+  const resolved = pdfDoc.context.lookup(value);
+  if (resolved instanceof PDFName) return resolved.decodeText();
+  if (resolved instanceof PDFArray) return nameText(resolved.lookup(0));
+  return undefined;
+};
@@ -0,0 +1,39 @@
+import { PreflightProfile } from "./types";
+
+export const DEFAULT_PREFLIGHT_PROFILE_ID = 'standard';
+
+const ALL_RULES = [
+  'file-size',
+  'output-size',
+  'resolution',
+  'color-space',
+  'transparency',
+  'fonts',
+  'page-boxes',
+  'safe-margin',
+  'bleed',
+  'safe-zone',
+  'ai-configuration',
+];
+
+export const PREFLIGHT_PROFILES: PreflightProfile[] = [
+  {
+    id: 'standard',
+    name: 'Standard',
+    description: 'Every check; only problems that break the output are errors.',
+    rules: ALL_RULES,
+  },
+  {
+    id: 'quick',
+    name: 'Quick',
+    description: 'Settings and resolution only, without analysing the artwork pixel by pixel.',
+    rules: ['file-size', 'output-size', 'resolution', 'color-space', 'page-boxes', 'safe-margin', 'bleed'],
+  },
+  {
+    id: 'strict',
+    name: 'Strict (press)',
+    description: 'Every check, with resolution, colour, font, transparency, bleed and safe zone warnings treated as errors.',
+    rules: ALL_RULES,
+    escalate: ['resolution', 'color-space', 'transparency', 'fonts', 'page-boxes', 'bleed', 'safe-zone'],
+  },
+];
@@ -0,0 +1,25 @@
+import { PreflightRule } from "../types";
+import { AIInpaintingService } from "@/services/image/AIInpaintingService";
+
+export const aiConfigurationRule: PreflightRule = {
+  id: 'ai-configuration',
+  name: 'AI bleed',
+  description: 'Whether the automatic bleed can use AI content generation.',
+  category: 'ai',
+  run: ({ parameters }) => {
+    if ((parameters.bleedMethod ?? 'auto') !== 'auto') return [];
+    return AIInpaintingService.getApiConfiguration().hasAnyKey
+      ? [{
+          type: 'info',
+          message: 'AI-powered content extrapolation will be used to intelligently fill bleed areas.',
+          category: 'ai',
+        }]
+      : [{
+          type: 'warning',
+          message: 'No AI API keys configured. Content extrapolation will use standard methods.',
+          category: 'ai',
+          suggestion: 'Configure a HuggingFace API key for AI-powered content generation, or pick an offline bleed method.',
+          fix: { label: 'Use mirrored bleed', parameters: { bleedMethod: 'mirror' } },
+        }];
+  },
+};
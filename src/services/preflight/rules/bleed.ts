@@ -0,0 +1,22 @@
+import { PreflightRule } from "../types";
+
+// Most printers ask for 3mm; less risks white edges after trimming
+const MIN_BLEED_MM = 2;
+const RECOMMENDED_BLEED_MM = 3;
+
+export const bleedRule: PreflightRule = {
+  id: 'bleed',
+  name: 'Bleed margin',
+  description: 'The bleed is wide enough to absorb trimming tolerances.',
+  category: 'bleed',
+  run: ({ parameters }) =>
+    parameters.bleedMargin < MIN_BLEED_MM
+      ? [{
+          type: 'warning',
+          message: `Bleed margin less than ${MIN_BLEED_MM}mm may cause printing issues`,
+          category: 'bleed',
+          suggestion: `Most printers ask for ${RECOMMENDED_BLEED_MM}mm of bleed.`,
+          fix: { label: `Use ${RECOMMENDED_BLEED_MM}mm bleed`, parameters: { bleedMargin: RECOMMENDED_BLEED_MM } },
+        }]
+      : [],
+};
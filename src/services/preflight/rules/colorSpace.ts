@@ -0,0 +1,126 @@
+import { PDFArray, PDFName, PDFObject, PDFStream } from 'pdf-lib';
+import { PreflightIssue, PreflightRule } from "../types";
+import { collectResources, colorSpaceFamily, nameText, resourceEntries } from "../pdfResources";
+import { DEFAULT_ICC_PROFILE_ID, getICCProfileInfo, getPDFXRules, loadICCProfile } from "@/services/imageProcessing";
+
+const SPOT_FAMILIES = ['Separation', 'DeviceN'];
+// Separations that are not inks of their own
+const PROCESS_SEPARATIONS = ['All', 'None', 'Cyan', 'Magenta', 'Yellow', 'Black'];
+
+export const colorSpaceRule: PreflightRule = {
+  id: 'color-space',
+  name: 'Colour space',
+  description: 'Output colours suit the press and the chosen PDF standard; spot and CMYK source colours are kept where possible.',
+  category: 'color',
+  run: async ({ parameters, getPDF }) => {
+    const issues: PreflightIssue[] = [];
+    const standard = parameters.pdfStandard ?? 'none';
+    const cmykOutput = parameters.colorSpace === 'cmyk';
+
+    if (standard !== 'none' && !cmykOutput) {
+      issues.push({
+        type: 'error',
+        message: `${standard} output needs CMYK images; RGB images are not allowed`,
+        category: 'color',
+        fix: { label: 'Convert to CMYK', parameters: { colorSpace: 'cmyk' } },
+      });
+    } else if (cmykOutput) {
+      const profileId = parameters.iccProfile ?? DEFAULT_ICC_PROFILE_ID;
+      const profileName = getICCProfileInfo(profileId)?.name ?? 'the selected profile';
+      try {
+        // The profile files are not shipped with the app, so the default may be missing too
+        await loadICCProfile(profileId);
+        issues.push({
+          type: 'info',
+          message: `Colours are converted to CMYK with ${profileName}; saturated RGB colours may print duller.`,
+          category: 'color',
+        });
+      } catch {
+        issues.push({
+          type: 'error',
+          message: `The ${profileName} ICC profile could not be loaded, so CMYK export will fail`,
+          category: 'color',
+          suggestion: 'Add the profile file to public/icc/ as described in public/icc/README.md, or upload a CMYK profile in the sidebar.',
+          fix: { label: 'Export in RGB', parameters: { colorSpace: 'rgb', pdfStandard: 'none' } },
+        });
+      }
+    } else {
+      issues.push({
+        type: 'info',
+        message: 'The PDF is exported in RGB and converted by the printer.',
+        category: 'color',
+        suggestion: 'Convert to CMYK yourself for predictable colour on press.',
+        fix: { label: 'Convert to CMYK', parameters: { colorSpace: 'cmyk' } },
+      });
+    }
+
+    const pdfDoc = await getPDF();
+    if (!pdfDoc) return issues;
+
+    // Colour spaces named in resources and images; device colour operators in
+    // content streams are left to the conformance check on export
+    const families = new Set<string>();
+    const spotNames = new Set<string>();
+    const addColorSpace = (value: PDFObject | undefined) => {
+      const family = colorSpaceFamily(pdfDoc, value);
+      if (!family) return;
+      families.add(family);
+      const resolved = pdfDoc.context.lookup(value);
+      if (SPOT_FAMILIES.includes(family) && resolved instanceof PDFArray) {
+        const names = pdfDoc.context.lookup(resolved.get(1));
+        const inks = names instanceof PDFArray ? names.asArray() : [names];
+        for (const ink of inks) {
+          const inkName = nameText(ink);
+          if (inkName && !PROCESS_SEPARATIONS.includes(inkName)) spotNames.add(inkName);
+        }
+      }
+    };
+
+    for (const { resources } of collectResources(pdfDoc)) {
+      for (const [, colorSpace] of resourceEntries(pdfDoc, resources, 'ColorSpace')) {
+        addColorSpace(colorSpace);
+      }
+      for (const [, xobject] of resourceEntries(pdfDoc, resources, 'XObject')) {
+        if (xobject instanceof PDFStream && nameText(xobject.dict.get(PDFName.of('Subtype'))) === 'Image') {
+          addColorSpace(xobject.dict.get(PDFName.of('ColorSpace')));
+        }
+      }
+    }
+
+    if (parameters.preserveVectors) {
+      // The original pages are embedded as they are, so they have to conform themselves
+      if (standard !== 'none') {
+        const forbidden = getPDFXRules(standard).forbiddenColorSpaces.filter((family) => families.has(family));
+        if (forbidden.length > 0) {
+          issues.push({
+            type: 'error',
+            message: `The source PDF uses ${forbidden.join(', ')}, which ${standard} does not allow in the kept vector pages`,
+            category: 'color',
+            suggestion: 'Convert the source to CMYK, or rasterise the pages so they are converted on export.',
+            fix: { label: 'Rasterise pages', parameters: { preserveVectors: false } },
+          });
+        }
+      }
+    } else {
+      if (spotNames.size > 0) {
+        issues.push({
+          type: 'warning',
+          message: `Spot colours (${Array.from(spotNames).join(', ')}) become process colours when the pages are rasterised`,
+          category: 'color',
+          suggestion: 'Keep the vectors to print the spot inks as they are.',
+          fix: { label: 'Keep vectors', parameters: { preserveVectors: true } },
+        });
+      }
+      if (families.has('DeviceCMYK')) {
+        issues.push({
+          type: 'warning',
+          message: 'CMYK artwork is rendered through RGB, so exact CMYK values and rich blacks are not kept',
+          category: 'color',
+          suggestion: 'Keep the vectors to embed the CMYK pages unchanged.',
+          fix: { label: 'Keep vectors', parameters: { preserveVectors: true } },
+        });
+      }
+    }
+    return issues;
+  },
+};
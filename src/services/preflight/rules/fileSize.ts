@@ -0,0 +1,31 @@
+import { PreflightIssue, PreflightRule } from "../types";
+
+const MAX_FILE_SIZE = 100 * 1024 * 1024;
+
+export const fileSizeRule: PreflightRule = {
+  id: 'file-size',
+  name: 'File size and type',
+  description: 'The upload is within the size limit and in a format the workflow reads.',
+  category: 'file',
+  run: ({ file, parameters }) => {
+    const issues: PreflightIssue[] = [];
+    if (file.file.size > MAX_FILE_SIZE) {
+      issues.push({
+        type: 'error',
+        message: `File size (${Math.round(file.file.size / 1024 / 1024)}MB) exceeds the 100MB limit`,
+        category: 'file',
+        suggestion: 'Compress the images in the file or split it into several uploads.',
+      });
+    }
+    if (file.type === 'pdf' && !parameters.preserveVectors) {
+      issues.push({
+        type: 'info',
+        message: 'PDF pages are rendered to images for processing, so text and vectors become pixels.',
+        category: 'format',
+        suggestion: 'Keep the vectors to embed the original pages and only rasterise the bleed.',
+        fix: { label: 'Keep vectors', parameters: { preserveVectors: true } },
+      });
+    }
+    return issues;
+  },
+};
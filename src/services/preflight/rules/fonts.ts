@@ -0,0 +1,65 @@
+import { PDFArray, PDFDict, PDFDocument, PDFName } from 'pdf-lib';
+import { PreflightRule } from "../types";
+import { collectResources, nameText, resourceEntries } from "../pdfResources";
+
+const FONT_FILES = ['FontFile', 'FontFile2', 'FontFile3'];
+
+/**
+ * Names of the fonts the PDF uses without embedding them. Type 3 fonts are
+ * drawn from content streams and always count as embedded.
+ */
+const findUnembeddedFonts = (pdfDoc: PDFDocument): string[] => {
+  const missing = new Set<string>();
+  for (const { resources } of collectResources(pdfDoc)) {
+    for (const [key, font] of resourceEntries(pdfDoc, resources, 'Font')) {
+      if (!(font instanceof PDFDict)) continue;
+      const subtype = nameText(font.get(PDFName.of('Subtype')));
+      if (subtype === 'Type3') continue;
+
+      const descendant = subtype === 'Type0'
+        ? font.lookupMaybe(PDFName.of('DescendantFonts'), PDFArray)?.lookup(0)
+        : font;
+      const descriptor = descendant instanceof PDFDict
+        ? descendant.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict)
+        : undefined;
+      const embedded = FONT_FILES.some((name) => descriptor?.has(PDFName.of(name)));
+      if (!embedded) {
+        // Subset fonts are named like ABCDEF+Helvetica
+        const baseFont = nameText(font.get(PDFName.of('BaseFont'))) ?? key;
+        missing.add(baseFont.replace(/^[A-Z]{6}\+/, ''));
+      }
+    }
+  }
+  return Array.from(missing);
+};
+
+export const fontsRule: PreflightRule = {
+  id: 'fonts',
+  name: 'Fonts',
+  description: 'Every font in a PDF is embedded, so text prints in the intended typeface.',
+  category: 'fonts',
+  run: async ({ parameters, getPDF }) => {
+    const pdfDoc = await getPDF();
+    if (!pdfDoc) return [];
+    const missing = findUnembeddedFonts(pdfDoc);
+    if (missing.length === 0) return [];
+
+    const fonts = missing.join(', ');
+    const suggestion = 'Export the PDF again with all fonts embedded, or convert text to outlines.';
+    if (parameters.preserveVectors && (parameters.pdfStandard ?? 'none') !== 'none') {
+      return [{
+        type: 'error',
+        message: `${parameters.pdfStandard} requires embedded fonts; not embedded: ${fonts}`,
+        category: 'fonts',
+        suggestion,
+        fix: { label: 'Rasterise pages', parameters: { preserveVectors: false } },
+      }];
+    }
+    return [{
+      type: 'warning',
+      message: `Fonts not embedded (${fonts}) are replaced with similar fonts and may look different`,
+      category: 'fonts',
+      suggestion,
+    }];
+  },
+};
@@ -0,0 +1,26 @@
+import { PreflightRule } from "../types";
+import { fileSizeRule } from "./fileSize";
+import { outputSizeRule } from "./outputSize";
+import { resolutionRule } from "./resolution";
+import { colorSpaceRule } from "./colorSpace";
+import { transparencyRule } from "./transparency";
+import { fontsRule } from "./fonts";
+import { pageBoxesRule } from "./pageBoxes";
+import { safeMarginRule } from "./safeMargin";
+import { bleedRule } from "./bleed";
+import { safeZoneRule } from "./safeZone";
+import { aiConfigurationRule } from "./aiConfiguration";
+
+export const BUILT_IN_RULES: PreflightRule[] = [
+  fileSizeRule,
+  outputSizeRule,
+  resolutionRule,
+  colorSpaceRule,
+  transparencyRule,
+  fontsRule,
+  pageBoxesRule,
+  safeMarginRule,
+  bleedRule,
+  safeZoneRule,
+  aiConfigurationRule,
+];
@@ -0,0 +1,42 @@
+import { PreflightIssue, PreflightRule } from "../types";
+import { needsTiledProcessing } from "@/services/imageProcessing";
+
+// Outputs past this many pixels a side take noticeably longer
+const LARGE_OUTPUT_SIDE = 5000;
+
+export const outputSizeRule: PreflightRule = {
+  id: 'output-size',
+  name: 'Output size',
+  description: 'Very large formats are processed in tiles, which limits the available features.',
+  category: 'dpi',
+  run: ({ parameters }) => {
+    const issues: PreflightIssue[] = [];
+    const pixelWidth = Math.round((parameters.finalDimensions.width * parameters.dpi) / 25.4);
+    const pixelHeight = Math.round((parameters.finalDimensions.height * parameters.dpi) / 25.4);
+
+    if (needsTiledProcessing(parameters)) {
+      issues.push({
+        type: 'warning',
+        message: `Large format output (${pixelWidth}×${pixelHeight}px) will be processed in tiles. AI bleed is replaced by the edge fill and contour cut lines are not available.`,
+        category: 'dpi',
+        suggestion: parameters.dpi === 300 ? 'Large formats are viewed from further away; 150 DPI is usually enough.' : undefined,
+        fix: parameters.dpi === 300 ? { label: 'Use 150 DPI', parameters: { dpi: 150 } } : undefined,
+      });
+      if (parameters.cutLineType === 'contour') {
+        issues.push({
+          type: 'error',
+          message: 'Contour cut lines are not available for tiled large-format output',
+          category: 'format',
+          fix: { label: 'Use a rectangular cut', parameters: { cutLineType: 'rectangle' } },
+        });
+      }
+    } else if (pixelWidth > LARGE_OUTPUT_SIDE || pixelHeight > LARGE_OUTPUT_SIDE) {
+      issues.push({
+        type: 'warning',
+        message: `Very high resolution output (${pixelWidth}×${pixelHeight}px) will take longer to process`,
+        category: 'dpi',
+      });
+    }
+    return issues;
+  },
+};
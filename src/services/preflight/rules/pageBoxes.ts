@@ -0,0 +1,122 @@
+import { PDFPage } from 'pdf-lib';
+import { FitMode, ProcessingParameters } from "@/types/print";
+import { PreflightIssue, PreflightRule } from "../types";
+
+const MM_PER_POINT = 25.4 / 72;
+// Size differences below this are rounding in the source file
+const SIZE_TOLERANCE_MM = 1;
+const ASPECT_TOLERANCE = 0.01;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const FIT_CONSEQUENCE: Record<FitMode, string> = {
+  contain: 'it will not fill the trim',
+  cover: 'part of it will be cropped',
+  stretch: 'it will be distorted',
+  none: 'it is placed at actual size',
+};
+
+const aspectDiffers = (a: { width: number; height: number }, b: { width: number; height: number }) =>
+  Math.abs(a.width / a.height / (b.width / b.height) - 1) > ASPECT_TOLERANCE;
+
+/**
+ * Placement that maps the page's TrimBox onto the trim: actual size scaled
+ * up to cover the trim, shifted so the TrimBox is centred on it.
+ */
+const trimBoxPlacement = (page: PDFPage, parameters: ProcessingParameters): Partial<ProcessingParameters> => {
+  const crop = page.getCropBox();
+  const trim = page.getTrimBox();
+  const { width, height } = parameters.finalDimensions;
+  const scale = Math.max(width / (trim.width * MM_PER_POINT), height / (trim.height * MM_PER_POINT));
+  // PDF y runs up, the placement's y down
+  const left = (trim.x - crop.x) * MM_PER_POINT;
+  const top = (crop.y + crop.height - trim.y - trim.height) * MM_PER_POINT;
+  return {
+    fitMode: 'none',
+    fitAnchor: 'center',
+    contentScale: Math.round(scale * 1000) / 1000,
+    contentOffset: {
+      x: round(scale * ((crop.width - trim.width) * MM_PER_POINT / 2 - left)),
+      y: round(scale * ((crop.height - trim.height) * MM_PER_POINT / 2 - top)),
+    },
+  };
+};
+
+export const pageBoxesRule: PreflightRule = {
+  id: 'page-boxes',
+  name: 'Page size and boxes',
+  description: "The artwork's size and proportions match the trim, and bleed already in a PDF is not shrunk into it.",
+  category: 'boxes',
+  run: async ({ file, parameters, getPDF }) => {
+    const issues: PreflightIssue[] = [];
+    const trim = parameters.finalDimensions;
+    const fitMode = parameters.fitMode ?? 'contain';
+    const pdfDoc = await getPDF();
+
+    if (!pdfDoc) {
+      if (file.dimensions && fitMode !== 'stretch' && fitMode !== 'none' && aspectDiffers(file.dimensions, trim)) {
+        issues.push({
+          type: 'warning',
+          message: `The image's proportions differ from the ${trim.width}×${trim.height}mm trim, so ${FIT_CONSEQUENCE[fitMode]}`,
+          category: 'boxes',
+          fix: fitMode === 'contain' ? { label: 'Fill the trim', parameters: { fitMode: 'cover' } } : undefined,
+        });
+      }
+      return issues;
+    }
+
+    const page = pdfDoc.getPage(0);
+    const sideways = Math.abs(page.getRotation().angle) % 180 === 90;
+    const hasTrimBox = page.node.TrimBox() !== undefined;
+    const box = page.getTrimBox();
+    const pageSize = {
+      width: round((sideways ? box.height : box.width) * MM_PER_POINT),
+      height: round((sideways ? box.width : box.height) * MM_PER_POINT),
+    };
+    const boxName = hasTrimBox ? 'TrimBox' : 'page';
+
+    if (Math.abs(pageSize.width - trim.width) > SIZE_TOLERANCE_MM || Math.abs(pageSize.height - trim.height) > SIZE_TOLERANCE_MM) {
+      const setTrim = { label: `Use ${pageSize.width}×${pageSize.height}mm`, parameters: { finalDimensions: pageSize } };
+      issues.push(aspectDiffers(pageSize, trim)
+        ? {
+            type: 'warning',
+            message: `The ${boxName} is ${pageSize.width}×${pageSize.height}mm with other proportions than the ${trim.width}×${trim.height}mm trim, so ${FIT_CONSEQUENCE[fitMode]}`,
+            category: 'boxes',
+            fix: setTrim,
+          }
+        : {
+            type: 'info',
+            message: `The ${boxName} is ${pageSize.width}×${pageSize.height}mm and is scaled by ${Math.round((trim.width / pageSize.width) * 100)}% to the trim.`,
+            category: 'boxes',
+            fix: setTrim,
+          });
+    }
+
+    const crop = page.getCropBox();
+    const outside = Math.max(crop.width - box.width, crop.height - box.height) * MM_PER_POINT;
+    if (hasTrimBox && outside > SIZE_TOLERANCE_MM / 2) {
+      // The offsets are worked out for upright pages only
+      issues.push({
+        type: 'warning',
+        message: `The PDF page has ${round(outside / 2)}mm of bleed or marks around its TrimBox; fitting the whole page shrinks the artwork and puts them inside the trim`,
+        category: 'boxes',
+        suggestion: 'Place the page by its TrimBox so the existing bleed lands in the bleed.',
+        fix: page.getRotation().angle % 360 === 0
+          ? { label: 'Place by TrimBox', parameters: trimBoxPlacement(page, parameters) }
+          : undefined,
+      });
+    }
+
+    if (pdfDoc.getPages().some((other) => {
+      const size = other.getTrimBox();
+      return Math.abs(size.width - box.width) > 1 || Math.abs(size.height - box.height) > 1;
+    })) {
+      issues.push({
+        type: 'warning',
+        message: 'Pages have different sizes; every page is fitted to the same trim',
+        category: 'boxes',
+      });
+    }
+    return issues;
+  },
+};
@@ -0,0 +1,60 @@
+import { PreflightIssue, PreflightRule } from "../types";
+import { MIN_EFFECTIVE_PPI, measureEffectiveResolution, resolutionIssueType } from "@/services/imageProcessing";
+
+// Low-resolution images listed individually before the rest are summarised
+const MAX_LISTED_IMAGES = 10;
+
+export const resolutionRule: PreflightRule = {
+  id: 'resolution',
+  name: 'Effective resolution',
+  description: 'Every raster image has enough pixels for the size it prints at.',
+  category: 'dpi',
+  run: async ({ file, parameters }) => {
+    const lowResolution = (await measureEffectiveResolution(file, parameters))
+      .map((image) => ({ image, type: resolutionIssueType(image.ppi, parameters.dpi) }))
+      .filter(({ type }) => type !== null)
+      .sort((a, b) => a.image.ppi - b.image.ppi);
+
+    // Upscaling works on the decoded image file; PDF pages are rendered first
+    const canUpscale = file.type === 'image';
+    const upscaled = canUpscale && !!parameters.upscaleSource;
+
+    const issues: PreflightIssue[] = lowResolution.slice(0, MAX_LISTED_IMAGES).map(({ image, type }) => {
+      const subject = image.pageNumber
+        ? `Page ${image.pageNumber}, image ${image.imageNumber} (${image.pixelWidth}×${image.pixelHeight}px)`
+        : `Image (${image.pixelWidth}×${image.pixelHeight}px)`;
+      const resolution = `prints at ${image.width.toFixed(0)}×${image.height.toFixed(0)}mm, an effective ${Math.round(image.ppi)} ppi (target ${parameters.dpi}, minimum ${MIN_EFFECTIVE_PPI})`;
+      if (upscaled) {
+        return {
+          type: 'warning',
+          message: `${subject} ${resolution}; it is upscaled and sharpened, so fine detail is interpolated`,
+          category: 'dpi',
+          suggestion: 'Use a higher resolution original for the best result.',
+        };
+      }
+
+      // Dropping to 150 DPI output is enough when the image holds up there
+      const lowerDPIHelps = parameters.dpi === 300 && resolutionIssueType(image.ppi, 150) === null;
+      return {
+        type: type === 'error' ? 'error' : 'warning',
+        message: `${subject} ${resolution}`,
+        category: 'dpi',
+        suggestion: 'Use a higher resolution original or print it smaller.',
+        fix: lowerDPIHelps
+          ? { label: 'Output at 150 DPI', parameters: { dpi: 150 } }
+          : canUpscale
+            ? { label: 'Upscale source', parameters: { upscaleSource: true } }
+            : undefined,
+      };
+    });
+
+    if (lowResolution.length > MAX_LISTED_IMAGES) {
+      issues.push({
+        type: 'warning',
+        message: `${lowResolution.length - MAX_LISTED_IMAGES} more images are below the target resolution`,
+        category: 'dpi',
+      });
+    }
+    return issues;
+  },
+};
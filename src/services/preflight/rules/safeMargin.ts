@@ -0,0 +1,37 @@
+import { PreflightRule } from "../types";
+import { DEFAULT_SAFE_ZONE_MM } from "@/services/imageProcessing";
+
+export const safeMarginRule: PreflightRule = {
+  id: 'safe-margin',
+  name: 'Safe margin',
+  description: 'The safe margin leaves an area inside the trim, so the ArtBox can be written.',
+  category: 'boxes',
+  run: ({ parameters }) => {
+    const safeMargin = parameters.safeMargin ?? 0;
+    const { width, height } = parameters.finalDimensions;
+    const shortSide = Math.min(width, height);
+    // Fall back to the default safe zone where it fits, otherwise leave the ArtBox out
+    const fix = DEFAULT_SAFE_ZONE_MM * 2 < shortSide
+      ? { label: `Use a ${DEFAULT_SAFE_ZONE_MM}mm safe margin`, parameters: { safeMargin: DEFAULT_SAFE_ZONE_MM } }
+      : { label: 'Remove the safe margin', parameters: { safeMargin: 0 } };
+
+    if (!(safeMargin >= 0)) {
+      return [{
+        type: 'error',
+        message: `Safe margin of ${safeMargin}mm is negative`,
+        category: 'boxes',
+        fix,
+      }];
+    }
+    if (safeMargin * 2 >= shortSide) {
+      return [{
+        type: 'error',
+        message: `Safe margin of ${safeMargin}mm leaves no area inside the ${width}×${height}mm trim`,
+        category: 'boxes',
+        suggestion: `Keep it under ${shortSide / 2}mm, half the shorter side.`,
+        fix,
+      }];
+    }
+    return [];
+  },
+};
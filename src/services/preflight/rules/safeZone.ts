@@ -0,0 +1,45 @@
+import { PreflightRule } from "../types";
+import { DEFAULT_SAFE_ZONE_MM, checkSafeZone } from "@/services/imageProcessing";
+
+// The placement slider's minimum
+const MIN_CONTENT_SCALE = 0.1;
+
+export const safeZoneRule: PreflightRule = {
+  id: 'safe-zone',
+  name: 'Safe zone',
+  description: 'No text or fine detail sits between the cut line and the safe margin.',
+  category: 'content',
+  run: async ({ file, parameters }) => {
+    // Contour cuts follow the artwork itself, so there is no fixed line to keep clear of
+    if (parameters.cutLineType === 'contour') return [];
+
+    const safeMargin = parameters.safeMargin || DEFAULT_SAFE_ZONE_MM;
+    const { width, height } = parameters.finalDimensions;
+    // Shrinking by this much moves content at the trim onto the safe margin
+    const shrink = Math.min((width - safeMargin * 2) / width, (height - safeMargin * 2) / height);
+    if (shrink <= 0) {
+      // A margin the user set is reported by the safe-margin rule
+      if (parameters.safeMargin) return [];
+      return [{
+        type: 'warning',
+        message: `The default ${safeMargin}mm safe zone leaves no area inside the ${width}×${height}mm trim, so it was not checked`,
+        category: 'content',
+        suggestion: `Set a safe margin under ${Math.min(width, height) / 2}mm to check this format.`,
+      }];
+    }
+    const contentScale = Math.max(
+      MIN_CONTENT_SCALE,
+      Math.round((parameters.contentScale ?? 1) * shrink * 100) / 100
+    );
+
+    const regions = await checkSafeZone(file, parameters);
+    return regions.map((region) => ({
+      type: 'warning',
+      message: `Text or fine detail within the ${safeMargin}mm safe zone at ${region.x.toFixed(0)}, ${region.y.toFixed(0)}mm (${region.width.toFixed(0)}×${region.height.toFixed(0)}mm) may be trimmed off`,
+      category: 'content',
+      suggestion: 'Move the detail inwards or scale the artwork down.',
+      fix: { label: `Scale artwork to ${Math.round(contentScale * 100)}%`, parameters: { contentScale } },
+      region: { x: region.x, y: region.y, width: region.width, height: region.height },
+    }));
+  },
+};
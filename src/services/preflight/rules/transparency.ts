@@ -0,0 +1,113 @@
+import { PDFDict, PDFDocument, PDFName, PDFNumber, PDFStream } from 'pdf-lib';
+import { UploadedFile } from "@/types/print";
+import { PreflightIssue, PreflightRule } from "../types";
+import { collectResources, nameText, resourceEntries } from "../pdfResources";
+import { createCanvas, getContext2D } from "@/services/image/utils";
+
+// Images are checked for transparency at this size at most
+const ALPHA_SAMPLE_SIDE = 512;
+
+const hasTransparentPixels = async (file: UploadedFile): Promise<boolean> => {
+  const bitmap = await createImageBitmap(file.file);
+  const scale = Math.min(1, ALPHA_SAMPLE_SIDE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  const canvas = createCanvas(width, height);
+  const ctx = getContext2D(canvas);
+  if (!ctx) {
+    bitmap.close();
+    throw new Error('Failed to get transparency canvas context');
+  }
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  const { data } = ctx.getImageData(0, 0, width, height);
+  canvas.width = 0;
+  canvas.height = 0;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return true;
+  }
+  return false;
+};
+
+/**
+ * Where the PDF uses transparency: soft-masked images, constant alpha, soft
+ * masks or blend modes in graphics states, and transparency group pages.
+ */
+const findPDFTransparency = (pdfDoc: PDFDocument): string[] => {
+  const found = new Set<string>();
+  const number = (dict: PDFDict, key: string) => dict.lookupMaybe(PDFName.of(key), PDFNumber)?.asNumber();
+
+  for (const page of pdfDoc.getPages()) {
+    const group = page.node.lookupMaybe(PDFName.of('Group'), PDFDict);
+    if (group && nameText(group.get(PDFName.of('S'))) === 'Transparency') found.add('transparency groups');
+  }
+
+  for (const { resources } of collectResources(pdfDoc)) {
+    for (const [, state] of resourceEntries(pdfDoc, resources, 'ExtGState')) {
+      if (!(state instanceof PDFDict)) continue;
+      if ((number(state, 'CA') ?? 1) < 1 || (number(state, 'ca') ?? 1) < 1) found.add('opacity');
+      const softMask = state.get(PDFName.of('SMask'));
+      if (softMask && nameText(softMask) !== 'None') found.add('soft masks');
+      const blendMode = nameText(state.get(PDFName.of('BM')));
+      if (blendMode && blendMode !== 'Normal' && blendMode !== 'Compatible') found.add('blend modes');
+    }
+    for (const [, xobject] of resourceEntries(pdfDoc, resources, 'XObject')) {
+      if (!(xobject instanceof PDFStream)) continue;
+      if (xobject.dict.get(PDFName.of('SMask')) || (number(xobject.dict, 'SMaskInData') ?? 0) > 0) {
+        found.add('images with transparency');
+      }
+    }
+  }
+  return Array.from(found);
+};
+
+export const transparencyRule: PreflightRule = {
+  id: 'transparency',
+  name: 'Transparency',
+  description: 'Transparent artwork prints the way it looks on screen and suits the PDF standard.',
+  category: 'transparency',
+  run: async ({ file, parameters, getPDF }) => {
+    const issues: PreflightIssue[] = [];
+
+    if (file.type === 'image') {
+      if (parameters.cutLineType !== 'contour' && await hasTransparentPixels(file)) {
+        issues.push({
+          type: 'warning',
+          message: 'The image has transparent areas, which print as unprinted paper',
+          category: 'transparency',
+          suggestion: 'Cut around the artwork with a contour cut, or flatten the image onto a background.',
+          fix: { label: 'Use a contour cut', parameters: { cutLineType: 'contour' } },
+        });
+      }
+      return issues;
+    }
+
+    const pdfDoc = await getPDF();
+    if (!pdfDoc) return issues;
+    const uses = findPDFTransparency(pdfDoc);
+    if (uses.length === 0) return issues;
+
+    if (!parameters.preserveVectors) {
+      issues.push({
+        type: 'info',
+        message: `Transparency (${uses.join(', ')}) is flattened when the pages are rendered.`,
+        category: 'transparency',
+      });
+    } else if (parameters.pdfStandard === 'PDF/X-1a:2003') {
+      issues.push({
+        type: 'error',
+        message: `The source PDF uses transparency (${uses.join(', ')}), which PDF/X-1a does not allow in the kept vector pages`,
+        category: 'transparency',
+        suggestion: 'Rasterise the pages to flatten it, or export to PDF/X-4, which allows live transparency.',
+        fix: { label: 'Export PDF/X-4', parameters: { pdfStandard: 'PDF/X-4' } },
+      });
+    } else {
+      issues.push({
+        type: 'info',
+        message: `The kept vector pages use live transparency (${uses.join(', ')}); it is flattened by the printer's RIP.`,
+        category: 'transparency',
+      });
+    }
+    return issues;
+  },
+};
@@ -0,0 +1,30 @@
+import { PDFDocument } from 'pdf-lib';
+import { ProcessingParameters, UploadedFile, ValidationCategory, ValidationIssue } from "@/types/print";
+
+/** What a rule returns; the engine adds the rule id */
+export type PreflightIssue = Omit<ValidationIssue, 'ruleId'>;
+
+export interface PreflightContext {
+  file: UploadedFile;
+  parameters: ProcessingParameters;
+  /** The uploaded PDF parsed once for every rule; null for image files */
+  getPDF(): Promise<PDFDocument | null>;
+}
+
+export interface PreflightRule {
+  id: string;
+  name: string;
+  description: string;
+  category: ValidationCategory;
+  run(context: PreflightContext): PreflightIssue[] | Promise<PreflightIssue[]>;
+}
+
+export interface PreflightProfile {
+  id: string;
+  name: string;
+  description: string;
+  /** Rule ids to run, in order */
+  rules: string[];
+  /** Rules whose warnings count as errors under this profile */
+  escalate?: string[];
+}
@@ -0,0 +1,7 @@
+// Preset library: the built-in catalogue, the user's saved presets and the JSON exchange format
+export { BUILT_IN_PRESETS, PRESET_CATEGORIES, searchPresets } from "./presets/catalogue";
+export { DEFAULT_PROCESSING_PARAMETERS } from "./presets/defaults";
+export { exportPresetFile, parsePresetFile, presetParameters } from "./presets/presetFile";
+export { deleteUserPreset, listUserPresets, saveUserPresets } from "./presets/PresetStore";
+
+export type { PresetDraft } from "./presets/presetFile";
@@ -0,0 +1,49 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { PresetCategory, PresetTemplate, ProcessingParameters } from "@/types/print";
+import { PresetDraft, presetParameters } from "./presetFile";
+import { DEFAULT_PROCESSING_PARAMETERS } from "./defaults";
+
+const toPreset = (row: Tables<'user_presets'>): PresetTemplate => ({
+  id: row.id,
+  name: row.name,
+  category: row.category as PresetCategory,
+  description: row.description ?? undefined,
+  // Presets saved before a setting existed get its default
+  parameters: { ...DEFAULT_PROCESSING_PARAMETERS, ...(row.parameters as unknown as Partial<ProcessingParameters>) },
+});
+
+/** The signed-in user's presets by name; empty when nobody is signed in */
+export const listUserPresets = async (): Promise<PresetTemplate[]> => {
+  const { data, error } = await supabase.from('user_presets').select('*').order('name');
+  if (error) {
+    throw new Error(`Could not load presets: ${error.message}`);
+  }
+  return data.map(toPreset);
+};
+
+export const saveUserPresets = async (userId: string, drafts: PresetDraft[]): Promise<PresetTemplate[]> => {
+  const { data, error } = await supabase
+    .from('user_presets')
+    .insert(drafts.map(({ name, category, description, parameters }) => ({
+      user_id: userId,
+      name,
+      category,
+      description: description ?? null,
+      parameters: presetParameters(parameters) as unknown as Json,
+    })))
+    .select();
+
+  if (error) {
+    throw new Error(`Could not save presets: ${error.message}`);
+  }
+  console.log(`[PresetStore] Saved ${data.length} preset(s)`);
+  return data.map(toPreset);
+};
+
+export const deleteUserPreset = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('user_presets').delete().eq('id', id);
+  if (error) {
+    throw new Error(`Could not delete preset: ${error.message}`);
+  }
+};
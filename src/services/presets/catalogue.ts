@@ -0,0 +1,125 @@
+import { PresetCategory, PresetTemplate, ProcessingParameters } from "@/types/print";
+import { DEFAULT_PROCESSING_PARAMETERS } from "./defaults";
+
+export const PRESET_CATEGORIES: { value: PresetCategory; label: string }[] = [
+  { value: "paper", label: "Paper sizes" },
+  { value: "business-cards", label: "Business cards" },
+  { value: "flyers", label: "Flyers" },
+  { value: "postcards", label: "Postcards" },
+  { value: "posters", label: "Posters" },
+  { value: "banners", label: "Roll-ups & banners" },
+  { value: "custom", label: "Custom" },
+];
+
+// Formats from A2 up are seen from a distance: 150 DPI is plenty and the wider bleed absorbs trimming on large sheets
+const LARGE_FORMAT_MM = 420;
+
+const builtIn = (
+  id: string,
+  name: string,
+  category: PresetCategory,
+  width: number,
+  height: number,
+  description: string,
+  overrides: Partial<ProcessingParameters> = {}
+): PresetTemplate => {
+  const large = Math.min(width, height) >= LARGE_FORMAT_MM;
+  return {
+    id: `builtin:${id}`,
+    name,
+    category,
+    description,
+    builtIn: true,
+    parameters: {
+      ...DEFAULT_PROCESSING_PARAMETERS,
+      finalDimensions: { width, height },
+      bleedMargin: large ? 5 : 3,
+      dpi: large ? 150 : 300,
+      ...overrides,
+    },
+  };
+};
+
+const ISO_A: [string, number, number][] = [
+  ["A0", 841, 1189],
+  ["A1", 594, 841],
+  ["A2", 420, 594],
+  ["A3", 297, 420],
+  ["A4", 210, 297],
+  ["A5", 148, 210],
+  ["A6", 105, 148],
+  ["A7", 74, 105],
+];
+
+const ISO_B: [string, number, number][] = [
+  ["B0", 1000, 1414],
+  ["B1", 707, 1000],
+  ["B2", 500, 707],
+  ["B3", 353, 500],
+  ["B4", 250, 353],
+  ["B5", 176, 250],
+  ["B6", 125, 176],
+];
+
+export const BUILT_IN_PRESETS: PresetTemplate[] = [
+  ...ISO_A.map(([size, width, height]) =>
+    builtIn(`iso-${size.toLowerCase()}`, `${size} (${width}×${height}mm)`, "paper", width, height, `ISO 216 ${size}`)
+  ),
+  ...ISO_B.map(([size, width, height]) =>
+    builtIn(`iso-${size.toLowerCase()}`, `${size} (${width}×${height}mm)`, "paper", width, height, `ISO 216 ${size}`)
+  ),
+  builtIn("us-letter", "US Letter (8.5×11in)", "paper", 215.9, 279.4, "ANSI A, the North American office size"),
+  builtIn("us-legal", "US Legal (8.5×14in)", "paper", 215.9, 355.6, "North American legal size"),
+  builtIn("us-tabloid", "Tabloid (11×17in)", "paper", 279.4, 431.8, "ANSI B"),
+
+  builtIn("business-card-eu", "Business Card (85×55mm)", "business-cards", 85, 55, "European standard", {
+    bleedMargin: 2,
+    safeMargin: 3,
+  }),
+  builtIn("business-card-us", "Business Card US (3.5×2in)", "business-cards", 88.9, 50.8, "North American standard", {
+    bleedMargin: 2,
+    safeMargin: 3,
+  }),
+  builtIn("business-card-rounded", "Business Card, rounded (85×55mm)", "business-cards", 85, 55, "With 3mm rounded corners", {
+    bleedMargin: 2,
+    safeMargin: 3,
+    cutLineType: "rounded",
+    cornerRadius: 3,
+  }),
+
+  builtIn("flyer-a4", "A4 Flyer (210×297mm)", "flyers", 210, 297, "Single sheet flyer"),
+  builtIn("flyer-a5", "A5 Flyer (148×210mm)", "flyers", 148, 210, "Half-sheet flyer"),
+  builtIn("flyer-a6", "A6 Flyer (105×148mm)", "flyers", 105, 148, "Pocket flyer"),
+  builtIn("flyer-dl", "DL Flyer (99×210mm)", "flyers", 99, 210, "Fits a DL envelope, a third of A4"),
+
+  builtIn("postcard-a6", "A6 Postcard (148×105mm)", "postcards", 148, 105, "European postcard, landscape"),
+  builtIn("postcard-us", "US Postcard (6×4in)", "postcards", 152.4, 101.6, "North American postcard, landscape"),
+  builtIn("postcard-5x7", "Greeting Card (7×5in)", "postcards", 177.8, 127, "Folded greeting card, landscape"),
+
+  builtIn("poster-a2", "A2 Poster (420×594mm)", "posters", 420, 594, "Indoor poster"),
+  builtIn("poster-a1", "A1 Poster (594×841mm)", "posters", 594, 841, "Large indoor poster"),
+  builtIn("poster-a0", "A0 Poster (841×1189mm)", "posters", 841, 1189, "Large format poster"),
+  builtIn("poster-b1", "B1 Poster (707×1000mm)", "posters", 707, 1000, "Billboard and transit poster"),
+
+  // The bottom of a roll-up disappears into the cassette; the safe margin keeps content clear of it
+  builtIn("rollup-850", "Roll-up (850×2000mm)", "banners", 850, 2000, "Standard roll-up banner", { safeMargin: 20 }),
+  builtIn("rollup-1000", "Roll-up (1000×2000mm)", "banners", 1000, 2000, "Wide roll-up banner", { safeMargin: 20 }),
+  builtIn("rollup-1200", "Roll-up (1200×2000mm)", "banners", 1200, 2000, "Extra wide roll-up banner", { safeMargin: 20 }),
+];
+
+/**
+ * Presets in `category` (all when "all") whose name or description contains
+ * every word of the query.
+ */
+export const searchPresets = (
+  presets: PresetTemplate[],
+  query: string,
+  category: PresetCategory | "all"
+): PresetTemplate[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return presets.filter((preset) => {
+    if (category !== "all" && preset.category !== category) return false;
+    const text = `${preset.name} ${preset.description ?? ""}`.toLowerCase();
+    return words.every((word) => text.includes(word));
+  });
+};
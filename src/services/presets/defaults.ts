@@ -0,0 +1,22 @@
+import { ProcessingParameters } from "@/types/print";
+import { DEFAULT_CUT_CONTOUR_NAME } from "../image/CutContour";
+import { DEFAULT_PRINTER_MARKS } from "../image/PrinterMarks";
+
+// Starting parameters of the dashboards and the base every built-in preset adjusts
+export const DEFAULT_PROCESSING_PARAMETERS: ProcessingParameters = {
+  finalDimensions: { width: 210, height: 297 }, // A4 default
+  bleedMargin: 3,
+  bleedMethod: "auto",
+  safeMargin: 0,
+  fitMode: "contain",
+  fitAnchor: "center",
+  dpi: 300,
+  cutLineType: "rectangle",
+  cutContourName: DEFAULT_CUT_CONTOUR_NAME,
+  preserveVectors: false,
+  colorSpace: "rgb",
+  iccProfile: "fogra39",
+  embedIccProfile: true,
+  pdfStandard: "none",
+  printerMarks: DEFAULT_PRINTER_MARKS,
+};
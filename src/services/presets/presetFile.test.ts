@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PROCESSING_PARAMETERS } from "./defaults";
+import { parsePresetFile } from "./presetFile";
+
+const presetFile = (parameters: Record<string, unknown>) =>
+  new File(
+    [JSON.stringify({
+      format: "prep-print-presets",
+      version: 1,
+      presets: [{ name: "Flyer", category: "paper", parameters: { finalDimensions: { width: 148, height: 210 }, ...parameters } }],
+    })],
+    "presets.json",
+    { type: "application/json" }
+  );
+
+describe("parsePresetFile", () => {
+  it("reads valid settings and fills the rest from the defaults", async () => {
+    const [preset] = await parsePresetFile(presetFile({
+      bleedMargin: 2,
+      safeMargin: 4,
+      fitMode: "cover",
+      colorSpace: "cmyk",
+      iccProfile: "fogra51",
+      pdfStandard: "PDF/X-4",
+      printerMarks: { enabled: true, slugSize: 12 },
+    }));
+
+    expect(preset.name).toBe("Flyer");
+    expect(preset.parameters).toEqual({
+      ...DEFAULT_PROCESSING_PARAMETERS,
+      finalDimensions: { width: 148, height: 210 },
+      bleedMargin: 2,
+      safeMargin: 4,
+      fitMode: "cover",
+      colorSpace: "cmyk",
+      iccProfile: "fogra51",
+      pdfStandard: "PDF/X-4",
+      printerMarks: { ...DEFAULT_PROCESSING_PARAMETERS.printerMarks, enabled: true, slugSize: 12 },
+    });
+  });
+
+  it.each([
+    [{ colorSpace: "lab" }, /invalid colorSpace/],
+    [{ pdfStandard: "PDF/X-3" }, /invalid pdfStandard/],
+    [{ fitMode: "fill" }, /invalid fitMode/],
+    [{ bleedMethod: "blur" }, /invalid bleedMethod/],
+    [{ safeMargin: -2 }, /invalid safe margin/],
+    [{ bleedMargin: "3" }, /invalid bleed margin/],
+    [{ dpi: 600 }, /600 DPI/],
+    [{ cutLineType: "star" }, /unknown cut line "star"/],
+    [{ printerMarks: { cropMarks: "yes" } }, /printer's marks/],
+    [{ customDieLine: { name: "die", path: [{ op: "Q" }], bounds: { x: 0, y: 0, width: 1, height: 1 } } }, /die-line/],
+    [{ finalDimensions: { width: 0, height: 210 } }, /positive width and height/],
+  ])("rejects %j", async (parameters, message) => {
+    await expect(parsePresetFile(presetFile(parameters))).rejects.toThrow(message);
+  });
+
+  it("drops unknown settings and ICC profiles that are not available", async () => {
+    const [preset] = await parsePresetFile(presetFile({
+      iccProfile: "custom-from-another-session",
+      contentScale: 2,
+      debugOverlay: true,
+      finalDimensions: { width: 148, height: 210, depth: 5 },
+    }));
+
+    expect(preset.parameters.iccProfile).toBe(DEFAULT_PROCESSING_PARAMETERS.iccProfile);
+    expect(preset.parameters.finalDimensions).toEqual({ width: 148, height: 210 });
+    expect(preset.parameters).not.toHaveProperty("contentScale");
+    expect(preset.parameters).not.toHaveProperty("debugOverlay");
+  });
+});
@@ -0,0 +1,227 @@
+import {
+  BleedMethod,
+  CutLineType,
+  CutPathCommand,
+  DieLine,
+  FitAnchor,
+  FitMode,
+  PDFStandard,
+  PresetCategory,
+  PresetTemplate,
+  PrinterMarks,
+  ProcessingParameters,
+} from "@/types/print";
+import { getICCProfileInfo } from "../image/ColorManagement";
+import { PRESET_CATEGORIES } from "./catalogue";
+import { DEFAULT_PROCESSING_PARAMETERS } from "./defaults";
+
+// Identifies exported files so unrelated JSON is rejected on import
+const PRESET_FILE_FORMAT = 'prep-print-presets';
+const PRESET_FILE_VERSION = 1;
+
+const CUT_LINE_TYPES: CutLineType[] = ["rectangle", "rounded", "circle", "ellipse", "custom", "contour"];
+const FIT_MODES: FitMode[] = ["contain", "cover", "stretch", "none"];
+const FIT_ANCHORS: FitAnchor[] = [
+  "top-left", "top", "top-right",
+  "left", "center", "right",
+  "bottom-left", "bottom", "bottom-right",
+];
+const BLEED_METHODS: BleedMethod[] = ["auto", "edge", "mirror", "smear", "synthesis"];
+const COLOR_SPACES: NonNullable<ProcessingParameters['colorSpace']>[] = ["rgb", "cmyk"];
+const CONTOUR_SOURCES: NonNullable<ProcessingParameters['contourSource']>[] = ["auto", "alpha", "background"];
+const PDF_STANDARDS: PDFStandard[] = ["none", "PDF/X-1a:2003", "PDF/X-4"];
+const PRINTER_MARK_SWITCHES = ['enabled', 'cropMarks', 'registrationMarks', 'colorBar', 'slugLine'] as const;
+const PRINTER_MARK_KEYS: (keyof PrinterMarks)[] = [...PRINTER_MARK_SWITCHES, 'slugSize'];
+
+/** A preset as stored or shared, before it has an id */
+export type PresetDraft = Pick<PresetTemplate, 'name' | 'category' | 'description' | 'parameters'>;
+
+interface PresetFile {
+  format: typeof PRESET_FILE_FORMAT;
+  version: number;
+  presets: PresetDraft[];
+}
+
+/**
+ * The parameters a preset keeps: all but the placement of the artwork,
+ * which belongs to one file rather than to a product.
+ */
+export const presetParameters = (parameters: ProcessingParameters): ProcessingParameters => {
+  const { contentOffset, contentScale, ...rest } = parameters;
+  return rest;
+};
+
+export const exportPresetFile = (presets: PresetTemplate[]): Blob => {
+  const file: PresetFile = {
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    presets: presets.map(({ name, category, description, parameters }) => ({
+      name,
+      category,
+      description,
+      parameters: presetParameters(parameters),
+    })),
+  };
+  return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+};
+
+const isPositive = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+const isNonNegative = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+const isOneOf = <T extends string>(options: readonly T[]) => (value: unknown): value is T =>
+  options.includes(value as T);
+
+const isCutPathCommand = (value: unknown): value is CutPathCommand => {
+  if (!isObject(value)) return false;
+  switch (value.op) {
+    case 'M':
+    case 'L':
+      return isFiniteNumber(value.x) && isFiniteNumber(value.y);
+    case 'C':
+      return [value.x1, value.y1, value.x2, value.y2, value.x, value.y].every(isFiniteNumber);
+    case 'Z':
+      return true;
+    default:
+      return false;
+  }
+};
+
+const isDieLine = (value: unknown): value is DieLine =>
+  isObject(value) &&
+  isString(value.name) &&
+  Array.isArray(value.path) &&
+  value.path.every(isCutPathCommand) &&
+  isObject(value.bounds) &&
+  isFiniteNumber(value.bounds.x) &&
+  isFiniteNumber(value.bounds.y) &&
+  isPositive(value.bounds.width) &&
+  isPositive(value.bounds.height);
+
+const isPrinterMarks = (value: unknown): value is Partial<PrinterMarks> =>
+  isObject(value) &&
+  PRINTER_MARK_SWITCHES.every((key) => value[key] === undefined || isBoolean(value[key])) &&
+  (value.slugSize === undefined || isNonNegative(value.slugSize));
+
+/**
+ * Checks every setting of an imported preset against what the app accepts
+ * and keeps only the known ones. Throws naming the first invalid setting.
+ */
+const parseParameters = (name: string, imported: Record<string, unknown>): Partial<ProcessingParameters> => {
+  const { finalDimensions } = imported;
+  if (!isObject(finalDimensions) || !isPositive(finalDimensions.width) || !isPositive(finalDimensions.height)) {
+    throw new Error(`"${name}" needs a positive width and height`);
+  }
+
+  const parameters: Partial<ProcessingParameters> = {
+    finalDimensions: { width: finalDimensions.width, height: finalDimensions.height },
+  };
+  // Settings left out fall back to the defaults; present ones have to be valid
+  const optional = <K extends keyof ProcessingParameters>(
+    key: K,
+    isValid: (value: unknown) => value is ProcessingParameters[K],
+    problem = `has an invalid ${key}`
+  ) => {
+    const value = imported[key];
+    if (value === undefined) return;
+    if (!isValid(value)) {
+      throw new Error(`"${name}" ${problem}`);
+    }
+    parameters[key] = value;
+  };
+
+  optional('bleedMargin', isNonNegative, 'has an invalid bleed margin');
+  optional('safeMargin', isNonNegative, 'has an invalid safe margin');
+  optional(
+    'dpi',
+    (value): value is ProcessingParameters['dpi'] => value === 150 || value === 300,
+    `uses ${imported.dpi} DPI; only 150 and 300 are supported`
+  );
+  optional('cutLineType', isOneOf(CUT_LINE_TYPES), `has an unknown cut line "${imported.cutLineType}"`);
+  optional('cornerRadius', isNonNegative, 'has an invalid corner radius');
+  optional('customDieLine', isDieLine, 'has an invalid die-line');
+  optional('contourOffset', isNonNegative, 'has an invalid contour offset');
+  optional('contourSource', isOneOf(CONTOUR_SOURCES));
+  optional('cutContourName', isString);
+  optional('fitMode', isOneOf(FIT_MODES));
+  optional('fitAnchor', isOneOf(FIT_ANCHORS));
+  optional('upscaleSource', isBoolean);
+  optional('bleedMethod', isOneOf(BLEED_METHODS));
+  optional('preserveVectors', isBoolean);
+  optional('colorSpace', isOneOf(COLOR_SPACES));
+  optional('embedIccProfile', isBoolean);
+  optional('pdfStandard', isOneOf(PDF_STANDARDS));
+
+  const { printerMarks } = imported;
+  if (printerMarks !== undefined) {
+    if (!isPrinterMarks(printerMarks)) {
+      throw new Error(`"${name}" has invalid printer's marks`);
+    }
+    parameters.printerMarks = {
+      ...DEFAULT_PROCESSING_PARAMETERS.printerMarks!,
+      ...Object.fromEntries(
+        PRINTER_MARK_KEYS.filter((key) => printerMarks[key] !== undefined).map((key) => [key, printerMarks[key]])
+      ),
+    };
+  }
+
+  // Custom profiles only live for the session that registered them
+  if (isString(imported.iccProfile) && getICCProfileInfo(imported.iccProfile)) {
+    parameters.iccProfile = imported.iccProfile;
+  } else if (imported.iccProfile !== undefined) {
+    console.warn(`[PresetFile] "${name}" uses an unavailable ICC profile; the default is used instead`);
+  }
+
+  return parameters;
+};
+
+const parsePreset = (value: unknown, index: number): PresetDraft => {
+  const label = `Preset ${index + 1}`;
+  if (!isObject(value)) {
+    throw new Error(`${label} is not an object`);
+  }
+  const { name, category, description, parameters } = value;
+
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new Error(`${label} has no name`);
+  }
+  if (!isObject(parameters)) {
+    throw new Error(`"${name}" has no parameters`);
+  }
+
+  const known = PRESET_CATEGORIES.some(({ value }) => value === category);
+  return {
+    name: name.trim(),
+    category: known ? (category as PresetCategory) : 'custom',
+    description: typeof description === 'string' ? description : undefined,
+    // Files from older versions may leave settings out; they fall back to the defaults
+    parameters: presetParameters({ ...DEFAULT_PROCESSING_PARAMETERS, ...parseParameters(name, parameters) }),
+  };
+};
+
+/**
+ * Reads presets exported by exportPresetFile. Throws naming the first
+ * problem found.
+ */
+export const parsePresetFile = async (file: File): Promise<PresetDraft[]> => {
+  let content: unknown;
+  try {
+    content = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not valid JSON`);
+  }
+
+  const { format, version, presets } = (content ?? {}) as Partial<PresetFile>;
+  if (format !== PRESET_FILE_FORMAT || typeof version !== 'number' || !Array.isArray(presets)) {
+    throw new Error(`${file.name} is not a preset file`);
+  }
+  if (version > PRESET_FILE_VERSION) {
+    throw new Error(`${file.name} was written by a newer version (format ${version})`);
+  }
+
+  const drafts = presets.map(parsePreset);
+  console.log(`[PresetFile] Read ${drafts.length} preset(s) from ${file.name}`);
+  return drafts;
+};
@@ -0,0 +1,10 @@
+// Processing core without a canvas: RGBA buffers in, print PDF out. Shared by the edge function and the CLI
+export { SUPPORTED_IMAGE_TYPES, decodeImage, readImageSize } from "./core/ImageDecoder";
+export { createClearRaster, createPaperRaster, cropRaster, drawScaled, upscaleRaster } from "./core/Raster";
+export { applyDieLineBleedToPixels } from "./core/DieLineBleed";
+export { chooseBleedStep, estimatePrintMemory, printRasterSize } from "./core/PrintLayout";
+export { createPrintPDF, renderPrintRaster, unsupportedReason } from "./core/PrintPipeline";
+export { processPrintFile } from "./core/PrintJob";
+
+export type { BleedStep, PrintRasterSize } from "./core/PrintLayout";
+export type { PrintRender } from "./core/PrintPipeline";
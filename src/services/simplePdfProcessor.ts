@@ -1,5 +1,7 @@
-import jsPDF from 'jspdf';
+import { PDFDocument } from 'pdf-lib';
 import * as pdfjsLib from 'pdfjs-dist';
+import { computePageBoxes, applyPageBoxes } from './image/PageBoxes';
+import { placeImage } from './image/PDFExporter';
 
 // Use a simpler approach - skip PDF.js worker for now
 // pdfjsLib.GlobalWorkerOptions.workerSrc = null;
@@ -12,132 +14,158 @@ export interface ProcessingParams {
 }
 
 export async function processImageToPDF(file: File, params: ProcessingParams): Promise<Blob> {
+  // Create PDF with exact output dimensions (final size + bleed) at 300 DPI
+  const boxes = computePageBoxes({
+    trimWidthMm: params.width,
+    trimHeightMm: params.height,
+    bleedMm: params.bleed,
+    safeMarginMm: params.safeMargin
+  });
+  const { mediaBox } = boxes;
+  const pdf = await PDFDocument.create();
+
+  // One output page per input page (images have exactly one)
+  for await (const img of loadImages(file)) {
+    const canvas = renderPage(img, params);
+    const page = pdf.addPage([mediaBox.width, mediaBox.height]);
+    applyPageBoxes(page, boxes);
+
+    // Convert canvas to high-quality image data and add to PDF
+    const jpegBytes = await new Promise<Uint8Array>((resolve, reject) => {
+      canvas.toBlob((blob) => {
+        if (!blob) {
+          reject(new Error('Failed to encode canvas as JPEG'));
+          return;
+        }
+        blob.arrayBuffer().then((buffer) => resolve(new Uint8Array(buffer)), reject);
+      }, 'image/jpeg', 0.95);
+    });
+    const image = await pdf.embedJpg(jpegBytes);
+    placeImage(page, image.ref, mediaBox.x, mediaBox.y, mediaBox.width, mediaBox.height);
+  }
+
+  const pdfBytes = await pdf.save({ useObjectStreams: false });
+  return new Blob([pdfBytes], { type: 'application/pdf' });
+}
+
+function renderPage(img: HTMLImageElement, params: ProcessingParams): HTMLCanvasElement {
   const DPI = 300; // Fixed 300 DPI as required
   const MM_TO_INCH = 1 / 25.4;
-  
+
   // Calculate final dimensions in pixels (including bleed)
   const totalWidthMm = params.width + (params.bleed * 2);
   const totalHeightMm = params.height + (params.bleed * 2);
   const canvasWidth = Math.round(totalWidthMm * MM_TO_INCH * DPI);
   const canvasHeight = Math.round(totalHeightMm * MM_TO_INCH * DPI);
-  
+
   // Create canvas
   const canvas = document.createElement('canvas');
   const ctx = canvas.getContext('2d')!;
   canvas.width = canvasWidth;
   canvas.height = canvasHeight;
-  
+
   // Fill with white background (white padding as required)
   ctx.fillStyle = '#FFFFFF';
   ctx.fillRect(0, 0, canvasWidth, canvasHeight);
-  
-  // Load image (handles both images and PDFs)
-  const img = await loadImage(file);
-  
+
   // Calculate dimensions in pixels
   const bleedPx = Math.round(params.bleed * MM_TO_INCH * DPI);
   const safeMarginPx = Math.round(params.safeMargin * MM_TO_INCH * DPI);
-  
+
   // Calculate the trim area (final output without bleed)
   const trimWidthPx = Math.round(params.width * MM_TO_INCH * DPI);
   const trimHeightPx = Math.round(params.height * MM_TO_INCH * DPI);
-  
+
   // Calculate the safe area (trim area minus safe margins)
   const safeWidthPx = trimWidthPx - (safeMarginPx * 2);
   const safeHeightPx = trimHeightPx - (safeMarginPx * 2);
-  
+
   // Scale image to fit within the safe area, preserving aspect ratio
   const scaleX = safeWidthPx / img.width;
   const scaleY = safeHeightPx / img.height;
   const scale = Math.min(scaleX, scaleY);
-  
+
   const scaledWidth = img.width * scale;
   const scaledHeight = img.height * scale;
-  
+
   // Center the image within the trim area (which is offset by bleed from canvas edge)
   const trimOffsetX = bleedPx;
   const trimOffsetY = bleedPx;
   const imageOffsetX = trimOffsetX + (trimWidthPx - scaledWidth) / 2;
   const imageOffsetY = trimOffsetY + (trimHeightPx - scaledHeight) / 2;
-  
+
   // Draw image centered on canvas
   ctx.drawImage(img, imageOffsetX, imageOffsetY, scaledWidth, scaledHeight);
-  
-  // Create PDF with exact output dimensions (final size + bleed) at 300 DPI
-  const pdf = new jsPDF({
-    unit: 'mm',
-    format: [totalWidthMm, totalHeightMm],
-    orientation: totalWidthMm > totalHeightMm ? 'landscape' : 'portrait'
-  });
-  
-  // Convert canvas to high-quality image data and add to PDF
-  const imageData = canvas.toDataURL('image/jpeg', 0.95);
-  pdf.addImage(imageData, 'JPEG', 0, 0, totalWidthMm, totalHeightMm);
-  
-  return pdf.output('blob');
+  return canvas;
 }
 
-async function loadImage(file: File): Promise<HTMLImageElement> {
-  return new Promise(async (resolve, reject) => {
-    try {
-      if (file.type === 'application/pdf') {
-        // Process PDF using extractImageFromPDF
-        const pdfImage = await extractImageFromPDF(file);
-        resolve(pdfImage);
-      } else {
-        // Handle regular image files
-        const img = new Image();
-        img.onload = () => resolve(img);
-        img.onerror = reject;
-        img.src = URL.createObjectURL(file);
-      }
-    } catch (error) {
-      reject(error);
-    }
+async function* loadImages(file: File): AsyncGenerator<HTMLImageElement> {
+  if (file.type === 'application/pdf') {
+    // Process every PDF page, one at a time
+    yield* extractImagesFromPDF(file);
+    return;
+  }
+
+  // Handle regular image files
+  yield await new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = URL.createObjectURL(file);
   });
 }
 
-async function extractImageFromPDF(file: File): Promise<HTMLImageElement> {
+async function* extractImagesFromPDF(file: File): AsyncGenerator<HTMLImageElement> {
+  let pdf: pdfjsLib.PDFDocumentProxy;
   try {
     // Initialize worker if not already done
     if (!pdfjsLib.GlobalWorkerOptions.workerSrc) {
       pdfjsLib.GlobalWorkerOptions.workerSrc = '/pdf.worker.min.js';
     }
-    
+
     const arrayBuffer = await file.arrayBuffer();
-    const pdf = await pdfjsLib.getDocument({ 
+    pdf = await pdfjsLib.getDocument({
       data: arrayBuffer,
       verbosity: 0,
       useWorkerFetch: false,
       isEvalSupported: false
     }).promise;
-    
-    // Get the first page
-    const page = await pdf.getPage(1);
-    
-    // Set a reasonable scale for high quality
-    const viewport = page.getViewport({ scale: 2.0 });
-    
-    // Create canvas to render PDF page
-    const canvas = document.createElement('canvas');
-    const context = canvas.getContext('2d')!;
-    canvas.height = viewport.height;
-    canvas.width = viewport.width;
-    
-    // Render PDF page to canvas
-    await page.render({
-      canvasContext: context,
-      viewport: viewport
-    }).promise;
-    
-    // Convert canvas to image
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      img.onload = () => resolve(img);
-      img.onerror = reject;
-      img.src = canvas.toDataURL('image/png');
-    });
   } catch (error) {
     throw new Error(`Failed to process PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
-}
\ No newline at end of file
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    try {
+      yield await renderPDFPage(pdf, pageNumber);
+    } catch (error) {
+      throw new Error(`Failed to process PDF page ${pageNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+async function renderPDFPage(pdf: pdfjsLib.PDFDocumentProxy, pageNumber: number): Promise<HTMLImageElement> {
+  const page = await pdf.getPage(pageNumber);
+
+  // Set a reasonable scale for high quality
+  const viewport = page.getViewport({ scale: 2.0 });
+
+  // Create canvas to render PDF page
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d')!;
+  canvas.height = viewport.height;
+  canvas.width = viewport.width;
+
+  // Render PDF page to canvas
+  await page.render({
+    canvasContext: context,
+    viewport: viewport
+  }).promise;
+
+  // Convert canvas to image
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = canvas.toDataURL('image/png');
+  });
+}
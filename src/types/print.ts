@@ -4,6 +4,7 @@ export interface UploadedFile {
   type: "pdf" | "image";
   preview?: string;
   pages?: number;
+  /** Pixel size of an image, or the first page's size in points for a PDF */
   dimensions?: {
     width: number;
     height: number;
@@ -16,10 +17,88 @@ export interface ProcessingParameters {
     height: number;
   };
   bleedMargin: number;
+  /** How the source is scaled into the trim; "contain" when unset */
+  fitMode?: FitMode;
+  /** Where the scaled source sits in the space left over; "center" when unset */
+  fitAnchor?: FitAnchor;
+  /** Manual shift of the placed source in mm, x right and y down */
+  contentOffset?: { x: number; y: number };
+  /** Manual zoom on top of the fit mode, 1 = as fitted */
+  contentScale?: number;
+  /** Enlarge low-resolution sources in steps and sharpen them instead of a single scaled draw; not used for tiled output */
+  upscaleSource?: boolean;
+  /** How the bleed is generated; "auto" uses AI when a key is configured and edge fill otherwise */
+  bleedMethod?: BleedMethod;
+  /** Distance in mm from the trim inside which content is kept; written as the ArtBox */
+  safeMargin?: number;
   dpi: 150 | 300;
-  cutLineType: "rectangle" | "circle";
+  cutLineType: CutLineType;
+  /** Corner radius in mm for the "rounded" cut line */
+  cornerRadius?: number;
+  /** Uploaded die-line for the "custom" cut line, scaled to the final dimensions */
+  customDieLine?: DieLine;
+  /** Distance in mm the "contour" cut line keeps from the artwork */
+  contourOffset?: number;
+  /** Where the contour comes from: PNG transparency, a uniform background, or whichever applies */
+  contourSource?: "auto" | "alpha" | "background";
+  /** Separation name of the vector cut path, e.g. "CutContour" or "Thru-cut" */
+  cutContourName?: string;
+  /** For PDF input: embed the original page as vectors and only rasterise the bleed */
+  preserveVectors?: boolean;
+  /** Colour space of the exported raster; CMYK is converted through the selected ICC profile */
+  colorSpace?: "rgb" | "cmyk";
+  /** ICC output profile id used for CMYK conversion, e.g. "fogra39" */
+  iccProfile?: string;
+  /** Write CMYK images as ICCBased with the profile embedded instead of DeviceCMYK */
+  embedIccProfile?: boolean;
+  /** PDF/X flavour the export has to conform to */
+  pdfStandard?: PDFStandard;
+  /** Crop marks, registration targets, colour bar and slug line around the bleed */
+  printerMarks?: PrinterMarks;
 }
 
+export interface PrinterMarks {
+  enabled: boolean;
+  cropMarks: boolean;
+  registrationMarks: boolean;
+  colorBar: boolean;
+  /** File name and date printed in the slug */
+  slugLine: boolean;
+  /** Space added around the bleed for the marks, in mm */
+  slugSize: number;
+}
+
+export type FitMode = "contain" | "cover" | "stretch" | "none";
+
+export type FitAnchor =
+  | "top-left" | "top" | "top-right"
+  | "left" | "center" | "right"
+  | "bottom-left" | "bottom" | "bottom-right";
+
+export type BleedMethod = "auto" | "edge" | "mirror" | "smear" | "synthesis";
+
+export type CutLineType = "rectangle" | "rounded" | "circle" | "ellipse" | "custom" | "contour";
+
+/**
+ * One segment of a cut path. Trim-relative paths are in mm from the top-left
+ * corner of the trim, y pointing down, the same way the canvas and SVG see them.
+ */
+export type CutPathCommand =
+  | { op: "M"; x: number; y: number }
+  | { op: "L"; x: number; y: number }
+  | { op: "C"; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { op: "Z" };
+
+export interface DieLine {
+  /** Name of the uploaded SVG */
+  name: string;
+  /** Outline in the SVG's own units */
+  path: CutPathCommand[];
+  bounds: { x: number; y: number; width: number; height: number };
+}
+
+export type PDFStandard = "none" | "PDF/X-1a:2003" | "PDF/X-4";
+
 export type ProcessingState = 
   | "idle" 
   | "uploaded" 
@@ -29,21 +108,64 @@ export type ProcessingState =
   | "completed" 
   | "error";
 
+export type ValidationSeverity = "error" | "warning" | "info";
+
+export type ValidationCategory =
+  | "file"
+  | "format"
+  | "dpi"
+  | "color"
+  | "transparency"
+  | "fonts"
+  | "boxes"
+  | "bleed"
+  | "content"
+  | "ai";
+
+/** Parameter change that resolves an issue, offered as a one-click fix */
+export interface ValidationFix {
+  label: string;
+  parameters: Partial<ProcessingParameters>;
+}
+
 export interface ValidationIssue {
-  type: "warning" | "error";
+  type: ValidationSeverity;
   message: string;
-  category: "dpi" | "bleed" | "content" | "format";
+  category: ValidationCategory;
+  /** Preflight rule that raised the issue */
+  ruleId?: string;
+  /** What the user can do about it */
+  suggestion?: string;
+  fix?: ValidationFix;
+  /** Area the issue refers to, in mm from the trim's top-left corner */
+  region?: { x: number; y: number; width: number; height: number };
 }
 
 export interface ValidationResult {
   isValid: boolean;
   warnings: ValidationIssue[];
   errors: ValidationIssue[];
+  info: ValidationIssue[];
+  /** Preflight profile the file was checked against */
+  profile?: string;
 }
 
+export type PresetCategory =
+  | "paper"
+  | "business-cards"
+  | "flyers"
+  | "postcards"
+  | "posters"
+  | "banners"
+  | "custom";
+
 export interface PresetTemplate {
   id: string;
   name: string;
+  /** Complete settings; applying a preset replaces every parameter it sets */
   parameters: ProcessingParameters;
-  category: "business-cards" | "flyers" | "posters" | "custom";
+  category: PresetCategory;
+  description?: string;
+  /** Part of the shipped catalogue rather than saved by the user */
+  builtIn?: boolean;
 }
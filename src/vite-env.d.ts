@@ -1 +1,7 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Supabase project to use instead of the hosted one, e.g. http://127.0.0.1:54321 */
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+}
@@ -0,0 +1,273 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.50.0";
+import { ProcessingParameters } from "@/types/print";
+import { DEFAULT_PROCESSING_PARAMETERS } from "@/services/presets/defaults";
+import {
+  SUPPORTED_IMAGE_TYPES,
+  estimatePrintMemory,
+  printRasterSize,
+  processPrintFile,
+  readImageSize,
+  unsupportedReason,
+} from "@/services/printCore";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+const BUCKET = 'processed-files';
+// Long enough for an automation script to pick the file up after polling
+const SIGNED_URL_SECONDS = 60 * 60;
+// Workers get 256 MB; the rest is left for the runtime, pdf-lib and the upload
+const MAX_JOB_MEMORY = 160 * 1024 * 1024;
+// Well past the worker's wall-clock limit: a job still processing by then has lost its worker
+const STALE_JOB_MINUTES = 10;
+
+// Keeps the worker alive for the processing after the response is sent
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const fileExtension = (name: string) => name.match(/\.[^./]+$/)?.[0].toLowerCase() ?? '';
+
+/**
+ * Parameters from the request on top of the dashboard defaults, so callers
+ * only send what differs. Returns an error message for unusable input.
+ */
+const parseParameters = (raw: FormDataEntryValue | null): ProcessingParameters | string => {
+  let partial: Partial<ProcessingParameters> = {};
+  if (typeof raw === 'string' && raw.trim()) {
+    try {
+      partial = JSON.parse(raw);
+    } catch {
+      return 'parameters is not valid JSON';
+    }
+  }
+
+  const parameters = { ...DEFAULT_PROCESSING_PARAMETERS, ...partial };
+  const { width, height } = parameters.finalDimensions ?? {};
+  if (!(width > 0) || !(height > 0)) {
+    return 'finalDimensions.width and finalDimensions.height must be positive numbers of millimetres';
+  }
+  if (!(parameters.bleedMargin >= 0)) {
+    return 'bleedMargin must be zero or more millimetres';
+  }
+  if (parameters.dpi !== 150 && parameters.dpi !== 300) {
+    return 'dpi must be 150 or 300';
+  }
+  return unsupportedReason(parameters) ?? parameters;
+};
+
+const runJob = async (
+  supabase: SupabaseClient,
+  jobId: string,
+  file: File,
+  parameters: ProcessingParameters,
+  outputPath: string
+) => {
+  const started = Date.now();
+  try {
+    const pdf = await processPrintFile(new Uint8Array(await file.arrayBuffer()), parameters, file.name);
+
+    const { error: uploadError } = await supabase.storage
+      .from(BUCKET)
+      .upload(outputPath, pdf, { contentType: 'application/pdf' });
+    if (uploadError) {
+      throw new Error(`Could not upload the PDF: ${uploadError.message}`);
+    }
+
+    const { error: updateError } = await supabase
+      .from('processed_files')
+      .update({ processing_status: 'completed', page_count: 1, updated_at: new Date().toISOString() })
+      .eq('id', jobId);
+    if (updateError) {
+      throw new Error(`Could not mark the job completed: ${updateError.message}`);
+    }
+    console.log(`Job ${jobId} completed in ${Date.now() - started}ms, ${pdf.size} bytes`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Job ${jobId} failed:`, message);
+    const { error: updateError } = await supabase
+      .from('processed_files')
+      .update({ processing_status: 'failed', error_message: message, updated_at: new Date().toISOString() })
+      .eq('id', jobId);
+    if (updateError) {
+      // The status request reports the job as failed once it goes stale
+      console.error(`Job ${jobId} could not be marked failed:`, updateError.message);
+    }
+  }
+};
+
+/**
+ * POST multipart `file` + `parameters` (ProcessingParameters JSON): stores
+ * the original, starts processing and answers 202 with the job id.
+ */
+const submitJob = async (req: Request, supabase: SupabaseClient, userId: string) => {
+  const formData = await req.formData();
+  const file = formData.get('file');
+  if (!(file instanceof File)) {
+    return json({ error: 'No file provided' }, 400);
+  }
+  if (!SUPPORTED_IMAGE_TYPES.includes(file.type)) {
+    // PDF input is rendered with PDF.js on a canvas, which only the web app has
+    const hint = file.type === 'application/pdf' ? '; PDFs can only be processed in the web app' : '';
+    return json({ error: `Unsupported file type "${file.type}"; send ${SUPPORTED_IMAGE_TYPES.join(' or ')}${hint}` }, 415);
+  }
+
+  const parameters = parseParameters(formData.get('parameters'));
+  if (typeof parameters === 'string') {
+    return json({ error: parameters }, 422);
+  }
+
+  // Checked from the header so oversized jobs are refused before any pixels are allocated
+  const sourceSize = readImageSize(new Uint8Array(await file.arrayBuffer()));
+  if (!sourceSize) {
+    return json({ error: `Could not read the image size of ${file.name}; the file may be corrupted` }, 422);
+  }
+  const memory = estimatePrintMemory(sourceSize.width, sourceSize.height, parameters);
+  if (memory > MAX_JOB_MEMORY) {
+    const { width, height } = printRasterSize(parameters);
+    return json({
+      error: `A ${width}x${height}px output from a ${sourceSize.width}x${sourceSize.height}px image needs about ` +
+        `${Math.ceil(memory / 1024 / 1024)} MB, more than the ${MAX_JOB_MEMORY / 1024 / 1024} MB available here; ` +
+        'lower the dpi, use a smaller size or process the file in the web app',
+    }, 422);
+  }
+
+  // Same layout as jobs saved from the browser, so they show up in the history and can be re-run there
+  const jobId = crypto.randomUUID();
+  const sourcePath = `${userId}/${jobId}/original${fileExtension(file.name)}`;
+  const outputPath = `${userId}/${jobId}/print.pdf`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(BUCKET)
+    .upload(sourcePath, file, { contentType: file.type });
+  if (uploadError) {
+    throw new Error(`Could not store the original: ${uploadError.message}`);
+  }
+
+  const { error } = await supabase.from('processed_files').insert({
+    id: jobId,
+    user_id: userId,
+    original_filename: file.name,
+    output_filename: `${file.name.replace(/\.[^.]+$/, '')}_print.pdf`,
+    format: 'pdf',
+    dpi: parameters.dpi,
+    width_mm: parameters.finalDimensions.width,
+    height_mm: parameters.finalDimensions.height,
+    bleed_mm: parameters.bleedMargin,
+    cut_line_type: parameters.cutLineType,
+    file_url: outputPath,
+    source_path: sourcePath,
+    processing_status: 'processing',
+    parameters,
+  });
+  if (error) {
+    await supabase.storage.from(BUCKET).remove([sourcePath]);
+    throw new Error(`Could not record the job: ${error.message}`);
+  }
+
+  console.log(`Job ${jobId} accepted: ${file.name}, ${file.size} bytes`);
+  EdgeRuntime.waitUntil(runJob(supabase, jobId, file, parameters, outputPath));
+  return json({ jobId, status: 'processing' }, 202);
+};
+
+/**
+ * GET ?job=<id>: the job's status, with a signed download URL once it has
+ * completed. Row-level security limits this to the caller's own jobs. A job
+ * left processing past STALE_JOB_MINUTES lost its worker and is marked failed.
+ */
+const getJobStatus = async (url: URL, supabase: SupabaseClient) => {
+  const jobId = url.searchParams.get('job');
+  if (!jobId) {
+    return json({ error: 'Missing job query parameter' }, 400);
+  }
+
+  const { data: job, error } = await supabase
+    .from('processed_files')
+    .select('id, processing_status, error_message, output_filename, file_url, created_at, updated_at')
+    .eq('id', jobId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Could not load the job: ${error.message}`);
+  }
+  if (!job) {
+    return json({ error: 'Job not found' }, 404);
+  }
+
+  const lastUpdate = Date.parse(job.updated_at ?? job.created_at);
+  if (job.processing_status === 'processing' && Date.now() - lastUpdate > STALE_JOB_MINUTES * 60 * 1000) {
+    const message = `Processing stopped without a result after ${STALE_JOB_MINUTES} minutes; submit the file again`;
+    const { error: updateError } = await supabase
+      .from('processed_files')
+      .update({ processing_status: 'failed', error_message: message, updated_at: new Date().toISOString() })
+      .eq('id', jobId)
+      .eq('processing_status', 'processing');
+    if (updateError) {
+      console.error(`Job ${jobId} could not be marked failed:`, updateError.message);
+    }
+    job.processing_status = 'failed';
+    job.error_message = message;
+  }
+
+  let downloadUrl: string | null = null;
+  if (job.processing_status === 'completed') {
+    const { data, error: urlError } = await supabase.storage
+      .from(BUCKET)
+      .createSignedUrl(job.file_url, SIGNED_URL_SECONDS, { download: job.output_filename });
+    if (urlError) {
+      throw new Error(`Could not create the download link: ${urlError.message}`);
+    }
+    downloadUrl = data.signedUrl;
+  }
+
+  return json({
+    jobId: job.id,
+    status: job.processing_status,
+    error: job.error_message,
+    createdAt: job.created_at,
+    updatedAt: job.updated_at,
+    downloadUrl,
+  });
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Jobs belong to the caller: every query runs with their token under row-level security
+    const authorization = req.headers.get('Authorization');
+    if (!authorization) {
+      return json({ error: 'Missing Authorization header' }, 401);
+    }
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authorization } } }
+    );
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return json({ error: 'Not signed in' }, 401);
+    }
+
+    if (req.method === 'POST') {
+      return await submitJob(req, supabase, user.id);
+    }
+    if (req.method === 'GET') {
+      return await getJobStatus(new URL(req.url), supabase);
+    }
+    return json({ error: `Method ${req.method} not allowed` }, 405);
+  } catch (error) {
+    console.error('Error in process-print-file function:', error);
+    return json({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
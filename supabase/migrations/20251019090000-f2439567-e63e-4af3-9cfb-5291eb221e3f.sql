@@ -0,0 +1,18 @@
+-- Job history: keep what is needed to re-run a job next to its output
+
+-- 1. Sizes are not always whole millimetres (US Letter is 215.9 x 279.4)
+alter table public.processed_files
+  alter column width_mm type numeric,
+  alter column height_mm type numeric,
+  alter column bleed_mm type numeric;
+
+-- 2. Full processing parameters, the page range and where the original is stored
+alter table public.processed_files
+  add column parameters jsonb,
+  add column page_range text,
+  add column page_count int,
+  add column source_path text;
+
+-- 3. Newest jobs first for each user
+create index processed_files_user_created_idx
+  on public.processed_files (user_id, created_at desc);
@@ -0,0 +1,40 @@
+-- User-created processing presets; the built-in catalogue ships with the app
+
+create table public.user_presets (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  name text not null,
+  category text not null default 'custom',
+  description text,
+  parameters jsonb not null,
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now()
+);
+
+create index user_presets_user_idx on public.user_presets (user_id, name);
+
+alter table public.user_presets enable row level security;
+
+create policy "Users can view their own presets"
+  on public.user_presets
+  for select
+  using (user_id = auth.uid());
+
+create policy "Users can insert their own presets"
+  on public.user_presets
+  for insert
+  with check (user_id = auth.uid());
+
+create policy "Users can update their own presets"
+  on public.user_presets
+  for update
+  using (user_id = auth.uid());
+
+create policy "Users can delete their own presets"
+  on public.user_presets
+  for delete
+  using (user_id = auth.uid());
+
+create trigger user_presets_touch_updated_at
+  before update on public.user_presets
+  for each row execute function public.touch_updated_at();
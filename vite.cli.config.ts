@@ -0,0 +1,24 @@
+import { defineConfig } from "vite";
+import path from "path";
+
+// Bundles the command-line tool for Node; dependencies stay in node_modules
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  // The app's public/ folder has nothing the CLI needs
+  publicDir: false,
+  build: {
+    ssr: "cli/prep-print.ts",
+    outDir: "dist-cli",
+    target: "node18",
+    rollupOptions: {
+      output: {
+        entryFileNames: "prep-print.js",
+        banner: "#!/usr/bin/env node",
+      },
+    },
+  },
+});